@@ -0,0 +1,50 @@
+import { HttpError } from './http.js';
+
+// 検証済みトークンを再検証せずに使用する時間
+const TOKEN_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * 利用者のGoogleアカウントによる認証
+ * アプリのクライアントIDで発行されたアクセストークンのみ受け付け、メールアドレスが許可リストにあるかも確認する
+ * （許可リストを空にできるのはモックの上流サーバー使用時のみ）
+ */
+export const createAuthenticator = (config, upstreams) => {
+  const cache = new Map();
+
+  /**
+   * リクエストのアクセストークンを検証
+   * @returns {Promise<{ token: string, email?: string }>}
+   */
+  return async req => {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    if (!token) {
+      throw new HttpError(401, '認証が必要です');
+    }
+
+    const cached = cache.get(token);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { token, email: cached.email };
+    }
+
+    const info = await upstreams.verifyToken(token);
+    if (!info || (info.aud !== config.googleClientId && info.azp !== config.googleClientId)) {
+      cache.delete(token);
+      throw new HttpError(401, '認証の有効期限が切れました。ログインし直してください');
+    }
+
+    const email = info.email?.toLowerCase();
+    const requiresAllowlist = !config.mock || config.allowedEmails.length > 0;
+    if (requiresAllowlist && (!email || !config.allowedEmails.includes(email))) {
+      throw new HttpError(403, 'このアカウントには利用権限がありません');
+    }
+
+    cache.forEach((entry, key) => {
+      if (entry.expiresAt <= Date.now()) cache.delete(key);
+    });
+    // トークンの有効期限を超えてキャッシュしない
+    const expiresIn = Number(info.expires_in) * 1000 || TOKEN_CACHE_TTL;
+    cache.set(token, { email, expiresAt: Date.now() + Math.min(TOKEN_CACHE_TTL, expiresIn) });
+    return { token, email };
+  };
+};
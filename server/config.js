@@ -0,0 +1,53 @@
+/**
+ * プロキシサーバーの設定（環境変数から読み込む）
+ * APIキー等はこのサーバーのみが保持し、ブラウザのビルドには含めない
+ */
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_ALLOWED_ORIGINS = 'http://localhost:3005';
+// アプリのOCRプロンプトが使用するモデル（src/prompts/promptRegistry.ts）
+const DEFAULT_ALLOWED_MODELS = 'gpt-5-mini-2025-08-07';
+
+const splitList = value =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const requireEnv = (env, name) => {
+  const value = env[name]?.trim();
+  if (!value) {
+    throw new Error(`環境変数 ${name} が設定されていません（--mock でモックの上流サーバーを使用できます）`);
+  }
+  return value;
+};
+
+/**
+ * 設定を読み込む
+ * @param {NodeJS.ProcessEnv} env 環境変数
+ * @param {string[]} args コマンドライン引数（--mock でモックの上流サーバーを使用）
+ */
+export const loadConfig = (env = process.env, args = process.argv.slice(2)) => {
+  const mock = args.includes('--mock') || env.PROXY_MOCK_UPSTREAMS === 'true';
+  const port = Number(env.PROXY_PORT) || DEFAULT_PORT;
+  // 許可リストがないと、クライアントIDで発行されたトークンを持つ誰もがサーバーのAPIキーを使えるため必須とする
+  const allowedEmails = splitList(env.PROXY_ALLOWED_EMAILS).map(email => email.toLowerCase());
+  if (!mock && allowedEmails.length === 0) {
+    throw new Error('環境変数 PROXY_ALLOWED_EMAILS が設定されていません（利用を許可するGoogleアカウントをカンマ区切りで指定）');
+  }
+
+  return {
+    port,
+    mock,
+    allowedOrigins: splitList(env.PROXY_ALLOWED_ORIGINS || DEFAULT_ALLOWED_ORIGINS),
+    // モックの上流サーバー使用時のみ空にでき、その場合はアプリでログインした全員を受け付ける
+    allowedEmails,
+    allowedModels: splitList(env.PROXY_ALLOWED_MODELS || DEFAULT_ALLOWED_MODELS),
+    openaiApiKey: mock ? '' : requireEnv(env, 'OPENAI_API_KEY'),
+    googleClientId: mock ? (env.GOOGLE_CLIENT_ID?.trim() || 'mock-client-id') : requireEnv(env, 'GOOGLE_CLIENT_ID'),
+    googleApiKey: env.GOOGLE_API_KEY?.trim() || '',
+    spreadsheetId: mock ? (env.SPREADSHEET_ID?.trim() || 'mock-spreadsheet') : requireEnv(env, 'SPREADSHEET_ID'),
+    // 画像を含むリクエストの上限（バイト）
+    maxBodyBytes: 20 * 1024 * 1024,
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * HTTPリクエスト・レスポンスの共通処理
+ */
+
+/**
+ * ステータスコード付きのエラー（クライアントにそのまま返す）
+ */
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * 許可したオリジンからのリクエストにCORSヘッダーを付与
+ */
+export const applyCors = (req, res, allowedOrigins) => {
+  const origin = req.headers.origin;
+  if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Max-Age', '600');
+  }
+};
+
+export const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * リクエスト本文を読み込む（上限を超えた場合は413）
+ */
+export const readBody = (req, maxBytes) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'リクエストが大きすぎます'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+export const readJsonBody = async (req, maxBytes) => {
+  const text = await readBody(req, maxBytes);
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    throw new HttpError(400, 'JSONの形式が正しくありません');
+  }
+};
+
+/**
+ * 上流サーバーの応答をそのまま返す（ストリーミング応答は受信した順に転送）
+ */
+export const pipeResponse = async (upstream, res) => {
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') || 'application/json',
+    ...(upstream.headers.get('retry-after') ? { 'Retry-After': upstream.headers.get('retry-after') } : {}),
+  });
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  for await (const chunk of upstream.body) {
+    res.write(chunk);
+  }
+  res.end();
+};
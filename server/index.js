@@ -0,0 +1,120 @@
+/**
+ * 作業記録簿OCRのAPIプロキシサーバー（任意）
+ * OpenAI・GoogleのAPIキーをサーバー側で保持し、ブラウザからは利用者のGoogleアカウントで認証して呼び出す
+ *
+ * 起動: npm run proxy（モックの上流サーバーを使用する場合は npm run proxy:mock）
+ */
+import { createServer } from 'node:http';
+import { loadConfig } from './config.js';
+import { createAuthenticator } from './auth.js';
+import { applyCors, HttpError, pipeResponse, readBody, readJsonBody, sendJson } from './http.js';
+import { createUpstreams } from './upstreams.js';
+import { createMockUpstreams } from './mockUpstreams.js';
+
+// 1回のOCRリクエストで指定できる応答トークン数の上限
+const MAX_COMPLETION_TOKENS = 16000;
+
+/**
+ * OCRリクエストの検証（許可したモデルのみ、応答は1件、応答トークン数は上限まで）
+ */
+const sanitizeOpenAiRequest = (body, allowedModels) => {
+  if (!allowedModels.includes(body.model)) {
+    throw new HttpError(400, `モデル ${body.model} は利用できません`);
+  }
+  if (body.n !== undefined && body.n !== 1) {
+    throw new HttpError(400, '応答の件数（n）は1のみ指定できます');
+  }
+  const tokenKeys = ['max_tokens', 'max_completion_tokens'];
+  tokenKeys.forEach(key => {
+    if (body[key] === undefined) return;
+    if (typeof body[key] !== 'number' || body[key] <= 0) {
+      throw new HttpError(400, `${key} の指定が正しくありません`);
+    }
+    body[key] = Math.min(body[key], MAX_COMPLETION_TOKENS);
+  });
+  // 指定がない場合もモデルの上限まで応答させない
+  if (tokenKeys.every(key => body[key] === undefined)) {
+    body.max_completion_tokens = MAX_COMPLETION_TOKENS;
+  }
+  return body;
+};
+
+/**
+ * Sheets APIのうちアプリが使用する操作のみ転送する
+ */
+const isAllowedSheetsRequest = (method, path) => {
+  const decoded = decodeURIComponent(path);
+  if (method === 'GET') {
+    return decoded === '' || /^\/values\/[^/]+$/.test(decoded);
+  }
+  if (method === 'POST') {
+    return decoded === '/values:batchUpdate' || /^\/values\/[^/]+:append$/.test(decoded);
+  }
+  return false;
+};
+
+const config = loadConfig();
+const upstreams = config.mock ? createMockUpstreams(config) : createUpstreams(config);
+const authenticate = createAuthenticator(config, upstreams);
+
+const server = createServer(async (req, res) => {
+  applyCors(req, res, config.allowedOrigins);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  // 利用者が接続を切った場合（アプリでキャンセルした場合）は上流へのリクエストも中断
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort();
+  });
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true, mock: config.mock });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/openai/chat/completions') {
+      const { email } = await authenticate(req);
+      const body = sanitizeOpenAiRequest(await readJsonBody(req, config.maxBodyBytes), config.allowedModels);
+      console.log(`[openai] ${email ?? '-'} model=${body.model} max_tokens=${body.max_tokens ?? body.max_completion_tokens}`);
+      await pipeResponse(await upstreams.openai(body, abortController.signal), res);
+      return;
+    }
+
+    if (url.pathname === '/api/sheets' || url.pathname.startsWith('/api/sheets/')) {
+      const path = url.pathname.slice('/api/sheets'.length);
+      if (!isAllowedSheetsRequest(req.method, path)) {
+        throw new HttpError(404, '対応していない操作です');
+      }
+      const { token, email } = await authenticate(req);
+      const body = req.method === 'POST' ? await readBody(req, config.maxBodyBytes) : undefined;
+      console.log(`[sheets] ${email ?? '-'} ${req.method} ${decodeURIComponent(path) || '/'}`);
+      await pipeResponse(await upstreams.sheets({ method: req.method, path, search: url.searchParams, token, body }), res);
+      return;
+    }
+
+    throw new HttpError(404, 'Not found');
+  } catch (error) {
+    if (abortController.signal.aborted) return;
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: { message: error.message } });
+      return;
+    }
+    console.error('[proxy] 上流サーバーへの転送に失敗しました', error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendJson(res, 502, { error: { message: '上流サーバーへの接続に失敗しました' } });
+    }
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`APIプロキシを起動しました: http://localhost:${config.port}${config.mock ? '（モックの上流サーバーを使用）' : ''}`);
+  console.log(`許可するオリジン: ${config.allowedOrigins.join(', ')}`);
+});
@@ -0,0 +1,184 @@
+/**
+ * 開発用のモック上流サーバー（OpenAI・Google）
+ * APIキー・Googleアカウントなしでプロキシ経由の読み取り〜保存を動作確認するために使用する
+ * スプレッドシートはメモリ上に保持し、サーバーを再起動すると初期状態に戻る
+ */
+
+// モックのOCR結果（標準の作業記録簿）
+const MOCK_OCR_RESULT = {
+  ヘッダー: {
+    作業日: null,
+    工場名: '第一工場',
+    商品名: '11250プラスチック',
+    作業時間: '8:00-17:00',
+  },
+  包装作業記録: [
+    { 氏名: '土橋舞子', 開始時刻: '8:00', 終了時刻: '15:20', 休憩: { 昼休み: true, 中休み: true }, 生産数: '400' },
+    { 氏名: '野沢真紀', 開始時刻: '8:15', 終了時刻: '13:10', 休憩: { 昼休み: true, 中休み: false }, 生産数: '500' },
+  ],
+  機械操作記録: [
+    { 氏名: '今村龍太郎', 開始時刻: '8:30', 終了時刻: '17:00', 休憩: { 昼休み: true, 中休み: true }, 生産数: '1400' },
+  ],
+};
+
+// 管理シートの氏名は空白なし（土橋舞子・土橋健太は名字のみの記入で同じ名字の確認になる）
+const MOCK_EMPLOYEES = ['土橋舞子', '野沢真紀', '今村龍太郎', '土橋健太'];
+const MOCK_READINGS = ['ツチハシ マイコ', 'ノザワ マキ', 'イマムラ リュウタロウ', 'ツチハシ ケンタ'];
+const MOCK_PRODUCTS = ['11250プラスチック', 'タラタラスティック'];
+
+// 応答を分割して送る間隔（ストリーミングの進捗表示の確認用）
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_DELAY = 30;
+
+const wait = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * 作業日が属する集計期間の年月（21日サイクル、アプリの getWorkPeriod と同じ）
+ */
+const periodOf = date => {
+  const start = date.getDate() <= 20
+    ? new Date(date.getFullYear(), date.getMonth() - 1, 21)
+    : new Date(date.getFullYear(), date.getMonth(), 21);
+  return `${start.getFullYear()}年${(start.getMonth() + 1).toString().padStart(2, '0')}月`;
+};
+
+/**
+ * 列名（A, B, ..., AA）を0始まりの列番号に変換
+ */
+const columnIndex = letters =>
+  letters.toUpperCase().split('').reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * A1形式の範囲（シート名!A2:B 等）を解析
+ */
+const parseRange = range => {
+  const [sheet, cells = ''] = range.includes('!') ? range.split('!') : [range, ''];
+  const [from = '', to = from] = cells.split(':');
+  const parse = cell => {
+    const match = cell.match(/^([A-Za-z]*)(\d*)$/) || [];
+    return { column: match[1] ? columnIndex(match[1]) : null, row: match[2] ? Number(match[2]) - 1 : null };
+  };
+  const start = parse(from);
+  const end = parse(to);
+  return {
+    sheet: sheet.replace(/^'|'$/g, ''),
+    startRow: start.row ?? 0,
+    endRow: end.row,
+    startColumn: start.column ?? 0,
+    endColumn: end.column,
+  };
+};
+
+const jsonResponse = (status, body) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+export const createMockUpstreams = config => {
+  // シート名 → 行の配列
+  const sheets = new Map([
+    ['管理', [
+      ['氏名', 'フリガナ', '商品名'],
+      ...MOCK_EMPLOYEES.map((name, index) => [name, MOCK_READINGS[index], MOCK_PRODUCTS[index] ?? '']),
+    ]],
+    ['別名', [['名前', '別名'], ['土橋舞子', 'まいちゃん', 'ツッチー'], ['11250プラスチック', '11250']]],
+  ]);
+  const today = new Date();
+  const previousMonth = new Date(today.getFullYear(), today.getMonth() - 1, today.getDate());
+  [today, previousMonth].forEach(date => {
+    MOCK_EMPLOYEES.forEach(name => sheets.set(`${name}_${periodOf(date)}`, [['日付']]));
+  });
+  sheets.set('usage', []);
+
+  const readRange = range => {
+    const { sheet, startRow, endRow, startColumn, endColumn } = parseRange(range);
+    const rows = sheets.get(sheet);
+    if (!rows) return null;
+    return rows
+      .slice(startRow, endRow === null ? undefined : endRow + 1)
+      .map(row => row.slice(startColumn, endColumn === null ? undefined : endColumn + 1));
+  };
+
+  const writeRange = (range, values) => {
+    const { sheet, startRow, startColumn } = parseRange(range);
+    const rows = sheets.get(sheet);
+    if (!rows) return false;
+    while (rows.length < startRow + values.length) rows.push([]);
+    values.forEach((rowValues, rowOffset) => {
+      const row = rows[startRow + rowOffset];
+      rowValues.forEach((value, columnOffset) => {
+        row[startColumn + columnOffset] = value;
+      });
+      rows[startRow + rowOffset] = Array.from(row, value => value ?? '');
+    });
+    return true;
+  };
+
+  return {
+    async verifyToken(token) {
+      return token ? { aud: config.googleClientId, email: 'developer@example.com', expires_in: '3600' } : null;
+    },
+
+    /**
+     * 固定のOCR結果をServer-Sent Eventsで分割して返す
+     */
+    openai(body) {
+      const image = body.messages?.[0]?.content?.find(part => part.type === 'image_url');
+      // 用紙の種類の判定は低解像度で送信される
+      const content = JSON.stringify(image?.image_url?.detail === 'low' ? { id: 'standard' } : MOCK_OCR_RESULT);
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream({
+        async start(controller) {
+          for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+            const chunk = { choices: [{ delta: { content: content.slice(i, i + STREAM_CHUNK_SIZE) } }] };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+            await wait(STREAM_DELAY);
+          }
+          const completionTokens = Math.ceil(content.length / STREAM_CHUNK_SIZE);
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] })}\n\n`));
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+            choices: [],
+            usage: { prompt_tokens: 1000, completion_tokens: completionTokens, total_tokens: 1000 + completionTokens },
+          })}\n\n`));
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        },
+      });
+      return Promise.resolve(new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }));
+    },
+
+    /**
+     * メモリ上のスプレッドシートで読み書きを再現（アプリが使用する操作のみ）
+     */
+    async sheets({ method, path, body }) {
+      const decodedPath = decodeURIComponent(path);
+
+      if (method === 'GET' && decodedPath === '') {
+        return jsonResponse(200, { sheets: Array.from(sheets.keys(), title => ({ properties: { title } })) });
+      }
+
+      if (method === 'POST' && decodedPath === '/values:batchUpdate') {
+        const { data = [] } = JSON.parse(body || '{}');
+        const updated = data.filter(({ range, values }) => writeRange(range, values));
+        return jsonResponse(200, { totalUpdatedRanges: updated.length });
+      }
+
+      const append = decodedPath.match(/^\/values\/(.+):append$/);
+      if (method === 'POST' && append) {
+        const { sheet } = parseRange(append[1]);
+        const rows = sheets.get(sheet);
+        if (!rows) return jsonResponse(400, { error: { message: `Unable to parse range: ${append[1]}` } });
+        const { values = [] } = JSON.parse(body || '{}');
+        rows.push(...values);
+        return jsonResponse(200, { updates: { updatedRows: values.length } });
+      }
+
+      const values = decodedPath.match(/^\/values\/(.+)$/);
+      if (method === 'GET' && values) {
+        const rows = readRange(values[1]);
+        if (!rows) return jsonResponse(400, { error: { message: `Unable to parse range: ${values[1]}` } });
+        return jsonResponse(200, { range: values[1], values: rows });
+      }
+
+      return jsonResponse(404, { error: { message: 'Not found' } });
+    },
+  };
+};
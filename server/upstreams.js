@@ -0,0 +1,52 @@
+/**
+ * 上流サーバー（OpenAI・Google）への転送
+ * モック（mockUpstreams.js）と同じインターフェースで、fetchのResponseを返す
+ */
+
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+const SHEETS_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+const TOKENINFO_URL = 'https://www.googleapis.com/oauth2/v3/tokeninfo';
+
+export const createUpstreams = config => ({
+  /**
+   * Googleのアクセストークンを検証（無効な場合はnull）
+   */
+  async verifyToken(token) {
+    const response = await fetch(`${TOKENINFO_URL}?access_token=${encodeURIComponent(token)}`);
+    return response.ok ? response.json() : null;
+  },
+
+  /**
+   * Chat Completions APIに送信（APIキーはサーバーで付与）
+   */
+  openai(body, signal) {
+    return fetch(OPENAI_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.openaiApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  },
+
+  /**
+   * Sheets APIに送信（スプレッドシートIDとAPIキーはサーバーで付与、認証は利用者のトークン）
+   * @param {{ method: string, path: string, search: URLSearchParams, token: string, body?: string }} request
+   */
+  sheets({ method, path, search, token, body }) {
+    const params = new URLSearchParams(search);
+    if (config.googleApiKey) params.set('key', config.googleApiKey);
+    const query = params.toString();
+
+    return fetch(`${SHEETS_URL}/${config.spreadsheetId}${path}${query ? `?${query}` : ''}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body,
+    });
+  },
+});
@@ -16,7 +16,7 @@ import {
   Error,
   Warning
 } from '@mui/icons-material';
-import { OpenAIOcrService } from '@/services/ocrService';
+import { OcrProviderRegistry } from '@/services/ocrProvider';
 import { GoogleSheetsService } from '@/services/googleSheetsService';
 
 interface ConnectionStatusProps {
@@ -42,8 +42,8 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ onStatusChange }) =
       }
 
       try {
-        // OpenAI API 接続確認
-        const openaiValid = await OpenAIOcrService.validateApiKey();
+        // OCRプロバイダー 接続確認
+        const openaiValid = await OcrProviderRegistry.getProvider().validateConnection();
         setOpenaiStatus(openaiValid ? 'ok' : 'error');
 
         // Google Sheets API 接続確認
@@ -161,7 +161,7 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ onStatusChange }) =
             <Stack direction="row" spacing={1} flexWrap="wrap">
               <Chip
                 icon={getStatusIcon(openaiStatus)}
-                label={`OpenAI API: ${getStatusText(openaiStatus)}`}
+                label={`${OcrProviderRegistry.getProvider().displayName}: ${getStatusText(openaiStatus)}`}
                 color={getStatusColor(openaiStatus)}
                 size="small"
                 variant="outlined"
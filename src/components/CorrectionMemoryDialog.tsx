@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Delete } from '@mui/icons-material';
+import { CorrectionMemoryService } from '@/services/correctionMemoryService';
+import { CharacterConfusionService } from '@/services/characterConfusionService';
+import { CorrectionMemoryEntry } from '@/types';
+
+interface CorrectionMemoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// 整理の条件（保存回数・最後の保存からの日数）
+const PRUNE_OPTIONS = [
+  { label: '1回だけの補正', options: { minCount: 2 } },
+  { label: '90日以上使われていない補正', options: { olderThanDays: 90 } },
+  { label: '30日以上使われていない補正', options: { olderThanDays: 30 } },
+];
+
+/**
+ * 補正の学習データの確認・整理（ユーザーメニューから開く管理者向けの画面）
+ * 誤った補正を覚えた場合は、ここで削除すると次回から使われなくなる
+ */
+const CorrectionMemoryDialog: React.FC<CorrectionMemoryDialogProps> = ({ open, onClose }) => {
+  const [entries, setEntries] = useState<CorrectionMemoryEntry[]>([]);
+  const [learnedPairs, setLearnedPairs] = useState<ReturnType<typeof CharacterConfusionService.getLearnedPairs>>([]);
+  const [pruneIndex, setPruneIndex] = useState(0);
+
+  const reload = () => {
+    setEntries(CorrectionMemoryService.getEntries());
+    setLearnedPairs(CharacterConfusionService.getLearnedPairs());
+  };
+
+  const handleRemove = (id: string) => {
+    CorrectionMemoryService.remove(id);
+    reload();
+  };
+
+  const handlePrune = () => {
+    const { label, options } = PRUNE_OPTIONS[pruneIndex];
+    if (!window.confirm(`「${label}」を削除しますか？`)) return;
+    CorrectionMemoryService.prune(options);
+    reload();
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('補正の学習データをすべて削除しますか？')) return;
+    CorrectionMemoryService.clear();
+    reload();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} TransitionProps={{ onEnter: reload }} fullWidth maxWidth="md">
+      <DialogTitle>補正の学習データ</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          保存時に読み取った値と確定した値の組です。同じ読み取りは次回から自動で補正し、OCRのヒントにも使用します。
+        </Typography>
+
+        {learnedPairs.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 0.5 }}>
+              読み間違えやすい文字（補正から学習し、氏名・商品名の照合に使用）
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {learnedPairs.map(({ pair }) => (
+                <Chip key={pair.join('')} label={pair.join(' / ')} size="small" variant="outlined" />
+              ))}
+            </Box>
+          </Box>
+        )}
+
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="整理する補正"
+            value={pruneIndex}
+            onChange={event => setPruneIndex(Number(event.target.value))}
+            sx={{ minWidth: 240 }}
+          >
+            {PRUNE_OPTIONS.map((option, index) => (
+              <MenuItem key={option.label} value={index}>{option.label}</MenuItem>
+            ))}
+          </TextField>
+          <Button variant="outlined" onClick={handlePrune} disabled={entries.length === 0}>
+            整理
+          </Button>
+          <Box sx={{ flexGrow: 1 }} />
+          <Button color="error" onClick={handleClear} disabled={entries.length === 0}>
+            すべて削除
+          </Button>
+        </Stack>
+
+        {entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">学習データはまだありません</Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>項目</TableCell>
+                <TableCell>読み取り</TableCell>
+                <TableCell>確定した値</TableCell>
+                <TableCell align="right">回数</TableCell>
+                <TableCell>最終</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>{entry.field}</TableCell>
+                  <TableCell>{entry.original}</TableCell>
+                  <TableCell sx={{ fontWeight: entry.original !== entry.corrected ? 600 : undefined }}>
+                    {entry.corrected}
+                  </TableCell>
+                  <TableCell align="right">{entry.count}</TableCell>
+                  <TableCell>{new Date(entry.lastSeenAt).toLocaleDateString('ja-JP')}</TableCell>
+                  <TableCell padding="checkbox">
+                    <IconButton size="small" aria-label="削除" onClick={() => handleRemove(entry.id)}>
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>閉じる</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CorrectionMemoryDialog;
@@ -30,11 +30,14 @@ import {
   Person,
   CloudSync,
   TableChart,
+  School,
 } from '@mui/icons-material';
 import { useAppStore } from '@/stores/appStore';
 import { GoogleSheetsService } from '@/services/googleSheetsService';
 import { TokenExpiryService } from '@/services/tokenExpiryService';
 import ConnectionStatus from './ConnectionStatus';
+import OcrUsageStatus from './OcrUsageStatus';
+import CorrectionMemoryDialog from './CorrectionMemoryDialog';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -51,6 +54,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { currentStep, error, success, setError, setSuccess } = useAppStore();
   const [userMenuAnchor, setUserMenuAnchor] = useState<null | HTMLElement>(null);
   const [isUpdatingMasterData, setIsUpdatingMasterData] = useState(false);
+  const [isCorrectionMemoryOpen, setIsCorrectionMemoryOpen] = useState(false);
 
   const handleCloseError = () => {
     setError(null);
@@ -164,6 +168,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     handleUserMenuClose();
   };
 
+  const handleOpenCorrectionMemory = () => {
+    setIsCorrectionMemoryOpen(true);
+    handleUserMenuClose();
+  };
+
   // 認証状態を確認
   const isAuthenticated = !!localStorage.getItem('google_access_token');
 
@@ -176,6 +185,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             📋 作業記録簿OCR
           </Typography>
           
+          {/* OCR利用状況 */}
+          <OcrUsageStatus />
+          
           {/* ユーザーメニュー */}
           <IconButton
             size="large"
@@ -251,6 +263,18 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               </MenuItem>
             )}
             
+            {isAuthenticated && (
+              <MenuItem onClick={handleOpenCorrectionMemory}>
+                <ListItemIcon>
+                  <School fontSize="small" />
+                </ListItemIcon>
+                <ListItemText 
+                  primary="補正の学習データ" 
+                  secondary="読み取りの補正履歴"
+                />
+              </MenuItem>
+            )}
+            
             {isAuthenticated && (
               <MenuItem onClick={handleLogout}>
                 <ListItemIcon>
@@ -269,6 +293,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               </MenuItem>
             )}
           </Menu>
+
+          <CorrectionMemoryDialog
+            open={isCorrectionMemoryOpen}
+            onClose={() => setIsCorrectionMemoryOpen(false)}
+          />
         </Toolbar>
       </AppBar>
 
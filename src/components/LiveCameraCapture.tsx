@@ -0,0 +1,328 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Webcam from 'react-webcam';
+import {
+  Box,
+  Button,
+  Dialog,
+  FormControlLabel,
+  IconButton,
+  LinearProgress,
+  Stack,
+  Switch,
+  Typography,
+} from '@mui/material';
+import { CameraAlt, Close, FlashlightOn, FlashlightOff } from '@mui/icons-material';
+import { findPageQuad, Point } from '@/utils/imageProcessing';
+import { log } from '@/utils/logger';
+
+interface LiveCameraCaptureProps {
+  open: boolean;
+  onClose: () => void;
+  onComplete: (images: string[]) => void;
+  onError: (message: string) => void;
+}
+
+// 用紙検出に使用するフレームの長辺（px）
+const ANALYSIS_MAX_DIMENSION = 320;
+// 用紙検出の間隔（ミリ秒）
+const ANALYSIS_INTERVAL_MS = 250;
+// 自動撮影する用紙の最小の面積比
+const MIN_COVERAGE = 0.5;
+// 四隅が画面端からこの割合以内なら、用紙がはみ出しているとみなす
+const EDGE_MARGIN_RATIO = 0.015;
+// 前フレームからの四隅の移動量がこの割合以内なら静止とみなす
+const STEADY_SHIFT_RATIO = 0.015;
+// 自動撮影までに必要な静止フレーム数（約1.5秒）
+const STEADY_FRAMES_REQUIRED = 6;
+
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+type TorchConstraintSet = MediaTrackConstraintSet & { torch?: boolean };
+
+type Detection = {
+  corners: Point[];
+  width: number;
+  height: number;
+  inFrame: boolean;  // 用紙全体が十分な大きさで画面内に収まっている
+};
+
+/**
+ * 四隅の最大移動量（フレームサイズに対する割合）
+ */
+const maxCornerShift = (prev: Point[], next: Point[], width: number, height: number): number =>
+  Math.max(...next.map((point, i) => Math.max(
+    Math.abs(point.x - prev[i].x) / width,
+    Math.abs(point.y - prev[i].y) / height
+  )));
+
+/**
+ * カメラのライブ映像で作業記録簿を撮影するビューファインダー
+ * 用紙の輪郭を重ねて表示し、用紙全体が収まって静止したら自動で撮影する
+ */
+const LiveCameraCapture: React.FC<LiveCameraCaptureProps> = ({ open, onClose, onComplete, onError }) => {
+  const webcamRef = useRef<Webcam>(null);
+  const analysisCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const previousCornersRef = useRef<Point[] | null>(null);
+  const steadyFramesRef = useRef(0);
+  // 撮影後は用紙が動く（入れ替える）まで自動撮影しない
+  const armedRef = useRef(true);
+
+  const [isReady, setIsReady] = useState(false);
+  const [detection, setDetection] = useState<Detection | null>(null);
+  const [steadyFrames, setSteadyFrames] = useState(0);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [capturedImages, setCapturedImages] = useState<string[]>([]);
+  const [flash, setFlash] = useState(false);
+
+  // ダイアログを閉じたら状態をリセット
+  useEffect(() => {
+    if (!open) {
+      setIsReady(false);
+      setDetection(null);
+      setSteadyFrames(0);
+      setTorchSupported(false);
+      setTorchOn(false);
+      setCapturedImages([]);
+      previousCornersRef.current = null;
+      steadyFramesRef.current = 0;
+      armedRef.current = true;
+    }
+  }, [open]);
+
+  const capture = useCallback(() => {
+    const screenshot = webcamRef.current?.getScreenshot();
+    if (!screenshot) {
+      log.warn('カメラ画像の取得に失敗しました');
+      return;
+    }
+
+    armedRef.current = false;
+    steadyFramesRef.current = 0;
+    setSteadyFrames(0);
+    setCapturedImages(images => [...images, screenshot]);
+    setFlash(true);
+    setTimeout(() => setFlash(false), 200);
+    log.info('カメラで撮影しました');
+  }, []);
+
+  // フレームから用紙を検出
+  const analyzeFrame = useCallback(() => {
+    const video = webcamRef.current?.video;
+    if (!video || video.readyState < 2 || video.videoWidth === 0) return;
+
+    const scale = Math.min(1, ANALYSIS_MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+    const width = Math.round(video.videoWidth * scale);
+    const height = Math.round(video.videoHeight * scale);
+
+    if (!analysisCanvasRef.current) {
+      analysisCanvasRef.current = document.createElement('canvas');
+    }
+    const canvas = analysisCanvasRef.current;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0, width, height);
+
+    const page = findPageQuad(ctx.getImageData(0, 0, width, height), MIN_COVERAGE / 2);
+    if (!page) {
+      previousCornersRef.current = null;
+      steadyFramesRef.current = 0;
+      armedRef.current = true;
+      setDetection(null);
+      setSteadyFrames(0);
+      return;
+    }
+
+    const marginX = width * EDGE_MARGIN_RATIO;
+    const marginY = height * EDGE_MARGIN_RATIO;
+    const inFrame = page.areaRatio >= MIN_COVERAGE && page.corners.every(point =>
+      point.x > marginX && point.x < width - marginX && point.y > marginY && point.y < height - marginY
+    );
+
+    const previous = previousCornersRef.current;
+    const shift = previous ? maxCornerShift(previous, page.corners, width, height) : 1;
+    previousCornersRef.current = page.corners;
+
+    if (inFrame && shift <= STEADY_SHIFT_RATIO) {
+      steadyFramesRef.current++;
+    } else {
+      steadyFramesRef.current = 0;
+      // 用紙が大きく動いたら次の撮影を許可
+      if (shift > STEADY_SHIFT_RATIO * 3 || !inFrame) armedRef.current = true;
+    }
+
+    setDetection({ corners: page.corners, width, height, inFrame });
+    setSteadyFrames(steadyFramesRef.current);
+
+    if (autoCapture && armedRef.current && steadyFramesRef.current >= STEADY_FRAMES_REQUIRED) {
+      capture();
+    }
+  }, [autoCapture, capture]);
+
+  useEffect(() => {
+    if (!open || !isReady) return;
+    const timer = setInterval(analyzeFrame, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [open, isReady, analyzeFrame]);
+
+  const getVideoTrack = () => webcamRef.current?.stream?.getVideoTracks()[0];
+
+  const handleUserMedia = () => {
+    setIsReady(true);
+    const track = getVideoTrack();
+    const capabilities = track?.getCapabilities?.() as TorchCapabilities | undefined;
+    setTorchSupported(!!capabilities?.torch);
+  };
+
+  const handleUserMediaError = (error: string | DOMException) => {
+    log.error('カメラの起動に失敗しました', error);
+    onError('カメラを起動できませんでした。カメラへのアクセスを許可するか、ファイルを選択してください');
+  };
+
+  const toggleTorch = async () => {
+    const track = getVideoTrack();
+    if (!track) return;
+    const next = !torchOn;
+    try {
+      const constraint: TorchConstraintSet = { torch: next };
+      await track.applyConstraints({ advanced: [constraint] });
+      setTorchOn(next);
+    } catch (error) {
+      log.warn('ライトの切り替えに失敗しました', error);
+      setTorchSupported(false);
+    }
+  };
+
+  const statusText = !isReady
+    ? 'カメラを起動しています...'
+    : !detection
+      ? '作業記録簿を画面に映してください'
+      : !detection.inFrame
+        ? '記録簿全体が枠に収まるように近づけてください'
+        : !autoCapture
+          ? '撮影ボタンを押してください'
+          : armedRef.current
+            ? 'そのまま動かさないでください'
+            : '撮影しました。次のページは用紙を入れ替えてください';
+
+  const outlineColor = detection?.inFrame ? '#4caf50' : '#ffb300';
+
+  return (
+    <Dialog open={open} onClose={onClose} fullScreen>
+      <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%', backgroundColor: 'common.black' }}>
+        <Stack direction="row" alignItems="center" sx={{ p: 1, color: 'common.white' }}>
+          <IconButton onClick={onClose} aria-label="閉じる" sx={{ color: 'common.white' }}>
+            <Close />
+          </IconButton>
+          <Typography sx={{ flex: 1 }}>{statusText}</Typography>
+          {torchSupported && (
+            <IconButton onClick={toggleTorch} aria-label="ライト" sx={{ color: 'common.white' }}>
+              {torchOn ? <FlashlightOn /> : <FlashlightOff />}
+            </IconButton>
+          )}
+        </Stack>
+
+        <Box sx={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' }}>
+          <Box sx={{ position: 'relative', width: '100%', maxWidth: '800px' }}>
+            {open && (
+              <Webcam
+                ref={webcamRef}
+                audio={false}
+                screenshotFormat="image/jpeg"
+                screenshotQuality={0.92}
+                forceScreenshotSourceSize
+                videoConstraints={{
+                  facingMode: { ideal: 'environment' },
+                  width: { ideal: 1920 },
+                  height: { ideal: 1080 },
+                }}
+                onUserMedia={handleUserMedia}
+                onUserMediaError={handleUserMediaError}
+                style={{ display: 'block', width: '100%', height: 'auto' }}
+              />
+            )}
+
+            {/* 検出した用紙の輪郭 */}
+            {detection && (
+              <Box
+                component="svg"
+                viewBox={`0 0 ${detection.width} ${detection.height}`}
+                preserveAspectRatio="none"
+                sx={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}
+              >
+                <polygon
+                  points={detection.corners.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill={`${outlineColor}33`}
+                  stroke={outlineColor}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </Box>
+            )}
+
+            {/* 撮影時のフラッシュ表示 */}
+            {flash && (
+              <Box sx={{ position: 'absolute', inset: 0, backgroundColor: 'common.white', opacity: 0.6 }} />
+            )}
+          </Box>
+        </Box>
+
+        {autoCapture && (
+          <LinearProgress
+            variant="determinate"
+            color="success"
+            value={Math.min(100, (steadyFrames / STEADY_FRAMES_REQUIRED) * 100)}
+          />
+        )}
+
+        <Stack spacing={1} sx={{ p: 2, color: 'common.white' }}>
+          {capturedImages.length > 0 && (
+            <Stack direction="row" spacing={1} sx={{ overflowX: 'auto' }}>
+              {capturedImages.map((image, index) => (
+                <Box
+                  key={index}
+                  component="img"
+                  src={image}
+                  alt={`${index + 1}枚目`}
+                  sx={{ width: 48, height: 48, objectFit: 'cover', borderRadius: 1, flexShrink: 0 }}
+                />
+              ))}
+            </Stack>
+          )}
+          <Stack direction="row" spacing={2} alignItems="center" justifyContent="space-between">
+            <FormControlLabel
+              control={
+                <Switch checked={autoCapture} onChange={(event) => setAutoCapture(event.target.checked)} />
+              }
+              label="自動撮影"
+            />
+            <IconButton
+              onClick={capture}
+              disabled={!isReady}
+              aria-label="撮影"
+              sx={{
+                width: 64,
+                height: 64,
+                backgroundColor: 'common.white',
+                '&:hover': { backgroundColor: 'grey.300' },
+              }}
+            >
+              <CameraAlt fontSize="large" />
+            </IconButton>
+            <Button
+              variant="contained"
+              disabled={capturedImages.length === 0}
+              onClick={() => onComplete(capturedImages)}
+            >
+              読み取る（{capturedImages.length}枚）
+            </Button>
+          </Stack>
+        </Stack>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default LiveCameraCapture;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Insights } from '@mui/icons-material';
+import { useAppStore } from '@/stores/appStore';
+import { OcrUsageService } from '@/services/ocrUsageService';
+import { OcrUsageOutcome, OcrUsagePurpose } from '@/types';
+
+const PURPOSE_LABELS: Record<OcrUsagePurpose, string> = {
+  ocr: '読み取り',
+  detect: '用紙判定',
+  reread: '再読み取り',
+};
+
+const OUTCOME_LABELS: Record<OcrUsageOutcome, string> = {
+  success: '成功',
+  error: '失敗',
+  cached: 'キャッシュ',
+  blocked: '予算超過',
+  cancelled: 'キャンセル',
+};
+
+// 利用記録の一覧に表示する件数
+const RECENT_ENTRY_COUNT = 10;
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 3 : 2)}`;
+
+/**
+ * 今月のOCR利用額の表示（ヘッダーのユーザーメニューの隣）
+ * クリックで利用記録と月間予算の詳細を表示する
+ */
+const OcrUsageStatus: React.FC = () => {
+  // 画面の切り替え（currentStepの変更）で再描画され、最新の利用記録を集計する
+  useAppStore(state => state.currentStep);
+  const [open, setOpen] = useState(false);
+
+  const status = OcrUsageService.getBudgetStatus();
+  const summary = OcrUsageService.getMonthlySummary();
+  const recentEntries = open ? OcrUsageService.getEntries().slice(-RECENT_ENTRY_COUNT).reverse() : [];
+
+  const chipColor = status.level === 'blocked' ? 'error' : status.level === 'warn' ? 'warning' : 'default';
+  const usageRatio = status.limitUsd ? Math.min(1, status.spentUsd / status.limitUsd) : 0;
+
+  return (
+    <>
+      <Chip
+        icon={<Insights />}
+        label={status.limitUsd ? `${formatUsd(status.spentUsd)} / ${formatUsd(status.limitUsd)}` : formatUsd(status.spentUsd)}
+        color={chipColor}
+        size="small"
+        onClick={() => setOpen(true)}
+        sx={{
+          ml: 2,
+          color: chipColor === 'default' ? 'inherit' : undefined,
+          borderColor: 'rgba(255, 255, 255, 0.5)',
+        }}
+        variant={chipColor === 'default' ? 'outlined' : 'filled'}
+      />
+
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>OCR利用状況（{summary.month}）</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2}>
+            <Box>
+              <Typography variant="h5" sx={{ fontWeight: 600 }}>
+                {formatUsd(status.spentUsd)}
+                {status.limitUsd && (
+                  <Typography component="span" variant="body1" color="text.secondary">
+                    {' '}/ 上限 {formatUsd(status.limitUsd)}
+                  </Typography>
+                )}
+              </Typography>
+              {status.limitUsd ? (
+                <>
+                  <LinearProgress
+                    variant="determinate"
+                    value={usageRatio * 100}
+                    color={status.level === 'ok' ? 'primary' : status.level === 'warn' ? 'warning' : 'error'}
+                    sx={{ mt: 1, height: 8, borderRadius: 4 }}
+                  />
+                  <Typography variant="caption" color="text.secondary">
+                    {status.level === 'blocked'
+                      ? '上限に達したため、今月の読み取りを停止しています'
+                      : `上限の${Math.round(status.warnRatio * 100)}%で警告します`}
+                  </Typography>
+                </>
+              ) : (
+                <Typography variant="caption" color="text.secondary">月間予算は設定されていません</Typography>
+              )}
+            </Box>
+
+            <Typography variant="body2">
+              リクエスト {summary.requests}件（失敗 {summary.failedRequests}件）・キャッシュ利用 {summary.cachedRequests}件・
+              {summary.totalTokens.toLocaleString()}トークン
+            </Typography>
+
+            {recentEntries.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>日時</TableCell>
+                    <TableCell>種類</TableCell>
+                    <TableCell align="right">トークン</TableCell>
+                    <TableCell align="right">料金</TableCell>
+                    <TableCell>結果</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {recentEntries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{new Date(entry.timestamp).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</TableCell>
+                      <TableCell>{PURPOSE_LABELS[entry.purpose]}</TableCell>
+                      <TableCell align="right">{entry.totalTokens.toLocaleString()}</TableCell>
+                      <TableCell align="right">{formatUsd(entry.estimatedCostUsd)}</TableCell>
+                      <TableCell>{OUTCOME_LABELS[entry.outcome]}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <Typography variant="caption" color="text.secondary">
+              料金はトークン数からの見積もりです。実際の請求額はOpenAIの管理画面で確認してください。
+            </Typography>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>閉じる</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default OcrUsageStatus;
@@ -0,0 +1,91 @@
+import React from 'react';
+import {
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Box,
+  Typography,
+  Chip,
+} from '@mui/material';
+import { ExpandMore } from '@mui/icons-material';
+import { ImagePreprocessResult, ImagePreprocessStep } from '@/types';
+
+interface PreprocessDebugPanelProps {
+  results: ImagePreprocessResult[];
+}
+
+const STEP_LABELS: Record<ImagePreprocessStep['name'], string> = {
+  original: '元画像',
+  deskew: '傾き・台形補正',
+  normalizeContrast: 'コントラスト補正',
+  suppressHighlighter: '蛍光ペン除去',
+};
+
+/**
+ * 画像前処理の各ステップの前後画像を表示（VITE_IMAGE_PREPROCESS_DEBUG=true の場合のみ）
+ */
+const PreprocessDebugPanel: React.FC<PreprocessDebugPanelProps> = ({ results }) => {
+  const hasDebugImages = results.some(result => result.steps.some(step => step.image));
+  if (!hasDebugImages) {
+    return null;
+  }
+
+  return (
+    <Accordion sx={{ mb: 3 }}>
+      <AccordionSummary expandIcon={<ExpandMore />}>
+        <Typography variant="body2" sx={{ fontWeight: 600 }}>
+          🛠 画像前処理のデバッグ表示
+        </Typography>
+      </AccordionSummary>
+      <AccordionDetails>
+        {results.map((result, pageIndex) => (
+          <Box key={pageIndex} sx={{ mb: 2 }}>
+            <Typography variant="caption" sx={{ fontWeight: 600, display: 'block', mb: 1 }}>
+              {pageIndex + 1}枚目（{result.width}×{result.height}px）
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, overflowX: 'auto', pb: 1 }}>
+              {result.steps.map(step => (
+                <Box key={step.name} sx={{ flexShrink: 0, width: '160px' }}>
+                  {step.image && (
+                    <Box
+                      component="a"
+                      href={step.image}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      sx={{ display: 'block' }}
+                    >
+                      <Box
+                        component="img"
+                        src={step.image}
+                        alt={STEP_LABELS[step.name]}
+                        sx={{ width: '100%', border: '1px solid', borderColor: 'divider', borderRadius: 1 }}
+                      />
+                    </Box>
+                  )}
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
+                    <Typography variant="caption">{STEP_LABELS[step.name]}</Typography>
+                    {step.name !== 'original' && (
+                      <Chip
+                        label={step.applied ? `${step.durationMs}ms` : 'スキップ'}
+                        size="small"
+                        color={step.applied ? 'success' : 'default'}
+                        sx={{ height: '18px', fontSize: '10px' }}
+                      />
+                    )}
+                  </Box>
+                  {step.note && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      {step.note}
+                    </Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          </Box>
+        ))}
+      </AccordionDetails>
+    </Accordion>
+  );
+};
+
+export default PreprocessDebugPanel;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  ButtonBase,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Slider,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { ZoomIn, ZoomOut } from '@mui/icons-material';
+import { CellRegion } from '@/types';
+
+interface SourceCropPreviewProps {
+  imageSrc: string | null;
+  imageSize: { width: number; height: number } | null;
+  region: CellRegion | null;
+  label: string;
+  width?: number;
+  height?: number;
+}
+
+// 拡大表示の基準幅（px）
+const DIALOG_BASE_WIDTH = 520;
+
+/**
+ * 元画像の該当セルを切り出して表示するサムネイル
+ * タップすると周辺を含めて拡大表示する
+ */
+const SourceCropPreview: React.FC<SourceCropPreviewProps> = ({
+  imageSrc,
+  imageSize,
+  region,
+  label,
+  width = 64,
+  height = 32,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [zoom, setZoom] = useState(1);
+
+  if (!imageSrc || !imageSize || !region || region.width <= 0 || region.height <= 0) {
+    return null;
+  }
+
+  // サムネイル：セル全体が収まるように縮小し中央に配置
+  const thumbScale = Math.min(width / region.width, height / region.height);
+  const thumbOffsetX = (width - region.width * thumbScale) / 2;
+  const thumbOffsetY = (height - region.height * thumbScale) / 2;
+
+  // 拡大表示：前後の文字と比較できるよう周辺も含める
+  const padding = Math.max(region.height, region.width * 0.25);
+  const viewX = Math.max(0, region.x - padding);
+  const viewY = Math.max(0, region.y - padding);
+  const viewWidth = Math.min(imageSize.width, region.x + region.width + padding) - viewX;
+  const viewHeight = Math.min(imageSize.height, region.y + region.height + padding) - viewY;
+  const viewScale = (DIALOG_BASE_WIDTH / viewWidth) * zoom;
+
+  const handleClose = () => {
+    setOpen(false);
+    setZoom(1);
+  };
+
+  return (
+    <>
+      <ButtonBase
+        onClick={() => setOpen(true)}
+        aria-label={`${label}の元画像を表示`}
+        sx={{
+          flexShrink: 0,
+          width: `${width}px`,
+          height: `${height}px`,
+          border: '1px solid',
+          borderColor: 'divider',
+          borderRadius: 1,
+          backgroundColor: 'grey.100',
+          backgroundImage: `url(${imageSrc})`,
+          backgroundRepeat: 'no-repeat',
+          backgroundSize: `${imageSize.width * thumbScale}px ${imageSize.height * thumbScale}px`,
+          backgroundPosition: `${thumbOffsetX - region.x * thumbScale}px ${thumbOffsetY - region.y * thumbScale}px`,
+        }}
+      />
+
+      <Dialog open={open} onClose={handleClose} maxWidth="md">
+        <DialogTitle sx={{ fontSize: '18px' }}>{label}（元画像）</DialogTitle>
+        <DialogContent>
+          <Box sx={{ maxWidth: `${DIALOG_BASE_WIDTH}px`, maxHeight: '60vh', overflow: 'auto' }}>
+            <Box
+              sx={{
+                position: 'relative',
+                width: `${viewWidth * viewScale}px`,
+                height: `${viewHeight * viewScale}px`,
+                backgroundImage: `url(${imageSrc})`,
+                backgroundRepeat: 'no-repeat',
+                backgroundSize: `${imageSize.width * viewScale}px ${imageSize.height * viewScale}px`,
+                backgroundPosition: `${-viewX * viewScale}px ${-viewY * viewScale}px`,
+              }}
+            >
+              {/* 該当セルの枠 */}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: `${(region.x - viewX) * viewScale}px`,
+                  top: `${(region.y - viewY) * viewScale}px`,
+                  width: `${region.width * viewScale}px`,
+                  height: `${region.height * viewScale}px`,
+                  border: '2px solid',
+                  borderColor: 'error.main',
+                  borderRadius: 0.5,
+                  pointerEvents: 'none',
+                }}
+              />
+            </Box>
+          </Box>
+          <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 2 }}>
+            <ZoomOut color="action" />
+            <Slider
+              value={zoom}
+              min={1}
+              max={4}
+              step={0.5}
+              onChange={(_, value) => setZoom(value as number)}
+              aria-label="拡大率"
+            />
+            <ZoomIn color="action" />
+            <Typography variant="body2" sx={{ minWidth: '40px' }}>
+              ×{zoom}
+            </Typography>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleClose}>閉じる</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default SourceCropPreview;
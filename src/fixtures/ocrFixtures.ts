@@ -0,0 +1,177 @@
+import { OcrResult } from '@/types';
+
+/**
+ * モックOCRプロバイダー用の固定OCR結果
+ * 補正前のOcrResultの形式で記述する（作業記録は標準の用紙テンプレートの表ごと）
+ * セル領域は sourceImageSize を基準としたピクセル座標（実際の画像サイズに合わせて拡大縮小される）
+ */
+export const OCR_FIXTURES: Record<string, OcrResult> = {
+  // 標準的な1枚の記録簿
+  standard: {
+    ヘッダー: {
+      工場名: '第一工場',
+      商品名: '11250プラスチック',
+      作業時間: '8:00-17:00',
+    },
+    記録: {
+      包装作業記録: [
+        {
+          氏名: '土橋舞子',
+          開始時刻: '8:00',
+          終了時刻: '15:20',
+          チェック: { 昼休み: true, 中休み: true },
+          値: { 生産数: '400' },
+        },
+        {
+          氏名: '野沢真紀',
+          開始時刻: '8:15',
+          終了時刻: '13:10',
+          チェック: { 昼休み: true, 中休み: false },
+          値: { 生産数: '500' },
+        },
+      ],
+      機械操作記録: [
+        {
+          氏名: '今村龍太郎',
+          開始時刻: '8:30',
+          終了時刻: '17:00',
+          チェック: { 昼休み: true, 中休み: true },
+          値: { 生産数: '1400' },
+        },
+      ],
+    },
+  },
+
+  // 同じ従業員が複数回勤務している記録簿
+  multiShift: {
+    ヘッダー: {
+      工場名: '第一工場',
+      商品名: 'タラタラスティック',
+      作業時間: '8:00-17:30',
+    },
+    記録: {
+      包装作業記録: [
+        {
+          氏名: '野沢真紀',
+          開始時刻: '8:15',
+          終了時刻: '13:10',
+          チェック: { 昼休み: true, 中休み: false },
+          値: { 生産数: '500' },
+          時刻リスト: [
+            { 開始時刻: '8:15', 終了時刻: '13:10' },
+            { 開始時刻: '15:00', 終了時刻: '17:30' },
+          ],
+        },
+      ],
+      機械操作記録: [
+        {
+          氏名: '土橋舞子',
+          開始時刻: '8:30',
+          終了時刻: '12:00',
+          チェック: { 昼休み: false, 中休み: true },
+          値: { 生産数: '1400' },
+          時刻リスト: [
+            { 開始時刻: '8:30', 終了時刻: '12:00' },
+            { 開始時刻: '13:30', 終了時刻: '15:45' },
+          ],
+        },
+      ],
+    },
+  },
+
+  // 名字のみの記入（管理シートに同じ名字の従業員が複数いる場合の確認用。モック上流サーバーの従業員は土橋舞子・土橋健太）
+  sharedSurname: {
+    ヘッダー: {
+      工場名: '第一工場',
+      商品名: '11250プラスチック',
+      作業時間: '8:00-17:00',
+    },
+    記録: {
+      包装作業記録: [
+        {
+          氏名: '土橋',
+          開始時刻: '8:00',
+          終了時刻: '15:20',
+          チェック: { 昼休み: true, 中休み: true },
+          値: { 生産数: '400' },
+        },
+        {
+          氏名: '野沢',
+          開始時刻: '8:15',
+          終了時刻: '13:10',
+          チェック: { 昼休み: true, 中休み: false },
+          値: { 生産数: '500' },
+        },
+      ],
+      機械操作記録: [],
+    },
+  },
+
+  // 手書きの誤読を含む記録簿（補正・確認画面の動作確認用）
+  lowConfidence: {
+    ヘッダー: {
+      工場名: '第一工場',
+      商品名: 'お菓了A',
+      作業時間: '8:00-17:00',
+      cells: {
+        工場名: { confidence: 0.95, region: { x: 190, y: 50, width: 290, height: 40 } },
+        商品名: { confidence: 0.45, region: { x: 670, y: 50, width: 400, height: 40 } },
+        作業時間: { confidence: 0.9, region: { x: 1215, y: 50, width: 290, height: 40 } },
+      },
+    },
+    記録: {
+      包装作業記録: [
+        {
+          氏名: '士橋舞子',
+          開始時刻: '8:00',
+          終了時刻: '15:20',
+          チェック: { 昼休み: true, 中休み: false },
+          値: { 生産数: '400' },
+          cells: {
+            氏名: { confidence: 0.7, region: { x: 80, y: 180, width: 320, height: 42 } },
+            開始時刻: { confidence: 0.95, region: { x: 415, y: 180, width: 190, height: 42 } },
+            終了時刻: { confidence: 0.4, region: { x: 625, y: 180, width: 190, height: 42 } },
+            昼休み: { confidence: 0.9, region: { x: 830, y: 180, width: 95, height: 42 } },
+            中休み: { confidence: 0.9, region: { x: 945, y: 180, width: 95, height: 42 } },
+            生産数: { confidence: 0.85, region: { x: 1070, y: 180, width: 240, height: 42 } },
+          },
+        },
+        {
+          氏名: '菊池',
+          開始時刻: '9:00',
+          終了時刻: '不明',
+          チェック: { 昼休み: true, 中休み: true },
+          値: { 生産数: '350' },
+          cells: {
+            氏名: { confidence: 0.6, region: { x: 80, y: 225, width: 320, height: 42 } },
+            開始時刻: { confidence: 0.9, region: { x: 415, y: 225, width: 190, height: 42 } },
+            終了時刻: { confidence: 0.1, region: { x: 625, y: 225, width: 190, height: 42 } },
+            昼休み: { confidence: 0.5, region: { x: 830, y: 225, width: 95, height: 42 } },
+            中休み: { confidence: 0.9, region: { x: 945, y: 225, width: 95, height: 42 } },
+            生産数: { confidence: 0.35, region: { x: 1070, y: 225, width: 240, height: 42 } },
+          },
+        },
+      ],
+      機械操作記録: [
+        {
+          氏名: '勝谷',
+          開始時刻: '8:30',
+          終了時刻: '17:00',
+          チェック: { 昼休み: true, 中休み: false },
+          値: { 生産数: '1200' },
+          cells: {
+            氏名: { confidence: 0.55, region: { x: 80, y: 760, width: 320, height: 42 } },
+            開始時刻: { confidence: 0.9, region: { x: 415, y: 760, width: 190, height: 42 } },
+            終了時刻: { confidence: 0.9, region: { x: 625, y: 760, width: 190, height: 42 } },
+            昼休み: { confidence: 0.9, region: { x: 830, y: 760, width: 95, height: 42 } },
+            中休み: { confidence: 0.9, region: { x: 945, y: 760, width: 95, height: 42 } },
+            生産数: { confidence: 0.9, region: { x: 1070, y: 760, width: 240, height: 42 } },
+          },
+        },
+      ],
+    },
+    sourceImageSize: { width: 1600, height: 1200 },
+  },
+};
+
+export const DEFAULT_OCR_FIXTURE = 'standard';
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+
+type ImageSize = { width: number; height: number };
+
+/**
+ * 複数の画像の実サイズを取得（読み込めない画像はnull）
+ * 画像の配列は呼び出し側でメモ化して渡すこと
+ */
+export const useImageSizes = (sources: string[]) => {
+  const [sizes, setSizes] = useState<(ImageSize | null)[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      sources.map(
+        src =>
+          new Promise<ImageSize | null>(resolve => {
+            const img = new Image();
+            img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+            img.onerror = () => resolve(null);
+            img.src = src;
+          })
+      )
+    ).then(result => {
+      if (!cancelled) setSizes(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sources]);
+
+  return sizes;
+};
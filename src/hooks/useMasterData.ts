@@ -6,6 +6,12 @@ import { log } from '@/utils/logger';
 export interface MasterData {
   employees: string[];
   products: string[];
+  /** 氏名 → 読み（管理シートのフリガナ列に記入がある従業員のみ） */
+  employeeReadings?: Record<string, string>;
+  /** 氏名 → 別名（別名シートに記入がある従業員のみ） */
+  employeeAliases?: Record<string, string[]>;
+  /** 商品名 → 別名（別名シートに記入がある商品のみ） */
+  productAliases?: Record<string, string[]>;
 }
 
 export const useMasterData = () => {
@@ -9,22 +9,49 @@ import {
   Alert,
   CircularProgress,
   Stack,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
 } from '@mui/material';
-import { CameraAlt, Upload, CloudUpload, TableChart, OpenInNew } from '@mui/icons-material';
+import { CameraAlt, Upload, CloudUpload, TableChart, OpenInNew, Videocam } from '@mui/icons-material';
 import { useAppStore } from '@/stores/appStore';
+import LiveCameraCapture from '@/components/LiveCameraCapture';
+import { ImageQualityService } from '@/services/imageQualityService';
+import { OcrUsageService } from '@/services/ocrUsageService';
+import { FORM_TEMPLATES } from '@/templates/formTemplates';
+import { ImageQualityIssueKind, ImageQualityReport } from '@/types';
+
+// 撮影のコツ（品質チェックで問題が見つかった項目を強調表示する）
+const SHOOTING_TIPS: { text: string; kinds: ImageQualityIssueKind[] }[] = [
+  { text: '📝 作業記録簿全体が画面に収まるようにしてください', kinds: ['coverage', 'resolution'] },
+  { text: '💡 明るい場所で撮影してください', kinds: ['dark'] },
+  { text: '📐 記録簿が水平になるように調整してください', kinds: ['coverage'] },
+  { text: '🚫 影や反射を避けてください', kinds: ['glare', 'overexposed', 'dark'] },
+];
+
+type QualityCheck = { image: string; report: ImageQualityReport | null };
 
 const CameraPage: React.FC = () => {
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isCapturing, setIsCapturing] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isCheckingQuality, setIsCheckingQuality] = useState(false);
+  const [qualityChecks, setQualityChecks] = useState<QualityCheck[] | null>(null);
+  const [isLiveCameraOpen, setIsLiveCameraOpen] = useState(false);
+  const isLiveCameraSupported = !!navigator.mediaDevices?.getUserMedia;
+  const budgetStatus = OcrUsageService.getBudgetStatus();
   
-  const { setCapturedImage, setCurrentStep } = useAppStore();
+  const { setCapturedImage, setCurrentStep, formTemplateId, setFormTemplateId } = useAppStore();
 
   // ファイルアップロード（複数枚対応）
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
+    setCameraError(null);
 
     const imageDataArray: string[] = [];
     let processedCount = 0;
@@ -55,13 +82,62 @@ const CameraPage: React.FC = () => {
 
         // すべてのファイルが読み込まれたら処理開始
         if (processedCount === files.length) {
-          processImages(imageDataArray);
+          checkImageQuality(imageDataArray);
         }
       };
       reader.readAsDataURL(file);
     }
   };
 
+  // 画質チェック（問題がある場合は撮り直しを案内）
+  const checkImageQuality = async (imageDataArray: string[]) => {
+    setIsCheckingQuality(true);
+    const checks: QualityCheck[] = [];
+    for (const image of imageDataArray) {
+      checks.push({ image, report: await ImageQualityService.analyze(image) });
+    }
+    setIsCheckingQuality(false);
+
+    if (checks.every(check => !check.report || check.report.issues.length === 0)) {
+      processImages(imageDataArray);
+    } else {
+      setQualityChecks(checks);
+    }
+  };
+
+  // 撮り直し（カメラ対応時はカメラ、非対応時は同じファイルを再選択できるよう入力をリセット）
+  const handleRetake = () => {
+    setQualityChecks(null);
+    if (isLiveCameraSupported) {
+      setIsLiveCameraOpen(true);
+      return;
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    openFileDialog();
+  };
+
+  // カメラで撮影した画像を読み取り
+  const handleLiveCaptureComplete = (images: string[]) => {
+    setIsLiveCameraOpen(false);
+    setCameraError(null);
+    checkImageQuality(images);
+  };
+
+  const handleLiveCameraError = (message: string) => {
+    setIsLiveCameraOpen(false);
+    setCameraError(message);
+  };
+
+  // 警告を確認したうえで読み取りを続行
+  const handleProceedAnyway = () => {
+    if (!qualityChecks) return;
+    const images = qualityChecks.map(check => check.image);
+    setQualityChecks(null);
+    processImages(images);
+  };
+
   // 画像処理（複数枚対応）
   const processImages = (imageDataArray: string[]) => {
     setIsCapturing(true);
@@ -90,6 +166,11 @@ const CameraPage: React.FC = () => {
     }
   };
 
+  const hasBlockingIssue = !!qualityChecks?.some(check => ImageQualityService.hasBlockingIssue(check.report));
+  const detectedKinds = new Set(
+    (qualityChecks || []).flatMap(check => check.report?.issues.map(issue => issue.kind) || [])
+  );
+
   return (
     <Box sx={{ textAlign: 'center' }}>
       <Typography variant="h5" gutterBottom sx={{ mb: 3, fontWeight: 600 }}>
@@ -102,6 +183,15 @@ const CameraPage: React.FC = () => {
         </Alert>
       )}
 
+      {/* 月間予算の警告 */}
+      {budgetStatus.level !== 'ok' && budgetStatus.limitUsd && (
+        <Alert severity={budgetStatus.level === 'blocked' ? 'error' : 'warning'} sx={{ mb: 2, textAlign: 'left' }}>
+          {budgetStatus.level === 'blocked'
+            ? `今月のOCR利用額が上限（$${budgetStatus.limitUsd.toFixed(2)}）に達したため、新しい画像は読み取れません。管理者に連絡してください。`
+            : `今月のOCR利用額が$${budgetStatus.spentUsd.toFixed(2)}になり、上限（$${budgetStatus.limitUsd.toFixed(2)}）に近づいています。`}
+        </Alert>
+      )}
+
       {/* 隠しファイル入力（複数枚選択対応） */}
       <input
         ref={fileInputRef}
@@ -114,17 +204,46 @@ const CameraPage: React.FC = () => {
 
       {/* アクションボタン */}
       <Stack spacing={2} sx={{ mb: 3 }}>
+        <TextField
+          select
+          label="用紙の種類"
+          size="small"
+          value={formTemplateId}
+          onChange={(event) => setFormTemplateId(event.target.value)}
+          disabled={isCapturing || isCheckingQuality}
+        >
+          <MenuItem value="auto">自動判定</MenuItem>
+          {FORM_TEMPLATES.map(template => (
+            <MenuItem key={template.id} value={template.id}>{template.name}</MenuItem>
+          ))}
+        </TextField>
+
+        {isLiveCameraSupported && (
+          <Button
+            variant="contained"
+            size="large"
+            onClick={() => setIsLiveCameraOpen(true)}
+            disabled={isCapturing || isCheckingQuality}
+            startIcon={<Videocam />}
+            sx={{ 
+              minWidth: '200px',
+            }}
+          >
+            📷 カメラで撮影する
+          </Button>
+        )}
+
         <Button
-          variant="contained"
+          variant={isLiveCameraSupported ? 'outlined' : 'contained'}
           size="large"
           onClick={openFileDialog}
-          disabled={isCapturing}
-          startIcon={isCapturing ? <CircularProgress size={24} /> : <CloudUpload />}
+          disabled={isCapturing || isCheckingQuality}
+          startIcon={isCapturing || isCheckingQuality ? <CircularProgress size={24} /> : <CloudUpload />}
           sx={{ 
             minWidth: '200px',
           }}
         >
-          {isCapturing ? '処理中...' : '📁 ファイルを選択 / 撮影する'}
+          {isCheckingQuality ? '画質を確認中...' : isCapturing ? '処理中...' : '📁 ファイルを選択 / 撮影する'}
         </Button>
 
         <Button
@@ -155,10 +274,18 @@ const CameraPage: React.FC = () => {
             <CameraAlt sx={{ mr: 1 }} /> 使用方法
           </Typography>
           <Typography variant="body1" component="ul" sx={{ pl: 2, mb: 2 }}>
-            <li>📝 作業記録簿全体が画面に収まるようにしてください</li>
-            <li>💡 明るい場所で撮影してください</li>
-            <li>📐 記録簿が水平になるように調整してください</li>
-            <li>🚫 影や反射を避けてください</li>
+            {SHOOTING_TIPS.map(tip => {
+              const isDetected = tip.kinds.some(kind => detectedKinds.has(kind));
+              return (
+                <Box
+                  component="li"
+                  key={tip.text}
+                  sx={isDetected ? { color: 'warning.dark', fontWeight: 600 } : undefined}
+                >
+                  {tip.text}
+                </Box>
+              );
+            })}
           </Typography>
           
           <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', mt: 2 }}>
@@ -180,6 +307,71 @@ const CameraPage: React.FC = () => {
           </Typography>
         </CardContent>
       </Card>
+
+      <LiveCameraCapture
+        open={isLiveCameraOpen}
+        onClose={() => setIsLiveCameraOpen(false)}
+        onComplete={handleLiveCaptureComplete}
+        onError={handleLiveCameraError}
+      />
+
+      {/* 画質チェックの結果 */}
+      <Dialog open={!!qualityChecks} onClose={() => setQualityChecks(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{hasBlockingIssue ? '撮り直してください' : '画質を確認してください'}</DialogTitle>
+        <DialogContent>
+          <Alert severity={hasBlockingIssue ? 'error' : 'warning'} sx={{ mb: 2 }}>
+            {hasBlockingIssue
+              ? 'このままでは正しく読み取れない可能性が高いため、撮り直しが必要です'
+              : '読み取り精度が下がる可能性があります。撮り直すか、このまま読み取るか選択してください'}
+          </Alert>
+          <Stack spacing={2}>
+            {(qualityChecks || []).map((check, index) => {
+              const issues = check.report?.issues || [];
+              if (issues.length === 0) return null;
+              return (
+                <Box key={index}>
+                  {qualityChecks && qualityChecks.length > 1 && (
+                    <Typography variant="subtitle2" gutterBottom>
+                      {index + 1}枚目
+                    </Typography>
+                  )}
+                  <Stack direction="row" spacing={2} alignItems="flex-start">
+                    <Box
+                      component="img"
+                      src={check.image}
+                      alt={`${index + 1}枚目`}
+                      sx={{ width: 80, height: 80, objectFit: 'cover', borderRadius: 1, flexShrink: 0 }}
+                    />
+                    <Stack spacing={1} sx={{ flex: 1 }}>
+                      {issues.map(issue => (
+                        <Box key={issue.kind}>
+                          <Typography
+                            variant="body2"
+                            sx={{ fontWeight: 600, color: issue.severity === 'block' ? 'error.main' : 'warning.dark' }}
+                          >
+                            {issue.severity === 'block' ? '✖' : '⚠'} {issue.message}
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {issue.advice}
+                          </Typography>
+                        </Box>
+                      ))}
+                    </Stack>
+                  </Stack>
+                </Box>
+              );
+            })}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          {!hasBlockingIssue && (
+            <Button onClick={handleProceedAnyway}>このまま読み取る</Button>
+          )}
+          <Button variant="contained" startIcon={<CameraAlt />} onClick={handleRetake}>
+            撮り直す
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -19,6 +19,7 @@ import {
   IconButton,
   CircularProgress,
   Grow,
+  Tooltip,
 } from '@mui/material';
 import { DatePicker, LocalizationProvider } from '@mui/x-date-pickers';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
@@ -35,16 +36,79 @@ import {
   Save,
   Warning,
 } from '@mui/icons-material';
-import { OcrResult, PackagingRecord, MachineOperationRecord, ConfirmationStatus } from '@/types';
+import {
+  OcrResult,
+  WorkerRecord,
+  ConfirmationStatus,
+  CellRegion,
+  TimeSlotCellKey,
+  HeaderConflict,
+  FormSectionTemplate,
+  FormCheckboxTemplate,
+} from '@/types';
 import { useAppStore } from '@/stores/appStore';
 import { GoogleSheetsService } from '@/services/googleSheetsService';
+import { OcrResponseParser } from '@/services/ocrResponseParser';
 import { useMasterData } from '@/hooks/useMasterData';
+import { useImageSizes } from '@/hooks/useImageSizes';
+import { FieldRegionService } from '@/services/fieldRegionService';
+import { WorkDateService } from '@/services/workDateService';
+import { CorrectionMemoryService } from '@/services/correctionMemoryService';
+import { WorkHistoryService } from '@/services/workHistoryService';
+import { FuzzyMatchService, MatchCandidate } from '@/services/fuzzyMatchService';
+import { getFormTemplate } from '@/templates/formTemplates';
+import SourceCropPreview from '@/components/SourceCropPreview';
+import PreprocessDebugPanel from '@/components/PreprocessDebugPanel';
 import { log } from '@/utils/logger';
+import { getWorkPeriod } from '@/utils/workDate';
+import { isInvalidCount, isInvalidTime, normalizeTime, normalizeWorkHours, parseWorkHours } from '@/utils/workValues';
+import { findSameText, toMatchKey } from '@/utils/textNormalization';
+import {
+  isUncertainCell,
+  isUncertainColumn,
+  getTimeSlotCell,
+  markRecordCellVerified,
+  markTimeSlotCellVerified,
+} from '@/utils/cellMeta';
+import { getAllRecords } from '@/utils/workerRecords';
+
+// 氏名の照合方法の表示
+const MATCH_TYPE_LABELS: Record<NonNullable<WorkerRecord['matchType']>, { label: string; description: string }> = {
+  exact: { label: '完全一致', description: '管理シートの氏名と一致しました' },
+  lastname: { label: '名字一致', description: '名字のみの記入を管理シートの氏名と照合しました' },
+  reading: { label: '読み一致', description: 'かなの記入を管理シートのフリガナと照合しました' },
+  alias: { label: '別名', description: '別名シートに登録された別名と一致しました' },
+  fuzzy: { label: '類似', description: '最も似ている氏名を選択しました' },
+  memory: { label: '学習データ', description: '過去に同じ読み取りを補正した氏名を選択しました' },
+  no_match: { label: '該当なし', description: '管理シートに該当する氏名がありません' },
+};
+
+// この信頼度未満で照合した氏名・商品名は、ドロップダウンの先頭に候補を表示する
+const CONFIDENT_MATCH = 0.9;
 
 const ConfirmationPage: React.FC = () => {
   const navigate = useNavigate();
-  const { ocrResult, setCurrentStep, setSuccess, resetData } = useAppStore();
+  const {
+    ocrResult,
+    capturedImage,
+    preprocessedImages,
+    pendingResults,
+    ocrFailures,
+    setCurrentStep,
+    setSuccess,
+    setForceOcrRefresh,
+    resetData,
+  } = useAppStore();
   const { masterData, loading: masterDataLoading, error: masterDataError, refetch: refetchMasterData } = useMasterData();
+  // 元画像（各項目の切り出し表示用、記録のsourcePageで参照）
+  // セル領域はOCRに使用した前処理済みの画像が基準
+  const pageImages = useMemo(() => {
+    if (preprocessedImages.length > 0) {
+      return preprocessedImages.map(result => result.image);
+    }
+    return Array.isArray(capturedImage) ? capturedImage : capturedImage ? [capturedImage] : [];
+  }, [capturedImage, preprocessedImages]);
+  const pageImageSizes = useImageSizes(pageImages);
   const [editedData, setEditedData] = useState<OcrResult | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -57,7 +121,8 @@ const ConfirmationPage: React.FC = () => {
   // 確認ポップアップ用の状態
   const [confirmPopupOpen, setConfirmPopupOpen] = useState(false);
   const [confirmTarget, setConfirmTarget] = useState<{
-    type: 'product' | 'packaging' | 'machine';
+    type: 'product' | 'name';
+    section?: string;
     index?: number;
     value: string;
   } | null>(null);
@@ -70,80 +135,65 @@ const ConfirmationPage: React.FC = () => {
   
   // 重複チェック用の状態
   const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
-  const [duplicateInfo, setDuplicateInfo] = useState<{
-    packaging: string[];
-    machine: string[];
-  } | null>(null);
+  // 表のキーごとの重複した氏名
+  const [duplicateInfo, setDuplicateInfo] = useState<Record<string, string[]> | null>(null);
   const [duplicateHighlight, setDuplicateHighlight] = useState<Set<string>>(new Set());
   
   // 自動的に開くドロップダウンの管理
   const [autoOpenDropdowns, setAutoOpenDropdowns] = useState<Set<string>>(new Set());
   
-  // 新規追加アニメーション用の状態
-  const [newlyAddedPackaging, setNewlyAddedPackaging] = useState<Set<number>>(new Set());
-  const [newlyAddedMachine, setNewlyAddedMachine] = useState<Set<number>>(new Set());
+  // 新規追加アニメーション用の状態（表のキーと行番号）
+  const [newlyAdded, setNewlyAdded] = useState<Set<string>>(new Set());
 
-  // 重複検出関数
+  // 重複検出関数（全角・半角、異体字、空白の違いは同じ氏名とみなし、重複した表記をすべて返す）
   const findDuplicates = (names: string[]): string[] => {
-    const nameCount = new Map<string, number>();
+    const nameGroups = new Map<string, string[]>();
     
     names.forEach(name => {
-      if (name && name.trim()) { // 空文字は除外
-        const count = nameCount.get(name) || 0;
-        nameCount.set(name, count + 1);
+      const key = toMatchKey(name);
+      if (key) { // 空文字は除外
+        nameGroups.set(key, [...(nameGroups.get(key) || []), name]);
       }
     });
     
-    return Array.from(nameCount.entries())
-      .filter(([_, count]) => count > 1)
-      .map(([name, _]) => name);
+    return Array.from(nameGroups.values())
+      .filter(group => group.length > 1)
+      .flatMap(group => Array.from(new Set(group)));
   };
 
   // 重複チェック関数
   const checkForDuplicates = (data: OcrResult) => {
-    const packagingNames = data.包装作業記録.map(record => record.氏名);
-    const machineNames = data.機械操作記録.map(record => record.氏名);
-    
-    const duplicatePackaging = findDuplicates(packagingNames);
-    const duplicateMachine = findDuplicates(machineNames);
+    const duplicates: Record<string, string[]> = {};
+    Object.entries(data.記録).forEach(([section, records]) => {
+      const names = findDuplicates(records.map(record => record.氏名));
+      if (names.length > 0) {
+        duplicates[section] = names;
+      }
+    });
     
     return {
-      packaging: duplicatePackaging,
-      machine: duplicateMachine,
-      hasDuplicates: duplicatePackaging.length > 0 || duplicateMachine.length > 0
+      duplicates,
+      hasDuplicates: Object.keys(duplicates).length > 0
     };
   };
 
-  // 時間フォーマット関数
-  const formatTimeInput = (input: string): string => {
-    const numbersOnly = input.replace(/[^\d]/g, '');
-    
-    if (numbersOnly.length === 0) return '';
-    
-    if (numbersOnly.length <= 2) {
-      return numbersOnly + ':00';
-    } else if (numbersOnly.length === 3) {
-      return numbersOnly[0] + ':' + numbersOnly.slice(1);
-    } else if (numbersOnly.length === 4) {
-      return numbersOnly.slice(0, 2) + ':' + numbersOnly.slice(2);
-    } else {
-      return numbersOnly.slice(0, 2) + ':' + numbersOnly.slice(2, 4);
-    }
-  };
-
   // 時刻リストの初期化と確認状態の設定
-  const initializeTimeSlots = (record: any): any => {
-    const baseRecord = {
+  const initializeTimeSlots = (record: WorkerRecord): WorkerRecord => {
+    const baseRecord: WorkerRecord = {
       ...record, // すべてのプロパティ（nameError, confidence等）を保持
       時刻リスト: record.時刻リスト || [{ 開始時刻: record.開始時刻, 終了時刻: record.終了時刻 }]
     };
     
-    // 確認状態の初期化（エラーがある場合はpending、ない場合はapproved）
+    // 確認状態の初期化（エラーがある場合・同じ名字の従業員が複数該当する場合はpending、ない場合はapproved）
     if (record.nameError) {
       console.log(`🔴 nameErrorを検出: ${record.氏名} - ${record.nameError}`);
       baseRecord.nameConfirmationStatus = 'pending';
+    } else if (record.ambiguousCandidates) {
+      baseRecord.nameConfirmationStatus = 'pending';
     } else {
       baseRecord.nameConfirmationStatus = 'approved';
+      // 確認不要として表示した氏名（変更せずに保存した場合は補正の学習に使用しない）
+      baseRecord.autoAcceptedName = record.氏名;
     }
     
     return baseRecord;
@@ -158,32 +208,35 @@ const ConfirmationPage: React.FC = () => {
     setCurrentStep(3);
     
     // 開始時刻・終了時刻が両方nullまたは空のレコードを除外し、時刻リストを初期化
-    const filterEmptyRecords = (records: any[]) => 
+    const filterEmptyRecords = (records: WorkerRecord[]) => 
       records.filter(record => record.開始時刻 || record.終了時刻);
     
     // 先に時刻リストを初期化してから空レコードを除外（nameErrorプロパティを保持するため）
+    const productError = ocrResult.ヘッダー.productError;
     const initializedData = {
       ...ocrResult,
       ヘッダー: {
         ...ocrResult.ヘッダー,
-        // 商品名の確認状態を初期化
-        productConfirmationStatus: ((ocrResult.ヘッダー as any).productError ? 'pending' : 'approved') as ConfirmationStatus
+        // 商品名の確認状態を初期化（確認不要として表示した商品名は、変更せずに保存した場合は補正の学習に使用しない）
+        productConfirmationStatus: (productError ? 'pending' : 'approved') as ConfirmationStatus,
+        autoAcceptedProductName: productError ? undefined : ocrResult.ヘッダー.商品名,
       },
-      包装作業記録: filterEmptyRecords((ocrResult.包装作業記録 || []).map(initializeTimeSlots)),
-      機械操作記録: filterEmptyRecords((ocrResult.機械操作記録 || []).map(initializeTimeSlots)),
+      記録: Object.fromEntries(
+        Object.entries(ocrResult.記録 || {}).map(([section, records]) => [
+          section,
+          filterEmptyRecords(records.map(initializeTimeSlots)),
+        ])
+      ),
     };
     
     // デバッグ用：nameErrorの確認
     log.dev('読み取り結果確認画面でのnameError確認');
-    initializedData.包装作業記録?.forEach((record: any, index: number) => {
-      if (record.nameError) {
-        log.dev(`包装作業記録[${index}]: nameError確認`);
-      }
-    });
-    initializedData.機械操作記録?.forEach((record: any, index: number) => {
-      if (record.nameError) {
-        log.dev(`機械操作記録[${index}]: nameError確認`);
-      }
+    Object.entries(initializedData.記録).forEach(([section, records]) => {
+      records.forEach((record, index) => {
+        if (record.nameError) {
+          log.dev(`${section}[${index}]: nameError確認`);
+        }
+      });
     });
     
     setEditedData(initializedData);
@@ -217,9 +270,11 @@ const ConfirmationPage: React.FC = () => {
     let hasChanges = false;
     const updatedData = { ...editedData };
 
-    // ヘッダーの商品名エラーフラグをクリア
-    if (editedData.ヘッダー.商品名 && masterData.products.includes(editedData.ヘッダー.商品名)) {
+    // ヘッダーの商品名エラーフラグをクリア（表記ゆれのみ違う場合は管理シートの表記に揃える）
+    const masterProduct = findSameText(masterData.products, editedData.ヘッダー.商品名 || '');
+    if (masterProduct) {
       if ((updatedData.ヘッダー as any).productError) {
+        updatedData.ヘッダー = { ...updatedData.ヘッダー, 商品名: masterProduct };
         delete (updatedData.ヘッダー as any).productError;
         (updatedData.ヘッダー as any).productConfirmationStatus = 'approved';
         hasChanges = true;
@@ -227,55 +282,130 @@ const ConfirmationPage: React.FC = () => {
       }
     }
 
-    // 包装作業記録の氏名エラーフラグをクリア
-    updatedData.包装作業記録 = editedData.包装作業記録.map((record, index) => {
-      if (record.氏名 && masterData.employees.includes(record.氏名) && (record as any).nameError) {
-        console.log(`🟢 包装作業記録[${index}] 氏名エラーフラグをクリア: ${record.氏名}`);
-        const { nameError, ...cleanRecord } = record as any;
-        hasChanges = true;
-        return {
-          ...cleanRecord,
-          nameConfirmationStatus: 'approved' // マスターデータと一致したのでapprovedに変更
-        };
-      }
-      return record;
-    });
-
-    // 機械操作記録の氏名エラーフラグをクリア
-    updatedData.機械操作記録 = editedData.機械操作記録.map((record, index) => {
-      if (record.氏名 && masterData.employees.includes(record.氏名) && (record as any).nameError) {
-        console.log(`🟢 機械操作記録[${index}] 氏名エラーフラグをクリア: ${record.氏名}`);
-        const { nameError, ...cleanRecord } = record as any;
-        hasChanges = true;
-        return {
-          ...cleanRecord,
-          nameConfirmationStatus: 'approved' // マスターデータと一致したのでapprovedに変更
-        };
-      }
-      return record;
-    });
+    // 各表の氏名エラーフラグをクリア
+    updatedData.記録 = Object.fromEntries(
+      Object.entries(editedData.記録).map(([section, records]) => [
+        section,
+        records.map((record, index) => {
+          const masterName = findSameText(masterData.employees, record.氏名 || '');
+          if (masterName && record.nameError) {
+            console.log(`🟢 ${section}[${index}] 氏名エラーフラグをクリア: ${record.氏名}`);
+            const { nameError, ...cleanRecord } = record;
+            hasChanges = true;
+            return {
+              ...cleanRecord,
+              氏名: masterName,
+              nameConfirmationStatus: 'approved' as ConfirmationStatus // マスターデータと一致したのでapprovedに変更
+            };
+          }
+          return record;
+        }),
+      ])
+    );
 
     if (hasChanges) {
       setEditedData(updatedData);
     }
   }, [editedData, masterData, masterDataLoading]);
 
+  // 同じ名字の候補を並べる作業の履歴（商品名・工場名が変わった場合のみ集計し直す）
+  const headerProduct = editedData?.ヘッダー.商品名;
+  const headerFactory = editedData?.ヘッダー.工場名;
+  const workContextScores = useMemo(
+    () => WorkHistoryService.getContextScores({ 商品名: headerProduct, 工場名: headerFactory }),
+    [headerProduct, headerFactory]
+  );
+
+  // 読み取った氏名ごとの候補（マスターデータ・作業の履歴が変わるまで同じ値の計算を再利用する）
+  const rankNameCandidates = useMemo(() => {
+    const cache = new Map<string, MatchCandidate[]>();
+    return (source: string): MatchCandidate[] => {
+      const cached = cache.get(source);
+      if (cached) return cached;
+      const candidates = FuzzyMatchService.rankMatches(source, masterData.employees, {
+        readings: masterData.employeeReadings,
+        aliases: masterData.employeeAliases,
+        context: workContextScores,
+      });
+      cache.set(source, candidates);
+      return candidates;
+    };
+  }, [masterData, workContextScores]);
+
+  // 照合に確認が必要な商品名の候補（読み取った値に近い順）
+  const productHeader = editedData?.ヘッダー;
+  const productSource = productHeader
+    && (productHeader.productError || (productHeader.productConfidence ?? 1) < CONFIDENT_MATCH)
+    ? productHeader.originalProductName || productHeader.商品名
+    : '';
+  const productCandidates = useMemo(
+    () => (productSource
+      ? FuzzyMatchService.rankProductMatches(productSource, masterData.products, masterData.productAliases)
+      : []),
+    [productSource, masterData]
+  );
+
   if (!editedData || !ocrResult) {
     return null;
   }
 
+  // ヘッダーの読み取り元の画像（統合した場合は先頭の画像）
+  const headerPage = editedData.sourcePages?.[0] ?? 0;
+
+  // 用紙テンプレート（用紙の表・列の定義に従って表示する）
+  const formTemplate = getFormTemplate(editedData.formTemplateId);
+
+  // 作業時間の読み取り状態（判読不能・解釈できない記入は確認を促す）
+  const workHoursStatus = parseWorkHours(editedData.ヘッダー.作業時間).status;
+  const workHoursHelperText = workHoursStatus === 'unreadable'
+    ? '作業時間を読み取れませんでした。用紙を確認して入力してください'
+    : workHoursStatus === 'invalid'
+      ? '「8:00-17:00」のような時刻の範囲か「8時間」のような時間で入力してください'
+      : undefined;
+
+  // 画像間で食い違ったヘッダー項目の解決
+  const resolveHeaderConflict = (field: HeaderConflict['field'], value: string) => {
+    const masterProduct = field === '商品名' ? findSameText(masterData.products, value) : undefined;
+    const updatedHeader = {
+      ...editedData.ヘッダー,
+      [field]: masterProduct ?? value,
+    };
+
+    if (field === '商品名') {
+      if (masterProduct) {
+        delete updatedHeader.productError;
+        updatedHeader.productConfirmationStatus = 'approved';
+      } else {
+        updatedHeader.productConfirmationStatus = 'pending';
+      }
+    }
+
+    setEditedData({
+      ...editedData,
+      ヘッダー: updatedHeader,
+      headerConflicts: (editedData.headerConflicts || []).filter(conflict => conflict.field !== field),
+    });
+    setHasChanges(true);
+  };
+
   // ヘッダー情報の更新
   const updateHeader = (field: string, value: string) => {
+    const masterProduct = field === '商品名' ? findSameText(masterData.products, value) : undefined;
     const updatedHeader = {
       ...editedData.ヘッダー,
-      [field]: value,
+      [field]: masterProduct ?? value,
     };
     
-    // 商品名を更新した場合、productErrorをクリア
-    if (field === '商品名' && masterData.products.includes(value)) {
+    // 商品名を更新した場合、productErrorをクリア（表記ゆれのみ違う場合は管理シートの表記に揃える）
+    if (masterProduct) {
       delete (updatedHeader as any).productError;
     }
     
+    // 作業日を選択した場合は確認済み
+    if (field === '作業日') {
+      updatedHeader.workDateConfirmationStatus = 'approved';
+    }
+    
     setEditedData({
       ...editedData,
       ヘッダー: updatedHeader,
@@ -284,8 +414,8 @@ const ConfirmationPage: React.FC = () => {
   };
 
   // 確認ポップアップを開く
-  const openConfirmPopup = (type: 'product' | 'packaging' | 'machine', value: string, index?: number) => {
-    setConfirmTarget({ type, value, index });
+  const openConfirmPopup = (type: 'product' | 'name', value: string, section?: string, index?: number) => {
+    setConfirmTarget({ type, value, section, index });
     setConfirmPopupOpen(true);
   };
 
@@ -301,10 +431,8 @@ const ConfirmationPage: React.FC = () => {
     
     if (confirmTarget.type === 'product') {
       updateProductConfirmationStatus('approved');
-    } else if (confirmTarget.type === 'packaging' && confirmTarget.index !== undefined) {
-      updatePackagingNameConfirmationStatus(confirmTarget.index, 'approved');
-    } else if (confirmTarget.type === 'machine' && confirmTarget.index !== undefined) {
-      updateMachineNameConfirmationStatus(confirmTarget.index, 'approved');
+    } else if (confirmTarget.section && confirmTarget.index !== undefined) {
+      updateNameConfirmationStatus(confirmTarget.section, confirmTarget.index, 'approved');
     }
     
     closeConfirmPopup();
@@ -318,14 +446,10 @@ const ConfirmationPage: React.FC = () => {
       updateProductConfirmationStatus('editing');
       // ドロップダウンを自動的に開く
       setAutoOpenDropdowns(new Set(['product']));
-    } else if (confirmTarget.type === 'packaging' && confirmTarget.index !== undefined) {
-      updatePackagingNameConfirmationStatus(confirmTarget.index, 'editing');
+    } else if (confirmTarget.section && confirmTarget.index !== undefined) {
+      updateNameConfirmationStatus(confirmTarget.section, confirmTarget.index, 'editing');
       // ドロップダウンを自動的に開く
-      setAutoOpenDropdowns(new Set([`packaging-${confirmTarget.index}`]));
-    } else if (confirmTarget.type === 'machine' && confirmTarget.index !== undefined) {
-      updateMachineNameConfirmationStatus(confirmTarget.index, 'editing');
-      // ドロップダウンを自動的に開く
-      setAutoOpenDropdowns(new Set([`machine-${confirmTarget.index}`]));
+      setAutoOpenDropdowns(new Set([`${confirmTarget.section}-${confirmTarget.index}`]));
     }
     
     closeConfirmPopup();
@@ -345,256 +469,60 @@ const ConfirmationPage: React.FC = () => {
     setHasChanges(true);
   };
 
-  // 包装作業記録の確認状態を更新
-  const updatePackagingNameConfirmationStatus = (index: number, status: ConfirmationStatus) => {
-    const newRecords = [...editedData.包装作業記録];
-    newRecords[index] = {
-      ...newRecords[index],
-      nameConfirmationStatus: status,
-    };
+  // 表の記録を置き換え
+  const setSectionRecords = (section: string, records: WorkerRecord[]) => {
     setEditedData({
       ...editedData,
-      包装作業記録: newRecords,
+      記録: { ...editedData.記録, [section]: records },
     });
     setHasChanges(true);
   };
 
-  // 機械操作記録の確認状態を更新
-  const updateMachineNameConfirmationStatus = (index: number, status: ConfirmationStatus) => {
-    const newRecords = [...editedData.機械操作記録];
+  // 氏名の確認状態を更新
+  const updateNameConfirmationStatus = (section: string, index: number, status: ConfirmationStatus) => {
+    const newRecords = [...editedData.記録[section]];
     newRecords[index] = {
       ...newRecords[index],
       nameConfirmationStatus: status,
     };
-    setEditedData({
-      ...editedData,
-      機械操作記録: newRecords,
-    });
-    setHasChanges(true);
-  };
-
-  // 包装作業記録の更新
-  const updatePackagingRecord = (index: number, field: keyof PackagingRecord, value: any) => {
-    const newRecords = [...editedData.包装作業記録];
-    const updatedRecord = {
-      ...newRecords[index],
-      [field]: value,
-    };
-    
-    // 氏名を更新した場合、nameErrorをクリア
-    if (field === '氏名' && masterData.employees.includes(value)) {
-      delete (updatedRecord as any).nameError;
-    }
-    
-    newRecords[index] = updatedRecord;
-    setEditedData({
-      ...editedData,
-      包装作業記録: newRecords,
-    });
-    setHasChanges(true);
-
-    // 氏名が変更された場合、重複ハイライトをクリア
-    if (field === '氏名') {
-      const newHighlight = new Set(duplicateHighlight);
-      newHighlight.delete(`packaging-${value}`);
-      setDuplicateHighlight(newHighlight);
-    }
-  };
-
-  // 包装作業記録の削除
-  const deletePackagingRecord = (index: number) => {
-    const newRecords = editedData.包装作業記録.filter((_, i) => i !== index);
-    setEditedData({
-      ...editedData,
-      包装作業記録: newRecords,
-    });
-    setHasChanges(true);
+    setSectionRecords(section, newRecords);
   };
 
-  // 包装作業記録の時刻スロット追加
-  const addPackagingTimeSlot = (index: number) => {
-    const newRecords = [...editedData.包装作業記録];
+  // 数量・文字の列の更新（修正した値は確認済みにする）
+  const updateValue = (section: string, index: number, key: string, value: string) => {
+    const newRecords = [...editedData.記録[section]];
     const record = newRecords[index];
-    if (!record.時刻リスト) {
-      record.時刻リスト = [{ 開始時刻: record.開始時刻, 終了時刻: record.終了時刻 }];
-    }
-    record.時刻リスト.push({ 開始時刻: '8:00', 終了時刻: '17:00' });
-    setEditedData({
-      ...editedData,
-      包装作業記録: newRecords,
-    });
-    setHasChanges(true);
-  };
-
-  // 包装作業記録の時刻スロット削除
-  const deletePackagingTimeSlot = (recordIndex: number, timeSlotIndex: number) => {
-    const newRecords = [...editedData.包装作業記録];
-    const record = newRecords[recordIndex];
-    if (record.時刻リスト && record.時刻リスト.length > 1) {
-      record.時刻リスト.splice(timeSlotIndex, 1);
-      // 最初のスロットを基本時刻に反映
-      record.開始時刻 = record.時刻リスト[0].開始時刻;
-      record.終了時刻 = record.時刻リスト[0].終了時刻;
-    }
-    setEditedData({
-      ...editedData,
-      包装作業記録: newRecords,
-    });
-    setHasChanges(true);
-  };
-
-  // 包装作業記録の時刻スロット更新
-  const updatePackagingTimeSlot = (recordIndex: number, timeSlotIndex: number, field: '開始時刻' | '終了時刻', value: string) => {
-    const newRecords = [...editedData.包装作業記録];
-    const record = newRecords[recordIndex];
-    if (record.時刻リスト) {
-      record.時刻リスト[timeSlotIndex][field] = value;
-      // 最初のスロットを基本時刻に反映
-      if (timeSlotIndex === 0) {
-        record[field] = value;
-      }
-    }
-    setEditedData({
-      ...editedData,
-      包装作業記録: newRecords,
-    });
-    setHasChanges(true);
-  };
-
-  // 包装作業記録の追加
-  const addPackagingRecord = () => {
-    let newRecord: PackagingRecord;
-    
-    // 既存の包装作業記録がある場合は、最初のレコードをベースにコピー
-    if (editedData.包装作業記録.length > 0) {
-      const firstRecord = editedData.包装作業記録[0];
-      newRecord = {
-        ...firstRecord, // 全ての情報をコピー
-        氏名: '', // 氏名のみ空白に設定
-        nameConfirmationStatus: 'pending' as ConfirmationStatus // 確認状態をpendingに設定
-      };
-    } else {
-      // 包装作業記録が空の場合はデフォルト値を使用
-      newRecord = {
-        氏名: '',
-        開始時刻: '8:00',
-        終了時刻: '17:00',
-        時刻リスト: [{ 開始時刻: '8:00', 終了時刻: '17:00' }],
-        休憩: { 昼休み: true, 中休み: false },
-        生産数: '0',
-        nameConfirmationStatus: 'pending' as ConfirmationStatus
-      };
-    }
-    
-    setEditedData({
-      ...editedData,
-      包装作業記録: [newRecord, ...editedData.包装作業記録],
-    });
-    setHasChanges(true);
-    
-    // 新規追加のアニメーション用
-    setNewlyAddedPackaging(new Set([0]));
-    setTimeout(() => {
-      setNewlyAddedPackaging(new Set());
-    }, 1000);
-  };
-
-  // 包装作業記録の指定位置への追加
-  const addPackagingRecordAtPosition = (position: number) => {
-    let newRecord: PackagingRecord;
-    
-    // 既存の包装作業記録がある場合は、最初のレコードをベースにコピー
-    if (editedData.包装作業記録.length > 0) {
-      const firstRecord = editedData.包装作業記録[0];
-      newRecord = {
-        ...firstRecord, // 全ての情報をコピー
-        氏名: '', // 氏名のみ空白に設定
-        nameConfirmationStatus: 'pending' as ConfirmationStatus // 確認状態をpendingに設定
-      };
-    } else {
-      // 包装作業記録が空の場合はデフォルト値を使用
-      newRecord = {
-        氏名: '',
-        開始時刻: '8:00',
-        終了時刻: '17:00',
-        時刻リスト: [{ 開始時刻: '8:00', 終了時刻: '17:00' }],
-        休憩: { 昼休み: true, 中休み: false },
-        生産数: '0',
-        nameConfirmationStatus: 'pending' as ConfirmationStatus
-      };
-    }
-    
-    const newRecords = [...editedData.包装作業記録];
-    newRecords.splice(position, 0, newRecord);
-    setEditedData({
-      ...editedData,
-      包装作業記録: newRecords,
-    });
-    setHasChanges(true);
-    
-    // 新規追加のアニメーション用
-    setNewlyAddedPackaging(new Set([position]));
-    setTimeout(() => {
-      setNewlyAddedPackaging(new Set());
-    }, 1000);
+    newRecords[index] = markRecordCellVerified({ ...record, 値: { ...record.値, [key]: value } }, key);
+    setSectionRecords(section, newRecords);
   };
 
-  // 機械操作記録の更新
-  const updateMachineRecord = (index: number, field: keyof MachineOperationRecord, value: any) => {
-    const newRecords = [...editedData.機械操作記録];
-    const updatedRecord = {
-      ...newRecords[index],
-      [field]: value,
-    };
-    
-    // 氏名を更新した場合、nameErrorをクリア
-    if (field === '氏名' && masterData.employees.includes(value)) {
-      delete (updatedRecord as any).nameError;
-    }
-    
-    newRecords[index] = updatedRecord;
-    setEditedData({
-      ...editedData,
-      機械操作記録: newRecords,
-    });
-    setHasChanges(true);
-
-    // 氏名が変更された場合、重複ハイライトをクリア
-    if (field === '氏名') {
-      const newHighlight = new Set(duplicateHighlight);
-      newHighlight.delete(`machine-${value}`);
-      setDuplicateHighlight(newHighlight);
-    }
+  // チェックボックスの更新（修正したチェックボックスは確認済みにする）
+  const updateCheck = (section: string, index: number, key: string, checked: boolean) => {
+    const newRecords = [...editedData.記録[section]];
+    const record = newRecords[index];
+    newRecords[index] = markRecordCellVerified({ ...record, チェック: { ...record.チェック, [key]: checked } }, key);
+    setSectionRecords(section, newRecords);
   };
 
-  // 機械操作記録の削除
-  const deleteMachineRecord = (index: number) => {
-    const newRecords = editedData.機械操作記録.filter((_, i) => i !== index);
-    setEditedData({
-      ...editedData,
-      機械操作記録: newRecords,
-    });
-    setHasChanges(true);
+  // 記録の削除
+  const deleteRecord = (section: string, index: number) => {
+    setSectionRecords(section, editedData.記録[section].filter((_, i) => i !== index));
   };
 
-  // 機械操作記録の時刻スロット追加
-  const addMachineTimeSlot = (index: number) => {
-    const newRecords = [...editedData.機械操作記録];
+  // 時刻スロット追加
+  const addTimeSlot = (section: string, index: number) => {
+    const newRecords = [...editedData.記録[section]];
     const record = newRecords[index];
     if (!record.時刻リスト) {
       record.時刻リスト = [{ 開始時刻: record.開始時刻, 終了時刻: record.終了時刻 }];
     }
     record.時刻リスト.push({ 開始時刻: '8:00', 終了時刻: '17:00' });
-    setEditedData({
-      ...editedData,
-      機械操作記録: newRecords,
-    });
-    setHasChanges(true);
+    setSectionRecords(section, newRecords);
   };
 
-  // 機械操作記録の時刻スロット削除
-  const deleteMachineTimeSlot = (recordIndex: number, timeSlotIndex: number) => {
-    const newRecords = [...editedData.機械操作記録];
+  // 時刻スロット削除
+  const deleteTimeSlot = (section: string, recordIndex: number, timeSlotIndex: number) => {
+    const newRecords = [...editedData.記録[section]];
     const record = newRecords[recordIndex];
     if (record.時刻リスト && record.時刻リスト.length > 1) {
       record.時刻リスト.splice(timeSlotIndex, 1);
@@ -602,16 +530,18 @@ const ConfirmationPage: React.FC = () => {
       record.開始時刻 = record.時刻リスト[0].開始時刻;
       record.終了時刻 = record.時刻リスト[0].終了時刻;
     }
-    setEditedData({
-      ...editedData,
-      機械操作記録: newRecords,
-    });
-    setHasChanges(true);
+    setSectionRecords(section, newRecords);
   };
 
-  // 機械操作記録の時刻スロット更新
-  const updateMachineTimeSlot = (recordIndex: number, timeSlotIndex: number, field: '開始時刻' | '終了時刻', value: string) => {
-    const newRecords = [...editedData.機械操作記録];
+  // 時刻スロット更新
+  const updateTimeSlot = (
+    section: string,
+    recordIndex: number,
+    timeSlotIndex: number,
+    field: '開始時刻' | '終了時刻',
+    value: string
+  ) => {
+    const newRecords = [...editedData.記録[section]];
     const record = newRecords[recordIndex];
     if (record.時刻リスト) {
       record.時刻リスト[timeSlotIndex][field] = value;
@@ -619,133 +549,98 @@ const ConfirmationPage: React.FC = () => {
       if (timeSlotIndex === 0) {
         record[field] = value;
       }
+      // 修正した時刻を確認済みにする
+      newRecords[recordIndex] = markTimeSlotCellVerified(record, timeSlotIndex, field);
     }
-    setEditedData({
-      ...editedData,
-      機械操作記録: newRecords,
-    });
-    setHasChanges(true);
-  };
-
-  // 機械操作記録の追加
-  const addMachineRecord = () => {
-    let newRecord: MachineOperationRecord;
-    
-    // 既存の機械操作記録がある場合は、最初のレコードをベースにコピー
-    if (editedData.機械操作記録.length > 0) {
-      const firstRecord = editedData.機械操作記録[0];
-      newRecord = {
-        ...firstRecord, // 全ての情報をコピー
-        氏名: '', // 氏名のみ空白に設定
-        nameConfirmationStatus: 'pending' as ConfirmationStatus // 確認状態をpendingに設定
-      };
-    } else {
-      // 機械操作記録が空の場合はデフォルト値を使用
-      newRecord = {
-        氏名: '',
-        開始時刻: '8:00',
-        終了時刻: '17:00',
-        時刻リスト: [{ 開始時刻: '8:00', 終了時刻: '17:00' }],
-        休憩: { 昼休み: false, 中休み: false },
-        生産数: '0',
-        nameConfirmationStatus: 'pending' as ConfirmationStatus
-      };
-    }
-    
-    setEditedData({
-      ...editedData,
-      機械操作記録: [newRecord, ...editedData.機械操作記録],
-    });
-    setHasChanges(true);
-    
-    // 新規追加のアニメーション用
-    setNewlyAddedMachine(new Set([0]));
-    setTimeout(() => {
-      setNewlyAddedMachine(new Set());
-    }, 1000);
+    setSectionRecords(section, newRecords);
   };
 
-  // 機械操作記録の指定位置への追加
-  const addMachineRecordAtPosition = (position: number) => {
-    let newRecord: MachineOperationRecord;
+  // 指定位置への記録の追加
+  const addRecordAtPosition = (section: FormSectionTemplate, position: number) => {
+    const records = editedData.記録[section.key] || [];
+    let newRecord: WorkerRecord;
     
-    // 既存の機械操作記録がある場合は、最初のレコードをベースにコピー
-    if (editedData.機械操作記録.length > 0) {
-      const firstRecord = editedData.機械操作記録[0];
+    // 既存の記録がある場合は、最初のレコードをベースにコピー
+    if (records.length > 0) {
       newRecord = {
-        ...firstRecord, // 全ての情報をコピー
+        ...records[0], // 全ての情報をコピー
         氏名: '', // 氏名のみ空白に設定
         nameConfirmationStatus: 'pending' as ConfirmationStatus // 確認状態をpendingに設定
       };
     } else {
-      // 機械操作記録が空の場合はデフォルト値を使用
+      // 記録が空の場合はデフォルト値を使用（チェックなし、数量は0）
+      const checks: WorkerRecord['チェック'] = {};
+      const values: WorkerRecord['値'] = {};
+      section.columns.forEach(column => {
+        if (column.kind === 'checkboxes') {
+          column.checkboxes.forEach(checkbox => { checks[checkbox.key] = false; });
+        } else if (column.kind === 'count' || column.kind === 'text') {
+          values[column.key] = column.kind === 'count' ? '0' : '';
+        }
+      });
       newRecord = {
         氏名: '',
         開始時刻: '8:00',
         終了時刻: '17:00',
         時刻リスト: [{ 開始時刻: '8:00', 終了時刻: '17:00' }],
-        休憩: { 昼休み: false, 中休み: false },
-        生産数: '0',
+        チェック: checks,
+        値: values,
         nameConfirmationStatus: 'pending' as ConfirmationStatus
       };
     }
     
-    const newRecords = [...editedData.機械操作記録];
+    const newRecords = [...records];
     newRecords.splice(position, 0, newRecord);
-    setEditedData({
-      ...editedData,
-      機械操作記録: newRecords,
-    });
-    setHasChanges(true);
+    setSectionRecords(section.key, newRecords);
     
     // 新規追加のアニメーション用
-    setNewlyAddedMachine(new Set([position]));
+    setNewlyAdded(new Set([`${section.key}-${position}`]));
     setTimeout(() => {
-      setNewlyAddedMachine(new Set());
+      setNewlyAdded(new Set());
     }, 1000);
   };
 
-  // 休憩情報の更新
-  const updateBreak = (
-    recordType: 'packaging' | 'machine',
-    index: number,
-    breakType: '昼休み' | '中休み',
-    value: boolean
-  ) => {
-    if (recordType === 'packaging') {
-      updatePackagingRecord(index, '休憩', {
-        ...editedData.包装作業記録[index].休憩,
-        [breakType]: value,
-      });
-    } else {
-      updateMachineRecord(index, '休憩', {
-        ...editedData.機械操作記録[index].休憩,
-        [breakType]: value,
-      });
-    }
-  };
-
   // 保存処理
   const handleSave = async () => {
     if (!editedData) return;
 
     // 確認状態ベースのバリデーションチェック
     const hasPendingProduct = editedData.ヘッダー.productConfirmationStatus === 'pending';
-    const hasPendingNames = [
-      ...editedData.包装作業記録.map(r => r.nameConfirmationStatus === 'pending'),
-      ...editedData.機械操作記録.map(r => r.nameConfirmationStatus === 'pending')
-    ].some(isPending => isPending);
+    const hasPendingNames = getAllRecords(editedData).some(r => r.nameConfirmationStatus === 'pending');
+
+    if (editedData.headerConflicts && editedData.headerConflicts.length > 0) {
+      alert('画像によって内容が異なる項目があります。画面上部で正しい値を選択してください。');
+      return;
+    }
+
+    if (editedData.ヘッダー.workDateConfirmationStatus === 'pending') {
+      alert('作業日を確認してください。画面上部の作業日の「✓ この日付でOK」ボタンを押すか、正しい日付を選択してください。');
+      return;
+    }
 
     if (hasPendingProduct || hasPendingNames) {
       alert('未確認の項目があります。赤色で表示されている項目の「✓ OK」または「✏️ 修正」ボタンを押して確認してください。');
       return;
     }
 
+    // 時刻・数量として解釈できない記入がある場合のチェック（数量の列は用紙テンプレートの定義）
+    const hasInvalidValues = formTemplate.sections.some(section => {
+      const countKeys = section.columns.filter(column => column.kind === 'count').map(column => column.key);
+      return (editedData.記録[section.key] || []).some(record =>
+        (record.時刻リスト || [record]).some(slot => isInvalidTime(slot.開始時刻) || isInvalidTime(slot.終了時刻))
+        || countKeys.some(key => isInvalidCount(record.値[key]))
+      );
+    });
+
+    if (hasInvalidValues) {
+      alert('時刻または数量を読み取れない項目があります。赤色で表示されている欄を「8:30」のような時刻や数字に修正してください。');
+      return;
+    }
+
     // 編集中の項目がある場合のチェック
     const hasEditingItems = [
       editedData.ヘッダー.productConfirmationStatus === 'editing',
-      ...editedData.包装作業記録.map(r => r.nameConfirmationStatus === 'editing'),
-      ...editedData.機械操作記録.map(r => r.nameConfirmationStatus === 'editing')
+      ...getAllRecords(editedData).map(r => r.nameConfirmationStatus === 'editing')
     ].some(isEditing => isEditing);
 
     if (hasEditingItems) {
@@ -756,10 +651,7 @@ const ConfirmationPage: React.FC = () => {
     // 重複チェック
     const duplicateCheck = checkForDuplicates(editedData);
     if (duplicateCheck.hasDuplicates) {
-      setDuplicateInfo({
-        packaging: duplicateCheck.packaging,
-        machine: duplicateCheck.machine
-      });
+      setDuplicateInfo(duplicateCheck.duplicates);
       setDuplicateDialogOpen(true);
       return; // 重複があれば処理を中断
     }
@@ -771,42 +663,31 @@ const ConfirmationPage: React.FC = () => {
       try {
         // Google Sheetsに保存
         const result = await GoogleSheetsService.saveToPersonalSheets(editedData);
+
+        // 保存できた記録の読み取り結果と確定した値を、次回以降の補正に使用する
+        const savedWorkers = getAllRecords(editedData)
+          .map(record => record.氏名)
+          .filter(name => !result?.failedWorkers?.includes(name));
+        CorrectionMemoryService.learnFromResult(editedData, savedWorkers);
+        WorkHistoryService.recordFromResult(editedData, savedWorkers);
         
         // 失敗した作業者がいる場合
         if (result && result.failedWorkers && result.failedWorkers.length > 0) {
           setFailedWorkers(result.failedWorkers);
           
           // 失敗した作業者のみを残してデータを更新
-          const failedPackaging = editedData.包装作業記録.filter(record => 
-            result.failedWorkers!.includes(record.氏名)
-          );
-          const failedMachine = editedData.機械操作記録.filter(record => 
-            result.failedWorkers!.includes(record.氏名)
-          );
-          
           setEditedData({
             ...editedData,
-            包装作業記録: failedPackaging,
-            機械操作記録: failedMachine,
+            記録: Object.fromEntries(
+              Object.entries(editedData.記録).map(([section, records]) => [
+                section,
+                records.filter(record => result.failedWorkers!.includes(record.氏名)),
+              ])
+            ),
           });
           
-          // 作業日から年月を計算
-          const workDate = new Date(editedData.ヘッダー.作業日!);
-          const year = workDate.getFullYear();
-          const month = workDate.getMonth() + 1;
-          const day = workDate.getDate();
-          
-          // 21日サイクルで年月を計算（GoogleSheetsServiceと同じロジック）
-          let periodYear = year;
-          let periodMonth = month;
-          if (day <= 20) {
-            if (month === 1) {
-              periodYear = year - 1;
-              periodMonth = 12;
-            } else {
-              periodMonth = month - 1;
-            }
-          }
+          // 作業日から年月を計算（21日サイクル）
+          const { year: periodYear, month: periodMonth } = getWorkPeriod(new Date(editedData.ヘッダー.作業日!));
           
           setMissingSheetMessage(`以下の作業者の個人シート（${periodYear}年${periodMonth.toString().padStart(2, '0')}月度）が見つかりませんでした。\nスプレッドシートで個人シートを作成してください。\n\n作業者: ${result.failedWorkers.join(', ')}`);
           setMissingSheetDialogOpen(true);
@@ -882,15 +763,16 @@ const ConfirmationPage: React.FC = () => {
     
     // 重複している氏名をハイライト用のSetに追加
     const highlightSet = new Set<string>();
-    duplicateInfo.packaging.forEach(name => highlightSet.add(`packaging-${name}`));
-    duplicateInfo.machine.forEach(name => highlightSet.add(`machine-${name}`));
+    Object.entries(duplicateInfo).forEach(([section, names]) => {
+      names.forEach(name => highlightSet.add(`${section}-${name}`));
+    });
     
     setDuplicateHighlight(highlightSet);
     setDuplicateDialogOpen(false);
     setDuplicateInfo(null);
     
     // 重複箇所まで自動スクロール（最初の重複箇所）
-    const allDuplicates = [...duplicateInfo.packaging, ...duplicateInfo.machine];
+    const allDuplicates = Object.values(duplicateInfo).flat();
     if (allDuplicates.length > 0) {
       setTimeout(() => {
         const firstDuplicateElement = document.querySelector('[data-duplicate="true"]');
@@ -911,6 +793,15 @@ const ConfirmationPage: React.FC = () => {
     navigate('/camera');
   };
 
+  // キャッシュを使わずに同じ画像を読み取り直す
+  const handleRereadWithoutCache = () => {
+    if (hasChanges && !window.confirm('変更内容は破棄されます。もう一度読み取りますか？')) {
+      return;
+    }
+    setForceOcrRefresh(true);
+    navigate('/processing');
+  };
+
   // 補正情報の取得
   const getCorrectionInfo = (record: any, field: string) => {
     if (field === '氏名' && record.originalName) {
@@ -928,250 +819,212 @@ const ConfirmationPage: React.FC = () => {
     return null;
   };
 
+  // 元画像の切り出し表示
+  const renderCropPreview = (region: CellRegion | null, label: string, page: number) => (
+    <SourceCropPreview
+      imageSrc={pageImages[page] ?? null}
+      imageSize={pageImageSizes[page] ?? null}
+      region={region}
+      label={label}
+    />
+  );
+
+  const renderRecordCrop = (record: WorkerRecord, section: FormSectionTemplate, key: string) => {
+    const page = FieldRegionService.getRecordPage(record);
+    return renderCropPreview(
+      FieldRegionService.getRecordRegion(record, section, key, pageImageSizes[page] ?? null, formTemplate.layout),
+      `${record.氏名 || '作業者'}の${key}`,
+      page
+    );
+  };
 
+  const renderTimeSlotCrop = (
+    record: WorkerRecord,
+    section: FormSectionTemplate,
+    slotIndex: number,
+    field: TimeSlotCellKey
+  ) => {
+    const page = FieldRegionService.getTimeSlotPage(record, slotIndex);
+    return renderCropPreview(
+      FieldRegionService.getTimeSlotRegion(
+        record,
+        section,
+        slotIndex,
+        field,
+        pageImageSizes[page] ?? null,
+        formTemplate.layout
+      ),
+      `${record.氏名 || '作業者'}の${field}`,
+      page
+    );
+  };
 
-  return (
-    <Box>
-      <Typography variant="h4" gutterBottom sx={{ mb: 3, fontWeight: 600, textAlign: 'center' }}>
-        📋 読み取り結果確認
-      </Typography>
+  // チェックボックスの列（用紙の表記で表示）
+  const renderCheckboxChips = (
+    record: WorkerRecord,
+    section: FormSectionTemplate,
+    checkboxes: FormCheckboxTemplate[],
+    index: number
+  ) => (
+    <Stack direction="column" spacing={1} alignItems="flex-start">
+      {checkboxes.map((checkbox, checkboxIndex) => (
+        <Box key={checkbox.key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Chip
+            label={checkbox.label}
+            size="small"
+            color={record.チェック[checkbox.key] ? (checkboxIndex === 0 ? 'primary' : 'secondary') : 'default'}
+            onClick={() => updateCheck(section.key, index, checkbox.key, !record.チェック[checkbox.key])}
+            sx={{ 
+              cursor: 'pointer',
+              fontWeight: record.チェック[checkbox.key] ? 600 : 400,
+              border: isUncertainCell(record.cells?.[checkbox.key]) ? '2px solid' : undefined,
+              borderColor: 'error.main',
+              fontSize: '13px',
+              height: '32px',
+              minWidth: '80px',
+              borderRadius: '16px',
+            }}
+          />
+          {renderRecordCrop(record, section, checkbox.key)}
+        </Box>
+      ))}
+    </Stack>
+  );
+
+  // 読み取り信頼度が低い項目の表示
+  const renderUncertainChip = (show?: boolean) =>
+    show ? (
+      <Chip label="要確認" size="small" color="error" sx={{ height: '20px', fontSize: '11px', ml: 1 }} />
+    ) : null;
+
+  // 再読み取りした行の表示（各項目の候補と票数をツールチップで表示）
+  const renderRereadChip = (record: WorkerRecord) => {
+    if (!record.reread) return null;
+    const allResolved = record.reread.fields.every(field => field.resolved);
+    return (
+      <Tooltip
+        title={
+          <Box>
+            {record.reread.fields.map(field => (
+              <Typography key={field.field} variant="caption" component="div">
+                {field.field}: {field.candidates.length > 0
+                  ? field.candidates.map(candidate => `${candidate.value}（${candidate.votes}票）`).join(' / ')
+                  : '読み取れず'}
+                {field.resolved ? ' ✓' : ''}
+              </Typography>
+            ))}
+          </Box>
+        }
+      >
+        <Chip
+          label="再読取"
+          size="small"
+          variant="outlined"
+          color={allResolved ? 'success' : 'warning'}
+          sx={{ height: '24px', fontSize: '13px' }}
+        />
+      </Tooltip>
+    );
+  };
 
-      {hasChanges && (
-        <Alert severity="info" sx={{ mb: 2 }}>
-          変更があります。保存ボタンを押すと反映されます。
-        </Alert>
-      )}
+  // 照合に確認が必要な氏名の候補（読み取った値に近い順）
+  const getNameCandidates = (record: WorkerRecord): MatchCandidate[] => {
+    const isFlagged = record.nameError || (record.confidence ?? 1) < CONFIDENT_MATCH;
+    const source = record.originalName || record.氏名;
+    return isFlagged && source ? rankNameCandidates(source) : [];
+  };
 
-      {/* ヘッダー情報 */}
-      <Card sx={{ mb: 3 }}>
-        <CardContent sx={{ p: 3 }}>
-          <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', mb: 3 }}>
-            <Edit sx={{ mr: 1 }} />
-            基本情報
-          </Typography>
-          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-            {/* 作業日 */}
-            <LocalizationProvider dateAdapter={AdapterDayjs} adapterLocale="ja">
-              <DatePicker
-                label="作業日"
-                value={editedData.ヘッダー.作業日 ? dayjs(editedData.ヘッダー.作業日) : null}
-                onChange={(newValue: Dayjs | null) => {
-                  if (newValue) {
-                    updateHeader('作業日', newValue.format('YYYY/MM/DD'));
-                  }
-                }}
-                format="YYYY/MM/DD"
-                slotProps={{
-                  textField: {
-                    fullWidth: true,
-                    variant: "outlined",
-                    sx: {
-                      '& .MuiInputBase-root': {
-                        height: '56px',
-                        fontSize: '24px',
-                        cursor: 'pointer',
-                      },
-                      '& .MuiInputBase-input': {
-                        cursor: 'pointer',
-                      }
-                    },
-                    onClick: (e: any) => {
-                      // テキストフィールドのどこをクリックしてもカレンダーを開く
-                      const input = e.currentTarget.querySelector('input');
-                      if (input) {
-                        input.focus();
-                        input.click();
-                      }
-                    }
-                  },
-                  field: {
-                    clearable: false,
-                    onMouseDown: (e: any) => {
-                      e.preventDefault();
-                    }
-                  }
-                }}
-              />
-            </LocalizationProvider>
-            <Box>
-              {editedData.ヘッダー.productConfirmationStatus === 'editing' ? (
-                // 編集状態：ドロップダウンを表示
-                <Box>
-                  <Autocomplete
-                    open={autoOpenDropdowns.has('product')}
-                    onOpen={() => {
-                      if (!autoOpenDropdowns.has('product')) {
-                        setAutoOpenDropdowns(new Set([...autoOpenDropdowns, 'product']));
-                      }
-                    }}
-                    onClose={() => {
-                      setAutoOpenDropdowns(prev => {
-                        const newSet = new Set(prev);
-                        newSet.delete('product');
-                        return newSet;
-                      });
-                    }}
-                    options={masterData.products}
-                    value={editedData.ヘッダー.商品名}
-                    onChange={(_, newValue) => {
-                      // 一度に全ての状態を更新（競合回避）
-                      const updatedHeader = {
-                        ...editedData.ヘッダー,
-                        商品名: newValue || '',
-                      };
-                      
-                      // productErrorクリアと確認状態の設定
-                      if (newValue && masterData.products.includes(newValue)) {
-                        delete (updatedHeader as any).productError;
-                        updatedHeader.productConfirmationStatus = 'approved';
-                      } else {
-                        updatedHeader.productConfirmationStatus = 'editing';
-                      }
-                      
-                      setEditedData({
-                        ...editedData,
-                        ヘッダー: updatedHeader,
-                      });
-                      setHasChanges(true);
-                    }}
-                    renderInput={(params) => (
-                      <TextField
-                        {...params}
-                        label="商品名"
-                        variant="outlined"
-                        helperText="正しい商品名を選択してください"
-                        sx={{
-                          '& .MuiInputBase-root': {
-                            fontSize: '24px',
-                          }
-                        }}
-                      />
-                    )}
-                    freeSolo
-                    fullWidth
-                    disabled={masterDataLoading}
-                  />
-                  <Box sx={{ mt: 1, display: 'flex', gap: 1 }}>
-                    <Button
-                      variant="contained"
-                      color="success"
-                      size="small"
-                      onClick={() => updateProductConfirmationStatus('approved')}
-                      disabled={!editedData.ヘッダー.商品名 || !masterData.products.includes(editedData.ヘッダー.商品名)}
-                    >
-                      確定
-                    </Button>
-                    <Button
-                      variant="outlined"
-                      size="small"
-                      onClick={() => updateProductConfirmationStatus('pending')}
-                    >
-                      キャンセル
-                    </Button>
-                  </Box>
-                </Box>
-              ) : (
-                // 通常表示：商品名とステータスボタン
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-                  <TextField
-                    label="商品名"
-                    value={editedData.ヘッダー.商品名}
-                    variant="outlined"
-                    fullWidth
-                    disabled
-                    sx={{
-                      '& .MuiInputBase-root': {
-                        fontSize: '24px',
-                      },
-                      '& .MuiOutlinedInput-root': {
-                        '&.Mui-disabled': {
-                          '& fieldset': {
-                            borderColor: editedData.ヘッダー.productConfirmationStatus === 'pending' ? 'error.main' : 'rgba(0, 0, 0, 0.23)',
-                            borderWidth: editedData.ヘッダー.productConfirmationStatus === 'pending' ? '2px' : '1px',
-                          }
-                        }
-                      }
-                    }}
-                  />
-                  {editedData.ヘッダー.productConfirmationStatus === 'pending' ? (
-                    <Button
-                      variant="contained"
-                      color="warning"
-                      size="small"
-                      onClick={() => openConfirmPopup('product', editedData.ヘッダー.商品名)}
-                      sx={{ minWidth: '80px', whiteSpace: 'nowrap', fontSize: '20px' }}
-                    >
-                      修正
-                    </Button>
-                  ) : (
-                    <Button
-                      variant="contained"
-                      color="success"
-                      size="small"
-                      onClick={() => {
-                        updateProductConfirmationStatus('editing');
-                        setAutoOpenDropdowns(new Set(['product']));
-                      }}
-                      sx={{ minWidth: '60px', whiteSpace: 'nowrap', fontSize: '20px' }}
-                    >
-                      変更
-                    </Button>
-                  )}
-                </Box>
-              )}
-              {getCorrectionInfo(editedData.ヘッダー, '商品名') && (
-                <Box sx={{ mt: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
-                  <Typography variant="caption" color="primary">
-                    元: {getCorrectionInfo(editedData.ヘッダー, '商品名')?.original}
-                  </Typography>
-                  <Chip
-                    label={`${Math.round((getCorrectionInfo(editedData.ヘッダー, '商品名')?.confidence || 0) * 100)}%`}
-                    size="small"
-                    color={(!editedData.ヘッダー.商品名 || (editedData.ヘッダー as any).productError || !masterData.products.includes(editedData.ヘッダー.商品名)) ? 'error' : 
-                           (getCorrectionInfo(editedData.ヘッダー, '商品名')?.confidence || 0) >= 0.9 ? 'success' : 'warning'}
-                    sx={{ height: '24px', fontSize: '13px' }}
-                  />
-                </Box>
+  // ドロップダウンの選択肢（候補がある場合は類似度・照合方法とともに先頭にまとめて表示）
+  const getCandidateOptionProps = (candidates: MatchCandidate[], all: string[], allLabel: string) => {
+    const candidateByValue = new Map(candidates.map(candidate => [candidate.match, candidate]));
+    return {
+      options: [...candidates.map(candidate => candidate.match), ...all.filter(option => !candidateByValue.has(option))],
+      groupBy: candidates.length > 0
+        ? (option: string) => (candidateByValue.has(option) ? '読み取りに近い候補' : allLabel)
+        : undefined,
+      renderOption: (props: React.HTMLAttributes<HTMLLIElement>, option: string) => {
+        const candidate = candidateByValue.get(option);
+        return (
+          <li {...props} key={option}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+              <Box component="span" sx={{ flexGrow: 1 }}>{option}</Box>
+              {candidate && (
+                <Chip
+                  label={candidate.ambiguous
+                    ? '同じ名字'
+                    : `${MATCH_TYPE_LABELS[candidate.type].label} ${Math.round(candidate.confidence * 100)}%`}
+                  size="small"
+                  variant="outlined"
+                  color={candidate.confidence >= CONFIDENT_MATCH ? 'success' : 'default'}
+                  sx={{ height: '22px', fontSize: '12px' }}
+                />
               )}
             </Box>
-          </Box>
-        </CardContent>
-      </Card>
+          </li>
+        );
+      },
+    };
+  };
 
-      {/* 失敗した作業者がいる場合の警告メッセージ */}
-      {failedWorkers.length > 0 && (
-        <Alert severity="error" sx={{ mb: 3 }}>
-          <Typography variant="body1" sx={{ fontWeight: 600, mb: 1 }}>
-            以下の作業者のシートが見つかりませんでした：
-          </Typography>
-          <Typography variant="body2">
-            {failedWorkers.join('、')}
-          </Typography>
-          <Typography variant="body2" sx={{ mt: 1 }}>
-            正しい名前に修正して、再度保存してください。
-          </Typography>
-        </Alert>
-      )}
+  // 氏名の照合方法（同じ名字の従業員が複数該当する場合はその候補）
+  const renderMatchTypeChip = (record: WorkerRecord) => {
+    if (record.ambiguousCandidates) {
+      return (
+        <Tooltip title={`同じ名字の従業員が複数います（${record.ambiguousCandidates.join('、')}）。担当した人を確認してください`}>
+          <Chip
+            label={`同じ名字 ${record.ambiguousCandidates.length}人`}
+            size="small"
+            variant="outlined"
+            color="warning"
+            sx={{ height: '24px', fontSize: '13px' }}
+          />
+        </Tooltip>
+      );
+    }
+    if (!record.matchType) return null;
+    const { label, description } = MATCH_TYPE_LABELS[record.matchType];
+    return (
+      <Tooltip title={description}>
+        <Chip
+          label={label}
+          size="small"
+          variant="outlined"
+          sx={{ height: '24px', fontSize: '13px' }}
+        />
+      </Tooltip>
+    );
+  };
 
-      {/* 包装作業記録 */}
-      <Card sx={{ mb: 3 }}>
+  // 作業記録の表（用紙テンプレートの列の定義に従って表示）
+  const renderRecordSection = (section: FormSectionTemplate) => {
+    const records = editedData.記録[section.key] || [];
+    const columnLabel = (kind: 'name' | 'startTime' | 'endTime', fallback: string) =>
+      section.columns.find(column => column.kind === kind)?.label ?? fallback;
+    const nameLabel = columnLabel('name', '氏名');
+    const timeLabel = `${columnLabel('startTime', '開始時刻')}・${columnLabel('endTime', '終了時刻')}`;
+    const valueColumns = section.columns.filter(column =>
+      column.kind === 'checkboxes' || column.kind === 'count' || column.kind === 'text'
+    );
+
+    return (
+      <Card key={section.key} sx={{ mb: 3 }}>
         <CardContent>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
             <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
-              👥 包装作業記録
+              {section.icon} {section.label}
             </Typography>
             <Button
               variant="outlined"
               startIcon={<PersonAdd />}
-              onClick={addPackagingRecord}
+              onClick={() => addRecordAtPosition(section, 0)}
               sx={{ minHeight: '28px', fontSize: '14px' }}
             >
               作業者追加
             </Button>
           </Box>
-          
+        
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-            {editedData.包装作業記録.map((worker, index) => (
+            {records.map((worker, index) => (
               <React.Fragment key={index}>
                 {/* 各従業員記録の間に追加ボタンを配置（最初以外） */}
                 {index > 0 && (
@@ -1180,7 +1033,7 @@ const ConfirmationPage: React.FC = () => {
                       variant="outlined"
                       size="small"
                       startIcon={<PersonAdd />}
-                      onClick={() => addPackagingRecordAtPosition(index)}
+                      onClick={() => addRecordAtPosition(section, index)}
                       sx={{ 
                         minHeight: '36px', 
                         fontSize: '13px',
@@ -1198,10 +1051,10 @@ const ConfirmationPage: React.FC = () => {
                     </Button>
                   </Box>
                 )}
-                
+              
                 <Grow 
                   in={true} 
-                  timeout={newlyAddedPackaging.has(index) ? 600 : 0}
+                  timeout={newlyAdded.has(`${section.key}-${index}`) ? 600 : 0}
                   style={{ transformOrigin: '0 0 0' }}
                 >
                   <Box
@@ -1209,15 +1062,15 @@ const ConfirmationPage: React.FC = () => {
                       p: 2,
                       borderRadius: 2,
                       border: '1px solid',
-                      borderColor: newlyAddedPackaging.has(index) ? 'primary.main' : 'divider',
-                      borderWidth: newlyAddedPackaging.has(index) ? '2px' : '1px',
-                      bgcolor: newlyAddedPackaging.has(index) 
+                      borderColor: newlyAdded.has(`${section.key}-${index}`) ? 'primary.main' : 'divider',
+                      borderWidth: newlyAdded.has(`${section.key}-${index}`) ? '2px' : '1px',
+                      bgcolor: newlyAdded.has(`${section.key}-${index}`) 
                         ? 'primary.50' 
                         : (index % 2 === 0 ? 'background.default' : 'grey.50'),
                       borderTop: index > 0 ? '2px solid' : 'none',
                       borderTopColor: 'primary.main',
                       transition: 'all 0.3s ease-in-out',
-                      boxShadow: newlyAddedPackaging.has(index) 
+                      boxShadow: newlyAdded.has(`${section.key}-${index}`) 
                         ? '0 4px 20px rgba(25, 118, 210, 0.25)' 
                         : 'none',
                     }}
@@ -1225,49 +1078,47 @@ const ConfirmationPage: React.FC = () => {
                 {/* 1行目：氏名とOK/確認ボタンを横並び */}
                 <Box sx={{ mb: 1 }}>
                   <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                    氏名
+                    {nameLabel}
                   </Typography>
                   {worker.nameConfirmationStatus === 'editing' ? (
                     // 編集状態：ドロップダウンを表示
                     <Box>
                       <Autocomplete
-                        open={autoOpenDropdowns.has(`packaging-${index}`)}
+                        open={autoOpenDropdowns.has(`${section.key}-${index}`)}
                         onOpen={() => {
-                          if (!autoOpenDropdowns.has(`packaging-${index}`)) {
-                            setAutoOpenDropdowns(new Set([...autoOpenDropdowns, `packaging-${index}`]));
+                          if (!autoOpenDropdowns.has(`${section.key}-${index}`)) {
+                            setAutoOpenDropdowns(new Set([...autoOpenDropdowns, `${section.key}-${index}`]));
                           }
                         }}
                         onClose={() => {
                           setAutoOpenDropdowns(prev => {
                             const newSet = new Set(prev);
-                            newSet.delete(`packaging-${index}`);
+                            newSet.delete(`${section.key}-${index}`);
                             return newSet;
                           });
                         }}
-                        options={masterData.employees}
+                        {...getCandidateOptionProps(getNameCandidates(worker), masterData.employees, 'すべての従業員')}
                         value={worker.氏名}
                         onChange={(_, newValue) => {
                           // 一度に全ての状態を更新（競合回避）
-                          const newRecords = [...editedData.包装作業記録];
+                          const newRecords = [...records];
+                          const masterName = findSameText(masterData.employees, newValue || '');
                           const updatedRecord = {
                             ...newRecords[index],
-                            氏名: newValue || '',
+                            氏名: masterName ?? (newValue || ''),
                           };
-                          
+                        
                           // nameErrorクリアと確認状態の設定
-                          if (newValue && masterData.employees.includes(newValue)) {
+                          if (masterName) {
                             delete (updatedRecord as any).nameError;
+                            delete updatedRecord.ambiguousCandidates;
                             updatedRecord.nameConfirmationStatus = 'approved';
                           } else {
                             updatedRecord.nameConfirmationStatus = 'editing';
                           }
-                          
+                        
                           newRecords[index] = updatedRecord;
-                          setEditedData({
-                            ...editedData,
-                            包装作業記録: newRecords,
-                          });
-                          setHasChanges(true);
+                          setSectionRecords(section.key, newRecords);
                         }}
                         renderInput={(params) => (
                           <TextField
@@ -1291,8 +1142,8 @@ const ConfirmationPage: React.FC = () => {
                           variant="contained"
                           color="success"
                           size="small"
-                          onClick={() => updatePackagingNameConfirmationStatus(index, 'approved')}
-                          disabled={!worker.氏名 || !masterData.employees.includes(worker.氏名)}
+                          onClick={() => updateNameConfirmationStatus(section.key, index, 'approved')}
+                          disabled={!findSameText(masterData.employees, worker.氏名 || '')}
                           sx={{ fontSize: '11px' }}
                         >
                           確定
@@ -1300,7 +1151,7 @@ const ConfirmationPage: React.FC = () => {
                         <Button
                           variant="outlined"
                           size="small"
-                          onClick={() => updatePackagingNameConfirmationStatus(index, 'pending')}
+                          onClick={() => updateNameConfirmationStatus(section.key, index, 'pending')}
                           sx={{ fontSize: '11px' }}
                         >
                           戻る
@@ -1315,7 +1166,7 @@ const ConfirmationPage: React.FC = () => {
                         variant="outlined"
                         disabled
                         fullWidth
-                        data-duplicate={duplicateHighlight.has(`packaging-${worker.氏名}`) ? 'true' : 'false'}
+                        data-duplicate={duplicateHighlight.has(`${section.key}-${worker.氏名}`) ? 'true' : 'false'}
                         sx={{
                           '& .MuiInputBase-root': {
                             fontSize: '24px',
@@ -1324,15 +1175,16 @@ const ConfirmationPage: React.FC = () => {
                           '& .MuiOutlinedInput-root': {
                             '&.Mui-disabled': {
                               '& fieldset': {
-                                borderColor: duplicateHighlight.has(`packaging-${worker.氏名}`) ? 'error.main' :
+                                borderColor: duplicateHighlight.has(`${section.key}-${worker.氏名}`) ? 'error.main' :
                                             worker.nameConfirmationStatus === 'pending' ? 'error.main' : 'rgba(0, 0, 0, 0.23)',
-                                borderWidth: (duplicateHighlight.has(`packaging-${worker.氏名}`) || worker.nameConfirmationStatus === 'pending') ? '2px' : '1px',
-                                backgroundColor: duplicateHighlight.has(`packaging-${worker.氏名}`) ? 'rgba(255, 0, 0, 0.1)' : 'transparent',
+                                borderWidth: (duplicateHighlight.has(`${section.key}-${worker.氏名}`) || worker.nameConfirmationStatus === 'pending') ? '2px' : '1px',
+                                backgroundColor: duplicateHighlight.has(`${section.key}-${worker.氏名}`) ? 'rgba(255, 0, 0, 0.1)' : 'transparent',
                               }
                             }
                           }
                         }}
                       />
+                      {renderRecordCrop(worker, section, '氏名')}
                       {worker.nameConfirmationStatus === 'pending' ? (
                         <Button
                           variant="contained"
@@ -1341,11 +1193,11 @@ const ConfirmationPage: React.FC = () => {
                           onClick={() => {
                             if (!worker.氏名 || worker.氏名.trim() === '') {
                               // 氏名が空の場合（新規追加）は直接編集モードへ
-                              updatePackagingNameConfirmationStatus(index, 'editing');
-                              setAutoOpenDropdowns(new Set([`packaging-${index}`]));
+                              updateNameConfirmationStatus(section.key, index, 'editing');
+                              setAutoOpenDropdowns(new Set([`${section.key}-${index}`]));
                             } else {
                               // 既存の氏名がある場合は確認画面を表示
-                              openConfirmPopup('packaging', worker.氏名, index);
+                              openConfirmPopup('name', worker.氏名, section.key, index);
                             }
                           }}
                           sx={{ minWidth: '60px', fontSize: '20px', whiteSpace: 'nowrap' }}
@@ -1358,8 +1210,8 @@ const ConfirmationPage: React.FC = () => {
                           color="success"
                           size="small"
                           onClick={() => {
-                            updatePackagingNameConfirmationStatus(index, 'editing');
-                            setAutoOpenDropdowns(new Set([`packaging-${index}`]));
+                            updateNameConfirmationStatus(section.key, index, 'editing');
+                            setAutoOpenDropdowns(new Set([`${section.key}-${index}`]));
                           }}
                           sx={{ minWidth: '50px', fontSize: '20px', whiteSpace: 'nowrap' }}
                         >
@@ -1380,20 +1232,23 @@ const ConfirmationPage: React.FC = () => {
                                worker.confidence && worker.confidence >= 0.9 ? 'success' : 'warning'}
                         sx={{ height: '24px', fontSize: '13px' }}
                       />
+                      {renderMatchTypeChip(worker)}
+                      {renderRereadChip(worker)}
                     </Box>
                   )}
                 </Box>
-                
-                {/* 2行目：開始時刻、終了時刻、休憩 */}
+              
+                {/* 2行目：開始時刻、終了時刻 */}
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mb: 1 }}>
                   {/* 時刻リスト */}
                   <Box>
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
                       <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary' }}>
-                        開始・終了時刻
+                        {timeLabel}
                       </Typography>
+                      {renderUncertainChip(worker.timeError)}
                       <IconButton
-                        onClick={() => addPackagingTimeSlot(index)}
+                        onClick={() => addTimeSlot(section.key, index)}
                         size="small"
                         color="primary"
                         sx={{ width: '32px', height: '32px' }}
@@ -1405,15 +1260,16 @@ const ConfirmationPage: React.FC = () => {
                       <Box key={timeSlotIndex} sx={{ display: 'flex', flexDirection: 'row', gap: 1, mb: 1, alignItems: 'center' }}>
                         <TextField
                           value={timeSlot.開始時刻}
-                          onChange={(e) => updatePackagingTimeSlot(index, timeSlotIndex, '開始時刻', e.target.value)}
+                          onChange={(e) => updateTimeSlot(section.key, index, timeSlotIndex, '開始時刻', e.target.value)}
                           onBlur={(e) => {
-                            const formatted = formatTimeInput(e.target.value);
+                            const formatted = normalizeTime(e.target.value);
                             if (formatted !== e.target.value) {
-                              updatePackagingTimeSlot(index, timeSlotIndex, '開始時刻', formatted);
+                              updateTimeSlot(section.key, index, timeSlotIndex, '開始時刻', formatted);
                             }
                           }}
                           onFocus={(e) => e.target.select()}
                           fullWidth
+                          error={isUncertainCell(getTimeSlotCell(worker, timeSlotIndex, '開始時刻')) || isInvalidTime(timeSlot.開始時刻)}
                           placeholder="例: 800 → 8:00"
                           sx={{
                             '& .MuiInputBase-root': {
@@ -1422,17 +1278,19 @@ const ConfirmationPage: React.FC = () => {
                             }
                           }}
                         />
+                        {renderTimeSlotCrop(worker, section, timeSlotIndex, '開始時刻')}
                         <TextField
                           value={timeSlot.終了時刻}
-                          onChange={(e) => updatePackagingTimeSlot(index, timeSlotIndex, '終了時刻', e.target.value)}
+                          onChange={(e) => updateTimeSlot(section.key, index, timeSlotIndex, '終了時刻', e.target.value)}
                           onBlur={(e) => {
-                            const formatted = formatTimeInput(e.target.value);
+                            const formatted = normalizeTime(e.target.value);
                             if (formatted !== e.target.value) {
-                              updatePackagingTimeSlot(index, timeSlotIndex, '終了時刻', formatted);
+                              updateTimeSlot(section.key, index, timeSlotIndex, '終了時刻', formatted);
                             }
                           }}
                           onFocus={(e) => e.target.select()}
                           fullWidth
+                          error={isUncertainCell(getTimeSlotCell(worker, timeSlotIndex, '終了時刻')) || isInvalidTime(timeSlot.終了時刻)}
                           placeholder="例: 1730 → 17:30"
                           sx={{
                             '& .MuiInputBase-root': {
@@ -1441,9 +1299,10 @@ const ConfirmationPage: React.FC = () => {
                             }
                           }}
                         />
+                        {renderTimeSlotCrop(worker, section, timeSlotIndex, '終了時刻')}
                         {worker.時刻リスト && worker.時刻リスト.length > 1 && (
                           <IconButton
-                            onClick={() => deletePackagingTimeSlot(index, timeSlotIndex)}
+                            onClick={() => deleteTimeSlot(section.key, index, timeSlotIndex)}
                             size="small"
                             color="error"
                             sx={{ width: '32px', height: '32px' }}
@@ -1455,74 +1314,48 @@ const ConfirmationPage: React.FC = () => {
                     ))}
                   </Box>
                 </Box>
-                
-                {/* 3行目：休憩（縦並び）と生産数を横並び */}
+              
+                {/* 3行目：チェックボックス・数量・文字の列（用紙の列の順）と削除ボタンを横並び */}
                 <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
-                  {/* 休憩（縦並び） */}
-                  <Box sx={{ flex: 1 }}>
+                  {valueColumns.map(column => (
+                    <Box key={column.key} sx={{ flex: 1 }}>
+                      <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
+                        {column.label}
+                        {renderUncertainChip(isUncertainColumn(worker, column))}
+                      </Typography>
+                      {column.kind === 'checkboxes' ? (
+                        renderCheckboxChips(worker, section, column.checkboxes, index)
+                      ) : (
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <TextField
+                            value={worker.値[column.key] ?? ''}
+                            onChange={(e) => updateValue(section.key, index, column.key, e.target.value)}
+                            onFocus={(e) => e.target.select()}
+                            fullWidth
+                            error={isUncertainCell(worker.cells?.[column.key])
+                              || (column.kind === 'count' && isInvalidCount(worker.値[column.key]))}
+                            type={column.kind === 'count' ? 'number' : 'text'}
+                            placeholder={column.label}
+                            sx={{
+                              '& .MuiInputBase-root': {
+                                height: '40px',
+                                fontSize: '24px',
+                              }
+                            }}
+                          />
+                          {renderRecordCrop(worker, section, column.key)}
+                        </Box>
+                      )}
+                    </Box>
+                  ))}
+                
+                  {/* 削除ボタン */}
+                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
                     <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                      休憩
-                    </Typography>
-                    <Stack direction="column" spacing={1} alignItems="flex-start">
-                      <Chip
-                        label="昼休み"
-                        size="small"
-                        color={worker.休憩.昼休み ? 'primary' : 'default'}
-                        onClick={() => updateBreak('packaging', index, '昼休み', !worker.休憩.昼休み)}
-                        sx={{ 
-                          cursor: 'pointer',
-                          fontWeight: worker.休憩.昼休み ? 600 : 400,
-                          fontSize: '13px',
-                          height: '32px',
-                          minWidth: '80px',
-                          borderRadius: '16px',
-                        }}
-                      />
-                      <Chip
-                        label="中休み"
-                        size="small"
-                        color={worker.休憩.中休み ? 'secondary' : 'default'}
-                        onClick={() => updateBreak('packaging', index, '中休み', !worker.休憩.中休み)}
-                        sx={{ 
-                          cursor: 'pointer',
-                          fontWeight: worker.休憩.中休み ? 600 : 400,
-                          fontSize: '13px',
-                          height: '32px',
-                          minWidth: '80px',
-                          borderRadius: '16px',
-                        }}
-                      />
-                    </Stack>
-                  </Box>
-                  
-                  {/* 生産数 */}
-                  <Box sx={{ flex: 1 }}>
-                    <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                      生産数
-                    </Typography>
-                    <TextField
-                      value={worker.生産数}
-                      onChange={(e) => updatePackagingRecord(index, '生産数', e.target.value)}
-                      onFocus={(e) => e.target.select()}
-                      fullWidth
-                      type="number"
-                      placeholder="生産数"
-                      sx={{
-                        '& .MuiInputBase-root': {
-                          height: '40px',
-                          fontSize: '24px',
-                        }
-                      }}
-                    />
-                  </Box>
-                  
-                  {/* 削除ボタン */}
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
-                    <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                      削除
+                      削除
                     </Typography>
                     <IconButton
-                      onClick={() => deletePackagingRecord(index)}
+                      onClick={() => deleteRecord(section.key, index)}
                       color="error"
                       size="small"
                       sx={{ 
@@ -1540,15 +1373,15 @@ const ConfirmationPage: React.FC = () => {
               </Grow>
               </React.Fragment>
             ))}
-            
+          
             {/* 最後に追加ボタンを配置 */}
-            {editedData.包装作業記録.length > 0 && (
+            {records.length > 0 && (
               <Box sx={{ display: 'flex', justifyContent: 'center', my: 1 }}>
                 <Button
                   variant="outlined"
                   size="small"
                   startIcon={<PersonAdd />}
-                  onClick={() => addPackagingRecordAtPosition(editedData.包装作業記録.length)}
+                  onClick={() => addRecordAtPosition(section, records.length)}
                   sx={{ 
                     minHeight: '36px', 
                     fontSize: '13px',
@@ -1569,424 +1402,418 @@ const ConfirmationPage: React.FC = () => {
           </Box>
         </CardContent>
       </Card>
+    );
+  };
 
-      {/* 機械操作記録 */}
-      <Card sx={{ mb: 3 }}>
-        <CardContent>
-          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-            <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
-              ⚙️ 機械操作記録
-            </Typography>
-            <Button
-              variant="outlined"
-              startIcon={<Add />}
-              onClick={addMachineRecord}
-              sx={{ minHeight: '28px', fontSize: '14px' }}
-            >
-              作業者追加
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom sx={{ mb: 3, fontWeight: 600, textAlign: 'center' }}>
+        📋 読み取り結果確認
+      </Typography>
+
+      {hasChanges && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          変更があります。保存ボタンを押すと反映されます。
+        </Alert>
+      )}
+
+      <PreprocessDebugPanel results={preprocessedImages} />
+
+      {/* 同じ画像の読み取り済みの結果を使用した場合 */}
+      {ocrResult.fromCache && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={handleRereadWithoutCache}>
+              もう一度読み取る
             </Button>
+          }
+        >
+          この画像は読み取り済みのため、前回の読み取り結果を表示しています。
+        </Alert>
+      )}
+
+      {/* 読み取りに失敗した画像がある場合（他の画像の結果のみ表示） */}
+      {ocrFailures.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {ocrFailures.map(failure => failure.pageIndex + 1).join('・')}枚目の画像を読み取れませんでした。
+          必要な場合は撮影し直して読み取ってください。
+          {ocrFailures.map(failure => (
+            <Typography key={failure.pageIndex} variant="caption" component="div">
+              {failure.pageIndex + 1}枚目: {failure.message}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+
+      {/* 複数枚の画像を統合した場合 */}
+      {editedData.sourcePages && editedData.sourcePages.length > 1 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {editedData.sourcePages.map(page => page + 1).join('・')}枚目の画像を1つの記録にまとめました。
+        </Alert>
+      )}
+
+      {pendingResults.length > 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          日付または商品が異なる記録があと{pendingResults.length}件あります。この記録を保存した後に確認できます。
+        </Alert>
+      )}
+
+      {/* 画像間で食い違ったヘッダー項目 */}
+      {editedData.headerConflicts?.map(conflict => (
+        <Alert key={conflict.field} severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="body2" sx={{ fontWeight: 600, mb: 1 }}>
+            画像によって{conflict.field}が異なります。正しい{conflict.field}を選択してください。
+          </Typography>
+          <Stack direction="row" spacing={1} sx={{ flexWrap: 'wrap', gap: 1 }}>
+            {conflict.values.map(option => (
+              <Button
+                key={option.value}
+                variant={editedData.ヘッダー[conflict.field] === option.value ? 'contained' : 'outlined'}
+                size="small"
+                onClick={() => resolveHeaderConflict(conflict.field, option.value)}
+                sx={{ ml: '0 !important' }}
+              >
+                {option.value}（{option.pages.map(page => page + 1).join('・')}枚目）
+              </Button>
+            ))}
+          </Stack>
+        </Alert>
+      ))}
+
+      {/* OCR応答の検証で見つかった問題 */}
+      {editedData.validationIssues && editedData.validationIssues.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="body2" sx={{ fontWeight: 600, mb: 0.5 }}>
+            読み取り結果に確認が必要な項目があります（{editedData.validationIssues.length}件）
+          </Typography>
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {editedData.validationIssues.map((issue, index) => (
+              <li key={`${issue.path}-${index}`}>
+                <Typography variant="body2">
+                  {OcrResponseParser.formatIssuePath(issue.path)}: {issue.message}
+                </Typography>
+              </li>
+            ))}
           </Box>
-          
-          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-            {editedData.機械操作記録.map((operation, index) => (
-              <React.Fragment key={index}>
-                {/* 各従業員記録の間に追加ボタンを配置（最初以外） */}
-                {index > 0 && (
-                  <Box sx={{ display: 'flex', justifyContent: 'center', my: 1 }}>
-                    <Button
-                      variant="outlined"
-                      size="small"
-                      startIcon={<PersonAdd />}
-                      onClick={() => addMachineRecordAtPosition(index)}
-                      sx={{ 
-                        minHeight: '36px', 
-                        fontSize: '13px',
-                        borderStyle: 'dashed',
-                        borderColor: 'primary.main',
-                        color: 'primary.main',
-                        backgroundColor: 'background.paper',
-                        '&:hover': {
-                          backgroundColor: 'primary.50',
-                          borderStyle: 'solid',
-                        }
-                      }}
-                    >
-                      追加
-                    </Button>
-                  </Box>
-                )}
-                
-                <Grow 
-                  in={true} 
-                  timeout={newlyAddedMachine.has(index) ? 600 : 0}
-                  style={{ transformOrigin: '0 0 0' }}
-                >
-                  <Box
-                    sx={{
-                      p: 2,
-                      borderRadius: 2,
-                      border: '1px solid',
-                      borderColor: newlyAddedMachine.has(index) ? 'primary.main' : 'divider',
-                      borderWidth: newlyAddedMachine.has(index) ? '2px' : '1px',
-                      bgcolor: newlyAddedMachine.has(index) 
-                        ? 'primary.50' 
-                        : (index % 2 === 0 ? 'background.default' : 'grey.50'),
-                      borderTop: index > 0 ? '2px solid' : 'none',
-                      borderTopColor: 'primary.main',
-                      transition: 'all 0.3s ease-in-out',
-                      boxShadow: newlyAddedMachine.has(index) 
-                        ? '0 4px 20px rgba(25, 118, 210, 0.25)' 
-                        : 'none',
-                    }}
-                  >
-                {/* 1行目：氏名とOK/確認ボタンを横並び */}
-                <Box sx={{ mb: 1 }}>
-                  <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                    氏名
-                  </Typography>
-                  {operation.nameConfirmationStatus === 'editing' ? (
-                    // 編集状態：ドロップダウンを表示
-                    <Box>
-                      <Autocomplete
-                        open={autoOpenDropdowns.has(`machine-${index}`)}
-                        onOpen={() => {
-                          if (!autoOpenDropdowns.has(`machine-${index}`)) {
-                            setAutoOpenDropdowns(new Set([...autoOpenDropdowns, `machine-${index}`]));
-                          }
-                        }}
-                        onClose={() => {
-                          setAutoOpenDropdowns(prev => {
-                            const newSet = new Set(prev);
-                            newSet.delete(`machine-${index}`);
-                            return newSet;
-                          });
-                        }}
-                        options={masterData.employees}
-                        value={operation.氏名}
-                        onChange={(_, newValue) => {
-                          // 一度に全ての状態を更新（競合回避）
-                          const newRecords = [...editedData.機械操作記録];
-                          const updatedRecord = {
-                            ...newRecords[index],
-                            氏名: newValue || '',
-                          };
-                          
-                          // nameErrorクリアと確認状態の設定
-                          if (newValue && masterData.employees.includes(newValue)) {
-                            delete (updatedRecord as any).nameError;
-                            updatedRecord.nameConfirmationStatus = 'approved';
-                          } else {
-                            updatedRecord.nameConfirmationStatus = 'editing';
-                          }
-                          
-                          newRecords[index] = updatedRecord;
-                          setEditedData({
-                            ...editedData,
-                            機械操作記録: newRecords,
-                          });
-                          setHasChanges(true);
-                        }}
-                        renderInput={(params) => (
-                          <TextField
-                            {...params}
-                            variant="outlined"
-                            helperText="正しい氏名を選択してください"
-                            sx={{
-                              '& .MuiInputBase-root': {
-                                fontSize: '24px',
-                                height: '36px',
-                              }
-                            }}
-                          />
-                        )}
-                        freeSolo
-                        fullWidth
-                        disabled={masterDataLoading}
-                      />
-                      <Box sx={{ mt: 0.5, display: 'flex', gap: 0.5 }}>
-                        <Button
-                          variant="contained"
-                          color="success"
-                          size="small"
-                          onClick={() => updateMachineNameConfirmationStatus(index, 'approved')}
-                          disabled={!operation.氏名 || !masterData.employees.includes(operation.氏名)}
-                          sx={{ fontSize: '11px' }}
-                        >
-                          確定
-                        </Button>
-                        <Button
-                          variant="outlined"
-                          size="small"
-                          onClick={() => updateMachineNameConfirmationStatus(index, 'pending')}
-                          sx={{ fontSize: '11px' }}
-                        >
-                          戻る
-                        </Button>
-                      </Box>
-                    </Box>
-                  ) : (
-                    // 通常表示：氏名とステータスボタンを横並び
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
-                      <TextField
-                        value={operation.氏名}
-                        variant="outlined"
-                        disabled
-                        fullWidth
-                        data-duplicate={duplicateHighlight.has(`machine-${operation.氏名}`) ? 'true' : 'false'}
-                        sx={{
-                          '& .MuiInputBase-root': {
-                            fontSize: '24px',
-                            height: '36px',
-                          },
-                          '& .MuiOutlinedInput-root': {
-                            '&.Mui-disabled': {
-                              '& fieldset': {
-                                borderColor: duplicateHighlight.has(`machine-${operation.氏名}`) ? 'error.main' :
-                                            operation.nameConfirmationStatus === 'pending' ? 'error.main' : 'rgba(0, 0, 0, 0.23)',
-                                borderWidth: (duplicateHighlight.has(`machine-${operation.氏名}`) || operation.nameConfirmationStatus === 'pending') ? '2px' : '1px',
-                                backgroundColor: duplicateHighlight.has(`machine-${operation.氏名}`) ? 'rgba(255, 0, 0, 0.1)' : 'transparent',
-                              }
-                            }
-                          }
-                        }}
-                      />
-                      {operation.nameConfirmationStatus === 'pending' ? (
-                        <Button
-                          variant="contained"
-                          color="warning"
-                          size="small"
-                          onClick={() => {
-                            if (!operation.氏名 || operation.氏名.trim() === '') {
-                              // 氏名が空の場合（新規追加）は直接編集モードへ
-                              updateMachineNameConfirmationStatus(index, 'editing');
-                              setAutoOpenDropdowns(new Set([`machine-${index}`]));
-                            } else {
-                              // 既存の氏名がある場合は確認画面を表示
-                              openConfirmPopup('machine', operation.氏名, index);
-                            }
-                          }}
-                          sx={{ minWidth: '60px', fontSize: '20px', whiteSpace: 'nowrap' }}
-                        >
-                          修正
-                        </Button>
-                      ) : (
-                        <Button
-                          variant="contained"
-                          color="success"
-                          size="small"
-                          onClick={() => {
-                            updateMachineNameConfirmationStatus(index, 'editing');
-                            setAutoOpenDropdowns(new Set([`machine-${index}`]));
-                          }}
-                          sx={{ minWidth: '50px', fontSize: '20px', whiteSpace: 'nowrap' }}
-                        >
-                          変更
-                        </Button>
-                      )}
-                    </Box>
-                  )}
-                  {operation.originalName && (
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
-                      <Typography variant="caption" color="primary">
-                        元: {operation.originalName}
-                      </Typography>
-                      <Chip
-                        label={`${Math.round((operation.confidence || 0) * 100)}%`}
-                        size="small"
-                        color={operation.nameError ? 'error' : 
-                               operation.confidence && operation.confidence >= 0.9 ? 'success' : 'warning'}
-                        sx={{ height: '24px', fontSize: '13px' }}
-                      />
-                    </Box>
-                  )}
-                </Box>
-                
-                {/* 2行目：開始時刻、終了時刻、休憩 */}
-                <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mb: 1 }}>
-                  {/* 時刻リスト */}
-                  <Box>
-                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
-                      <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary' }}>
-                        開始・終了時刻
-                      </Typography>
-                      <IconButton
-                        onClick={() => addMachineTimeSlot(index)}
-                        size="small"
-                        color="primary"
-                        sx={{ width: '32px', height: '32px' }}
-                      >
-                        <Add sx={{ fontSize: '20px' }} />
-                      </IconButton>
-                    </Box>
-                    {operation.時刻リスト?.map((timeSlot, timeSlotIndex) => (
-                      <Box key={timeSlotIndex} sx={{ display: 'flex', flexDirection: 'row', gap: 1, mb: 1, alignItems: 'center' }}>
-                        <TextField
-                          value={timeSlot.開始時刻}
-                          onChange={(e) => updateMachineTimeSlot(index, timeSlotIndex, '開始時刻', e.target.value)}
-                          onBlur={(e) => {
-                            const formatted = formatTimeInput(e.target.value);
-                            if (formatted !== e.target.value) {
-                              updateMachineTimeSlot(index, timeSlotIndex, '開始時刻', formatted);
-                            }
-                          }}
-                          onFocus={(e) => e.target.select()}
-                          fullWidth
-                          placeholder="例: 800 → 8:00"
-                          sx={{
-                            '& .MuiInputBase-root': {
-                              height: '24px',
-                              fontSize: '24px',
-                            }
-                          }}
-                        />
-                        <TextField
-                          value={timeSlot.終了時刻}
-                          onChange={(e) => updateMachineTimeSlot(index, timeSlotIndex, '終了時刻', e.target.value)}
-                          onBlur={(e) => {
-                            const formatted = formatTimeInput(e.target.value);
-                            if (formatted !== e.target.value) {
-                              updateMachineTimeSlot(index, timeSlotIndex, '終了時刻', formatted);
-                            }
-                          }}
-                          onFocus={(e) => e.target.select()}
-                          fullWidth
-                          placeholder="例: 1730 → 17:30"
-                          sx={{
-                            '& .MuiInputBase-root': {
-                              height: '24px',
-                              fontSize: '24px',
-                            }
-                          }}
-                        />
-                        {operation.時刻リスト && operation.時刻リスト.length > 1 && (
-                          <IconButton
-                            onClick={() => deleteMachineTimeSlot(index, timeSlotIndex)}
-                            size="small"
-                            color="error"
-                            sx={{ width: '32px', height: '32px' }}
-                          >
-                            <Delete sx={{ fontSize: '24px' }} />
-                          </IconButton>
-                        )}
-                      </Box>
-                    ))}
+        </Alert>
+      )}
+
+      {/* ヘッダー情報 */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent sx={{ p: 3 }}>
+          <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', mb: 3 }}>
+            <Edit sx={{ mr: 1 }} />
+            基本情報
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+            {/* 作業日 */}
+            <LocalizationProvider dateAdapter={AdapterDayjs} adapterLocale="ja">
+              <DatePicker
+                label="作業日"
+                value={editedData.ヘッダー.作業日 ? dayjs(editedData.ヘッダー.作業日) : null}
+                onChange={(newValue: Dayjs | null) => {
+                  if (newValue) {
+                    updateHeader('作業日', newValue.format('YYYY/MM/DD'));
+                  }
+                }}
+                format="YYYY/MM/DD"
+                slotProps={{
+                  textField: {
+                    fullWidth: true,
+                    variant: "outlined",
+                    error: editedData.ヘッダー.workDateConfirmationStatus === 'pending',
+                    sx: {
+                      '& .MuiInputBase-root': {
+                        height: '56px',
+                        fontSize: '24px',
+                        cursor: 'pointer',
+                      },
+                      '& .MuiInputBase-input': {
+                        cursor: 'pointer',
+                      }
+                    },
+                    onClick: (e: any) => {
+                      // テキストフィールドのどこをクリックしてもカレンダーを開く
+                      const input = e.currentTarget.querySelector('input');
+                      if (input) {
+                        input.focus();
+                        input.click();
+                      }
+                    }
+                  },
+                  field: {
+                    clearable: false,
+                    onMouseDown: (e: any) => {
+                      e.preventDefault();
+                    }
+                  }
+                }}
+              />
+            </LocalizationProvider>
+            {editedData.ヘッダー.workDateConfirmationStatus === 'pending' && editedData.ヘッダー.workDateCheck && (
+              <Alert severity="warning" sx={{ mt: -1 }}>
+                {WorkDateService.describeIssues(editedData.ヘッダー).map(message => (
+                  <Typography key={message} variant="body2">{message}</Typography>
+                ))}
+                {editedData.ヘッダー.originalWorkDate && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+                    <Typography variant="body2">用紙の記入：{editedData.ヘッダー.originalWorkDate}</Typography>
+                    {renderCropPreview(
+                      FieldRegionService.getHeaderRegion(
+                        editedData.ヘッダー,
+                        '作業日',
+                        pageImageSizes[headerPage] ?? null,
+                        formTemplate.layout
+                      ),
+                      '作業日',
+                      headerPage
+                    )}
                   </Box>
-                </Box>
-                
-                {/* 3行目：休憩（縦並び）と生産数を横並び */}
-                <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
-                  {/* 休憩（縦並び） */}
-                  <Box sx={{ flex: 1 }}>
-                    <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                      休憩
-                    </Typography>
-                    <Stack direction="column" spacing={1} alignItems="flex-start">
-                      <Chip
-                        label="昼休み"
-                        size="small"
-                        color={operation.休憩.昼休み ? 'primary' : 'default'}
-                        onClick={() => updateBreak('machine', index, '昼休み', !operation.休憩.昼休み)}
-                        sx={{ 
-                          cursor: 'pointer',
-                          fontWeight: operation.休憩.昼休み ? 600 : 400,
-                          fontSize: '13px',
-                          height: '32px',
-                          minWidth: '80px',
-                          borderRadius: '16px',
-                        }}
-                      />
-                      <Chip
-                        label="中休み"
+                )}
+                <Stack direction="row" sx={{ mt: 1, flexWrap: 'wrap', gap: 1 }}>
+                  {[
+                    { label: '用紙の日付', value: editedData.ヘッダー.workDateCheck.formDate },
+                    { label: '撮影日', value: editedData.ヘッダー.workDateCheck.uploadDate },
+                  ]
+                    .filter((option, index, options) =>
+                      option.value && options.findIndex(other => other.value === option.value) === index
+                    )
+                    .map(option => (
+                      <Button
+                        key={option.label}
+                        variant={editedData.ヘッダー.作業日 === option.value ? 'contained' : 'outlined'}
                         size="small"
-                        color={operation.休憩.中休み ? 'secondary' : 'default'}
-                        onClick={() => updateBreak('machine', index, '中休み', !operation.休憩.中休み)}
-                        sx={{ 
-                          cursor: 'pointer',
-                          fontWeight: operation.休憩.中休み ? 600 : 400,
-                          fontSize: '13px',
-                          height: '32px',
-                          minWidth: '80px',
-                          borderRadius: '16px',
+                        onClick={() => updateHeader('作業日', option.value!)}
+                        sx={{ ml: '0 !important' }}
+                      >
+                        {option.label}（{option.value}）
+                      </Button>
+                    ))}
+                  <Button
+                    variant="contained"
+                    color="success"
+                    size="small"
+                    onClick={() => updateHeader('作業日', editedData.ヘッダー.作業日!)}
+                    sx={{ ml: '0 !important' }}
+                  >
+                    ✓ この日付でOK
+                  </Button>
+                </Stack>
+              </Alert>
+            )}
+            <Box>
+              {editedData.ヘッダー.productConfirmationStatus === 'editing' ? (
+                // 編集状態：ドロップダウンを表示
+                <Box>
+                  <Autocomplete
+                    open={autoOpenDropdowns.has('product')}
+                    onOpen={() => {
+                      if (!autoOpenDropdowns.has('product')) {
+                        setAutoOpenDropdowns(new Set([...autoOpenDropdowns, 'product']));
+                      }
+                    }}
+                    onClose={() => {
+                      setAutoOpenDropdowns(prev => {
+                        const newSet = new Set(prev);
+                        newSet.delete('product');
+                        return newSet;
+                      });
+                    }}
+                    {...getCandidateOptionProps(productCandidates, masterData.products, 'すべての商品')}
+                    value={editedData.ヘッダー.商品名}
+                    onChange={(_, newValue) => {
+                      // 一度に全ての状態を更新（競合回避）
+                      const masterProduct = findSameText(masterData.products, newValue || '');
+                      const updatedHeader = {
+                        ...editedData.ヘッダー,
+                        商品名: masterProduct ?? (newValue || ''),
+                      };
+                      
+                      // productErrorクリアと確認状態の設定
+                      if (masterProduct) {
+                        delete (updatedHeader as any).productError;
+                        updatedHeader.productConfirmationStatus = 'approved';
+                      } else {
+                        updatedHeader.productConfirmationStatus = 'editing';
+                      }
+                      
+                      setEditedData({
+                        ...editedData,
+                        ヘッダー: updatedHeader,
+                      });
+                      setHasChanges(true);
+                    }}
+                    renderInput={(params) => (
+                      <TextField
+                        {...params}
+                        label="商品名"
+                        variant="outlined"
+                        helperText="正しい商品名を選択してください"
+                        sx={{
+                          '& .MuiInputBase-root': {
+                            fontSize: '24px',
+                          }
                         }}
                       />
-                    </Stack>
+                    )}
+                    freeSolo
+                    fullWidth
+                    disabled={masterDataLoading}
+                  />
+                  <Box sx={{ mt: 1, display: 'flex', gap: 1 }}>
+                    <Button
+                      variant="contained"
+                      color="success"
+                      size="small"
+                      onClick={() => updateProductConfirmationStatus('approved')}
+                      disabled={!editedData.ヘッダー.商品名 || !findSameText(masterData.products, editedData.ヘッダー.商品名)}
+                    >
+                      確定
+                    </Button>
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      onClick={() => updateProductConfirmationStatus('pending')}
+                    >
+                      キャンセル
+                    </Button>
                   </Box>
-                  
-                  {/* 生産数 */}
-                  <Box sx={{ flex: 1 }}>
-                    <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                      生産数
-                    </Typography>
-                    <TextField
-                      value={operation.生産数}
-                      onChange={(e) => updateMachineRecord(index, '生産数', e.target.value)}
-                      onFocus={(e) => e.target.select()}
-                      fullWidth
-                      type="number"
-                      placeholder="生産数"
-                      sx={{
-                        '& .MuiInputBase-root': {
-                          height: '40px',
-                          fontSize: '24px',
+                </Box>
+              ) : (
+                // 通常表示：商品名とステータスボタン
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                  <TextField
+                    label="商品名"
+                    value={editedData.ヘッダー.商品名}
+                    variant="outlined"
+                    fullWidth
+                    disabled
+                    sx={{
+                      '& .MuiInputBase-root': {
+                        fontSize: '24px',
+                      },
+                      '& .MuiOutlinedInput-root': {
+                        '&.Mui-disabled': {
+                          '& fieldset': {
+                            borderColor: editedData.ヘッダー.productConfirmationStatus === 'pending' ? 'error.main' : 'rgba(0, 0, 0, 0.23)',
+                            borderWidth: editedData.ヘッダー.productConfirmationStatus === 'pending' ? '2px' : '1px',
+                          }
                         }
-                      }}
-                    />
-                  </Box>
-                  
-                  {/* 削除ボタン */}
-                  <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end' }}>
-                    <Typography variant="caption" sx={{ fontSize: '13px', fontWeight: 600, color: 'text.secondary', mb: 0.5, display: 'block' }}>
-                      削除
-                    </Typography>
-                    <IconButton
-                      onClick={() => deleteMachineRecord(index)}
-                      color="error"
+                      }
+                    }}
+                  />
+                  {renderCropPreview(
+                    FieldRegionService.getHeaderRegion(
+                      editedData.ヘッダー,
+                      '商品名',
+                      pageImageSizes[headerPage] ?? null,
+                      formTemplate.layout
+                    ),
+                    '商品名',
+                    headerPage
+                  )}
+                  {editedData.ヘッダー.productConfirmationStatus === 'pending' ? (
+                    <Button
+                      variant="contained"
+                      color="warning"
                       size="small"
-                      sx={{ 
-                        '&:hover': { 
-                          bgcolor: 'error.light',
-                          color: 'white',
-                        }
+                      onClick={() => openConfirmPopup('product', editedData.ヘッダー.商品名)}
+                      sx={{ minWidth: '80px', whiteSpace: 'nowrap', fontSize: '20px' }}
+                    >
+                      修正
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="contained"
+                      color="success"
+                      size="small"
+                      onClick={() => {
+                        updateProductConfirmationStatus('editing');
+                        setAutoOpenDropdowns(new Set(['product']));
                       }}
+                      sx={{ minWidth: '60px', whiteSpace: 'nowrap', fontSize: '20px' }}
                     >
-                      <Delete />
-                    </IconButton>
-                  </Box>
+                      変更
+                    </Button>
+                  )}
                 </Box>
-              </Box>
-              </Grow>
-              </React.Fragment>
-            ))}
-            
-            {/* 最後に追加ボタンを配置 */}
-            {editedData.機械操作記録.length > 0 && (
-              <Box sx={{ display: 'flex', justifyContent: 'center', my: 1 }}>
-                <Button
-                  variant="outlined"
-                  size="small"
-                  startIcon={<PersonAdd />}
-                  onClick={() => addMachineRecordAtPosition(editedData.機械操作記録.length)}
-                  sx={{ 
-                    minHeight: '36px', 
-                    fontSize: '13px',
-                    borderStyle: 'dashed',
-                    borderColor: 'primary.main',
-                    color: 'primary.main',
-                    backgroundColor: 'background.paper',
-                    '&:hover': {
-                      backgroundColor: 'primary.50',
-                      borderStyle: 'solid',
+              )}
+              {getCorrectionInfo(editedData.ヘッダー, '商品名') && (
+                <Box sx={{ mt: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Typography variant="caption" color="primary">
+                    元: {getCorrectionInfo(editedData.ヘッダー, '商品名')?.original}
+                  </Typography>
+                  <Chip
+                    label={`${Math.round((getCorrectionInfo(editedData.ヘッダー, '商品名')?.confidence || 0) * 100)}%`}
+                    size="small"
+                    color={(!editedData.ヘッダー.商品名 || (editedData.ヘッダー as any).productError || !findSameText(masterData.products, editedData.ヘッダー.商品名)) ? 'error' : 
+                           (getCorrectionInfo(editedData.ヘッダー, '商品名')?.confidence || 0) >= 0.9 ? 'success' : 'warning'}
+                    sx={{ height: '24px', fontSize: '13px' }}
+                  />
+                </Box>
+              )}
+            </Box>
+
+            {/* 作業時間（用紙にある場合のみ） */}
+            {formTemplate.headerFields.includes('作業時間') && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                <TextField
+                  label="作業時間"
+                  value={editedData.ヘッダー.作業時間}
+                  onChange={(e) => updateHeader('作業時間', e.target.value)}
+                  onBlur={(e) => {
+                    const formatted = normalizeWorkHours(e.target.value);
+                    if (formatted !== e.target.value) {
+                      updateHeader('作業時間', formatted);
                     }
                   }}
-                >
-                  追加
-                </Button>
+                  variant="outlined"
+                  fullWidth
+                  error={!!workHoursHelperText}
+                  helperText={workHoursHelperText}
+                  placeholder="例: 8:00-17:00"
+                  sx={{
+                    '& .MuiInputBase-root': {
+                      fontSize: '24px',
+                    },
+                  }}
+                />
+                {renderCropPreview(
+                  FieldRegionService.getHeaderRegion(
+                    editedData.ヘッダー,
+                    '作業時間',
+                    pageImageSizes[headerPage] ?? null,
+                    formTemplate.layout
+                  ),
+                  '作業時間',
+                  headerPage
+                )}
               </Box>
             )}
           </Box>
         </CardContent>
       </Card>
 
+      {/* 失敗した作業者がいる場合の警告メッセージ */}
+      {failedWorkers.length > 0 && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          <Typography variant="body1" sx={{ fontWeight: 600, mb: 1 }}>
+            以下の作業者のシートが見つかりませんでした：
+          </Typography>
+          <Typography variant="body2">
+            {failedWorkers.join('、')}
+          </Typography>
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            正しい名前に修正して、再度保存してください。
+          </Typography>
+        </Alert>
+      )}
+
+      {/* 作業記録（用紙テンプレートの表ごと） */}
+      {formTemplate.sections.map(renderRecordSection)}
+
       {/* アクションボタン */}
       <Box sx={{ display: 'flex', gap: 2, mt: 3, mx: 'auto' }}>
         <Button
@@ -2183,35 +2010,24 @@ const ConfirmationPage: React.FC = () => {
           以下の作業者が重複しています：
         </DialogContentText>
         
-        {duplicateInfo?.packaging && duplicateInfo.packaging.length > 0 && (
-          <Box sx={{ mb: 2 }}>
-            <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
-              【包装作業記録】
-            </Typography>
-            <Box sx={{ pl: 2 }}>
-              {duplicateInfo.packaging.map((name, index) => (
-                <Typography key={index} variant="body2" sx={{ mb: 0.5 }}>
-                  • {name} ({editedData?.包装作業記録.filter(r => r.氏名 === name).length}回)
-                </Typography>
-              ))}
-            </Box>
-          </Box>
-        )}
-        
-        {duplicateInfo?.machine && duplicateInfo.machine.length > 0 && (
-          <Box sx={{ mb: 2 }}>
-            <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
-              【機械操作記録】
-            </Typography>
-            <Box sx={{ pl: 2 }}>
-              {duplicateInfo.machine.map((name, index) => (
-                <Typography key={index} variant="body2" sx={{ mb: 0.5 }}>
-                  • {name} ({editedData?.機械操作記録.filter(r => r.氏名 === name).length}回)
-                </Typography>
-              ))}
+        {formTemplate.sections.map(section => {
+          const names = duplicateInfo?.[section.key] || [];
+          if (names.length === 0) return null;
+          return (
+            <Box key={section.key} sx={{ mb: 2 }}>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+                【{section.label}】
+              </Typography>
+              <Box sx={{ pl: 2 }}>
+                {names.map((name, index) => (
+                  <Typography key={index} variant="body2" sx={{ mb: 0.5 }}>
+                    • {name} ({editedData.記録[section.key]?.filter(r => r.氏名 === name).length}回)
+                  </Typography>
+                ))}
+              </Box>
             </Box>
-          </Box>
-        )}
+          );
+        })}
         
         <Box sx={{ mt: 2, p: 2, bgcolor: 'info.light', borderRadius: 1 }}>
           <Typography variant="body2" color="info.dark">
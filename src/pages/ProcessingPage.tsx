@@ -11,27 +11,83 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
+  Chip,
+  Stack,
 } from '@mui/material';
+import { Close } from '@mui/icons-material';
 import { useAppStore } from '@/stores/appStore';
-import { OpenAIOcrService } from '@/services/ocrService';
+import { OcrProviderRegistry, OcrProvider } from '@/services/ocrProvider';
 import { DataCorrectionService } from '@/services/dataCorrectionService';
+import { OcrMergeService } from '@/services/ocrMergeService';
+import { OcrRereadService } from '@/services/ocrRereadService';
+import { ImagePreprocessService } from '@/services/imagePreprocessService';
 import { GoogleSheetsService } from '@/services/googleSheetsService';
+import { WorkDateService } from '@/services/workDateService';
+import { FORM_TEMPLATES, getFormTemplate } from '@/templates/formTemplates';
+import { OcrJobQueue } from '@/services/ocrJobQueue';
+import { FormTemplate, OcrJobState, OcrJobStatus, OcrPageFailure } from '@/types';
+import { EnvironmentValidator } from '@/utils/envConfig';
 import { log } from '@/utils/logger';
+import { isAbortError, throwIfAborted } from '@/utils/abort';
+
+const JOB_STATUS_LABELS: Record<OcrJobStatus, string> = {
+  queued: '待機中',
+  running: '読み取り中',
+  done: '完了',
+  failed: '失敗',
+};
+
+const JOB_STATUS_COLORS: Record<OcrJobStatus, 'default' | 'primary' | 'success' | 'error'> = {
+  queued: 'default',
+  running: 'primary',
+  done: 'success',
+  failed: 'error',
+};
+
+// 画像の用紙テンプレートを決定（自動判定できない場合は標準の作業記録簿）
+const resolveFormTemplate = async (
+  formTemplateId: string,
+  provider: OcrProvider,
+  image: string,
+  signal: AbortSignal
+): Promise<FormTemplate> => {
+  if (formTemplateId !== 'auto' || !provider.detectFormTemplate) {
+    return getFormTemplate(formTemplateId);
+  }
+  try {
+    const detectedId = await provider.detectFormTemplate(image, FORM_TEMPLATES, signal);
+    log.debug('用紙の種類を判定', { detectedId });
+    return getFormTemplate(detectedId ?? undefined);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    log.warn('用紙の種類を判定できなかったため、標準の作業記録簿として読み取ります', error);
+    return getFormTemplate();
+  }
+};
 
 const ProcessingPage: React.FC = () => {
   const navigate = useNavigate();
   const {
     capturedImage,
+    formTemplateId,
+    forceOcrRefresh,
+    setForceOcrRefresh,
+    setPreprocessedImages,
     setOcrResult,
+    setOcrFailures,
+    setPendingResults,
     setCurrentStep,
     error,
     setError,
     setIsProcessing,
+    resetData,
   } = useAppStore();
 
   const [progress, setProgress] = useState(0);
   const [statusMessage, setStatusMessage] = useState('処理を開始しています...');
   const [errorDialogOpen, setErrorDialogOpen] = useState(false);
+  // 画像ごとの処理状態（複数枚の場合に表示）
+  const [jobStates, setJobStates] = useState<OcrJobState[]>([]);
 
   // 画像がない場合はカメラページに戻る
   useEffect(() => {
@@ -45,6 +101,24 @@ const ProcessingPage: React.FC = () => {
   // OCR処理状態を管理
   const [hasProcessed, setHasProcessed] = useState(false);
   const processingRef = useRef(false); // React Strict Mode対応
+  // 処理中のキャンセル（キャンセルボタンで中断する）
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isMountedRef = useRef(false);
+
+  // 画面を離れた場合は読み取りを中断する
+  // React Strict Modeの再マウントでは中断しないよう、マウントし直されなかった場合のみ中断する
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      const abortController = abortControllerRef.current;
+      setTimeout(() => {
+        if (!isMountedRef.current) {
+          abortController?.abort();
+        }
+      }, 0);
+    };
+  }, []);
 
   // 実際のOCR処理
   useEffect(() => {
@@ -57,6 +131,9 @@ const ProcessingPage: React.FC = () => {
       // React Strict Mode での重複実行を防ぐ
       if (processingRef.current) return;
       processingRef.current = true;
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const { signal } = abortController;
       
       setIsProcessing(true);
       setCurrentStep(2);
@@ -80,50 +157,109 @@ const ProcessingPage: React.FC = () => {
             return;
           }
 
-        // OpenAI Vision APIでOCR処理（複数枚は並列処理）
+        // 画像の前処理（傾き・コントラスト補正等、Web Workerで順番に実行）
+        setStatusMessage('画像を補正中...');
+        setProgress(8);
+        const sourceImages = Array.isArray(capturedImage) ? capturedImage : [capturedImage];
+        const preprocessed = [];
+        for (const image of sourceImages) {
+          throwIfAborted(signal);
+          preprocessed.push(await ImagePreprocessService.preprocess(image));
+        }
+        throwIfAborted(signal);
+        setPreprocessedImages(preprocessed);
+        const images = preprocessed.map(result => result.image);
+
+        // 設定されたOCRプロバイダーで処理（複数枚は同時実行数を制限したキューで処理）
         setStatusMessage('画像を分析中...');
         setProgress(10);
+        const ocrProvider = OcrProviderRegistry.getProvider();
+        // 確認画面で「もう一度読み取る」を選んだ場合はキャッシュを使わない
+        const ocrOptions = { forceRefresh: forceOcrRefresh, signal };
+        setForceOcrRefresh(false);
+
+        // 用紙の種類は画像ごとに1回だけ判定する（読み取りの再試行では判定し直さない）
+        const templates: FormTemplate[] = [];
+        for (const image of images) {
+          templates.push(await resolveFormTemplate(formTemplateId, ocrProvider, image, signal));
+        }
+        throwIfAborted(signal);
+
+        const { concurrency, maxRetries } = EnvironmentValidator.getOcrQueueConfig();
+        const imageProgress = images.map(() => 0);
+        setJobStates(images.map(() => ({ status: 'queued', attempt: 0, progress: 0 })));
+        log.info(`${images.length}枚の画像を処理開始`, { concurrency });
+
+        const outcomes = await OcrJobQueue.run(
+          images.map((image, index) => (reportProgress: (progress: number, message: string) => void) =>
+            ocrProvider.processImage(image, reportProgress, templates[index], ocrOptions)
+          ),
+          {
+            concurrency,
+            maxRetries,
+            signal,
+            onStateChange: (index, state) => {
+              if (signal.aborted) return;
+              imageProgress[index] = state.progress;
+              const overallProgress = Math.round(10 + (imageProgress.reduce((total, value) => total + value, 0) / images.length) * 0.75);
+              if (state.message) {
+                onProgress(overallProgress, images.length > 1 ? `${index + 1}/${images.length}: ${state.message}` : state.message);
+              } else {
+                setProgress(overallProgress);
+              }
+              setJobStates(current => current.map((jobState, jobIndex) => (jobIndex === index ? state : jobState)));
+            },
+          }
+        );
 
-        let ocrResults: any[] = [];
-
-        if (Array.isArray(capturedImage)) {
-          // 複数画像の場合は並列処理
-          log.info(`${capturedImage.length}枚の画像を並列処理開始`);
-          const progressPerImage = 75 / capturedImage.length;
-
-          const results = await Promise.all(
-            capturedImage.map((image, index) =>
-              OpenAIOcrService.processImage(image, (progress, message) => {
-                const overallProgress = 10 + (index * progressPerImage) + (progress / 100 * progressPerImage);
-                onProgress(overallProgress, `${index + 1}/${capturedImage.length}: ${message}`);
-              })
-            )
-          );
-          ocrResults = results;
-          log.info('すべての画像の並列処理が完了');
-        } else {
-          // 単一画像の場合は従来通り
-          const result = await OpenAIOcrService.processImage(capturedImage, onProgress);
-          ocrResults = [result];
+        // 失敗した画像は除外して続行（すべて失敗した場合はエラー）
+        const succeeded = outcomes.flatMap((outcome, index) =>
+          outcome.status === 'done' ? [{ index, result: outcome.result }] : []
+        );
+        const failures: OcrPageFailure[] = outcomes.flatMap((outcome, index) =>
+          outcome.status === 'failed'
+            ? [{ pageIndex: index, message: outcome.error instanceof Error ? outcome.error.message : String(outcome.error) }]
+            : []
+        );
+        if (succeeded.length === 0) {
+          const firstFailure = outcomes[0];
+          throw firstFailure.status === 'failed' ? firstFailure.error : new Error('画像を読み取れませんでした。');
+        }
+        if (failures.length > 0) {
+          log.warn(`${failures.length}枚の画像を読み取れませんでした`, failures);
         }
+        const ocrResults = succeeded.map(page => page.result);
+        const pageIndices = succeeded.map(page => page.index);
 
         // データ補正処理
         setStatusMessage('データを補正中...');
         setProgress(95);
         const correctedResults = await Promise.all(
-          ocrResults.map(result => DataCorrectionService.correctOcrResult(result))
+          ocrResults.map(result => DataCorrectionService.correctOcrResult(result, signal))
         );
 
-        // 複数の結果をマージするか、最初の結果を使用
-        const correctedResult = correctedResults[0];
-        
-        // デフォルトの作業日を今日の日付に設定
-                  if (!correctedResult.ヘッダー.作業日 || correctedResult.ヘッダー.作業日 === 'undefined') {
-            const today = new Date();
-            const formattedDate = `${today.getFullYear()}/${(today.getMonth() + 1).toString().padStart(2, '0')}/${today.getDate().toString().padStart(2, '0')}`;
-            correctedResult.ヘッダー.作業日 = formattedDate;
-            log.info('作業日を今日の日付に設定', formattedDate);
-          }
+        // 氏名・時刻を読み取れなかった行を切り出して再読み取り
+        setStatusMessage('読み取りにくい行を再確認中...');
+        setProgress(96);
+        for (let i = 0; i < correctedResults.length; i++) {
+          correctedResults[i] = await OcrRereadService.rereadUncertainRows(
+            correctedResults[i],
+            images[pageIndices[i]],
+            ocrProvider,
+            (_, message) => setStatusMessage(
+              images.length > 1 ? `${pageIndices[i] + 1}/${images.length}: ${message}` : message
+            ),
+            signal
+          );
+        }
+        throwIfAborted(signal);
+
+        // 用紙の日付を正規化してから、同じ記録簿の画像を統合（日付・商品が異なる画像は別の記録として後で確認）
+        const uploadDate = new Date();
+        const [correctedResult, ...otherResults] = OcrMergeService.mergePages(
+          correctedResults.map(result => WorkDateService.normalizeOcrDate(result, uploadDate)),
+          pageIndices
+        ).map(result => WorkDateService.reconcile(result, uploadDate)); // 日付がない場合は撮影日を設定し、食い違いを確認待ちにする
 
         // プログレス完了
         setProgress(100);
@@ -131,13 +267,27 @@ const ProcessingPage: React.FC = () => {
 
         // 結果をストアに保存
         setOcrResult(correctedResult);
+        setPendingResults(otherResults);
+        setOcrFailures(failures);
         
         // 短い遅延の後に確認画面に遷移
         setTimeout(() => {
-          navigate('/confirmation');
+          if (isMountedRef.current) {
+            navigate('/confirmation');
+          }
         }, 1000);
 
       } catch (error) {
+          // キャンセルした場合は読み取り途中のデータを破棄して撮影画面に戻る（画面を離れた場合は遷移しない）
+          if (signal.aborted || isAbortError(error)) {
+            log.info('読み取りをキャンセルしました');
+            resetData();
+            if (isMountedRef.current) {
+              navigate('/camera');
+            }
+            return;
+          }
+
           log.error('OCR処理エラー:', error);
           
           let errorMessage = '画像の処理中にエラーが発生しました。';
@@ -163,11 +313,12 @@ const ProcessingPage: React.FC = () => {
         setIsProcessing(false);
         // 処理完了後にフラグをリセット（エラー時の再試行を可能にする）
         processingRef.current = false;
+        abortControllerRef.current = null;
       }
     };
 
     processImage();
-  }, [capturedImage, hasProcessed, error, navigate, setOcrResult, setCurrentStep, setError, setIsProcessing]);
+  }, [capturedImage, formTemplateId, forceOcrRefresh, hasProcessed, error, navigate, setForceOcrRefresh, setPreprocessedImages, setOcrResult, setOcrFailures, setPendingResults, setCurrentStep, setError, setIsProcessing, resetData]);
 
   // エラーが発生したらダイアログを開く
   useEffect(() => {
@@ -176,6 +327,12 @@ const ProcessingPage: React.FC = () => {
     }
   }, [error]);
 
+  // 読み取りをキャンセル（処理中のリクエストを中断し、catchで状態を初期化する）
+  const handleCancel = () => {
+    setStatusMessage('キャンセルしています...');
+    abortControllerRef.current?.abort();
+  };
+
   // エラーダイアログを閉じる
   const handleCloseErrorDialog = () => {
     setErrorDialogOpen(false);
@@ -283,6 +440,26 @@ const ProcessingPage: React.FC = () => {
         <Typography variant="body2" color="text.secondary">
           {progress}% 完了
         </Typography>
+
+        {jobStates.length > 1 && (
+          <Stack spacing={1} sx={{ mt: 2, textAlign: 'left' }}>
+            {jobStates.map((jobState, index) => (
+              <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="body2" sx={{ minWidth: 48 }}>{index + 1}枚目</Typography>
+                <Chip
+                  label={JOB_STATUS_LABELS[jobState.status] + (jobState.attempt > 1 ? `（${jobState.attempt}回目）` : '')}
+                  color={JOB_STATUS_COLORS[jobState.status]}
+                  size="small"
+                />
+                {jobState.message && (
+                  <Typography variant="caption" color={jobState.status === 'failed' ? 'error' : 'text.secondary'} noWrap>
+                    {jobState.message}
+                  </Typography>
+                )}
+              </Box>
+            ))}
+          </Stack>
+        )}
       </Paper>
 
       <Paper>
@@ -295,6 +472,16 @@ const ProcessingPage: React.FC = () => {
         <Typography variant="body2" color="text.secondary">
           手書きの文字を認識し、データを整理しています。
         </Typography>
+        <Button
+          variant="outlined"
+          color="inherit"
+          startIcon={<Close />}
+          onClick={handleCancel}
+          disabled={progress >= 100}
+          sx={{ mt: 2 }}
+        >
+          キャンセル
+        </Button>
       </Paper>
     </Box>
   );
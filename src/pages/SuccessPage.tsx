@@ -8,12 +8,14 @@ import {
   Button,
   Avatar,
 } from '@mui/material';
-import { CheckCircle, CameraAlt, OpenInNew } from '@mui/icons-material';
+import { CheckCircle, CameraAlt, OpenInNew, NavigateNext } from '@mui/icons-material';
 import { useAppStore } from '@/stores/appStore';
+import { getFormTemplate } from '@/templates/formTemplates';
 
 const SuccessPage: React.FC = () => {
   const navigate = useNavigate();
-  const { setCurrentStep, resetData } = useAppStore();
+  const { setCurrentStep, resetData, pendingResults, startNextPendingResult, ocrResult } = useAppStore();
+  const template = getFormTemplate(ocrResult?.formTemplateId);
 
   useEffect(() => {
     setCurrentStep(4);
@@ -24,6 +26,13 @@ const SuccessPage: React.FC = () => {
     navigate('/camera');
   };
 
+  // 同時に撮影した別の記録を確認
+  const handleNextResult = () => {
+    if (startNextPendingResult()) {
+      navigate('/confirmation');
+    }
+  };
+
   const handleOpenSpreadsheet = () => {
     // TODO: 実際のスプレッドシートURLを開く
     const spreadsheetUrl = `https://docs.google.com/spreadsheets/d/${import.meta.env.VITE_SPREADSHEET_ID}/edit`;
@@ -81,12 +90,11 @@ const SuccessPage: React.FC = () => {
             <Typography variant="body2" sx={{ mb: 1 }}>
               ✅ 基本情報を抽出しました
             </Typography>
-            <Typography variant="body2" sx={{ mb: 1 }}>
-              ✅ 包装作業記録を処理しました
-            </Typography>
-            <Typography variant="body2" sx={{ mb: 1 }}>
-              ✅ 機械操作記録を処理しました
-            </Typography>
+            {template.sections.map(section => (
+              <Typography key={section.key} variant="body2" sx={{ mb: 1 }}>
+                ✅ {section.label}を処理しました
+              </Typography>
+            ))}
             <Typography variant="body2">
               ✅ スプレッドシートに保存しました
             </Typography>
@@ -94,10 +102,33 @@ const SuccessPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {pendingResults.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            日付または商品が異なる記録があと{pendingResults.length}件あります
+          </Typography>
+          <Button
+            variant="contained"
+            size="large"
+            color="secondary"
+            onClick={handleNextResult}
+            startIcon={<NavigateNext />}
+            sx={{ minWidth: '200px' }}
+          >
+            次の記録を確認する
+          </Button>
+        </Box>
+      )}
+
       <Button
-        variant="contained"
+        variant={pendingResults.length > 0 ? 'outlined' : 'contained'}
         size="large"
-        onClick={handleNewCapture}
+        onClick={() => {
+          if (pendingResults.length > 0 && !window.confirm('未確認の記録は破棄されます。新しく撮影しますか？')) {
+            return;
+          }
+          handleNewCapture();
+        }}
         startIcon={<CameraAlt />}
         sx={{ minWidth: '200px' }}
       >
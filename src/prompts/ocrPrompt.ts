@@ -1,3 +1,6 @@
+/**
+ * 作業記録簿OCRプロンプト v2（セル情報あり）
+ */
 export const OCR_PROMPT = `
 あなたは業務用の高度なOCRエンジンです。
 次の画像は作業現場で使われる「作業記録簿」の手書き記入用紙です。
@@ -34,6 +37,12 @@ export const OCR_PROMPT = `
    
    【重要】同じ従業員が同じ日に複数回機械操作を行っている場合は、通常の開始時刻・終了時刻・生産数に加えて、「時刻リスト」配列を追加してください。時刻リストには各勤務時間を個別のオブジェクトとして格納します。
 
+4. セル情報（各項目の読み取り信頼度と位置）
+   ヘッダー、各行、時刻リストの各要素に「セル情報」オブジェクトを追加してください。
+   - キーは項目名（ヘッダー：工場名・商品名・作業時間、各行：氏名・開始時刻・終了時刻・昼休み・中休み・生産数、時刻リスト：開始時刻・終了時刻）
+   - "信頼度"：0〜1の数値（はっきり読める＝0.9以上、推測を含む＝0.5前後、ほとんど読めない＝0.2以下）
+   - "領域"：[x, y, 幅, 高さ]（画像の左上を原点とし、画像の幅・高さに対する0〜1の比率で小数第3位まで）
+
 【出力形式サンプル】
 
 \`\`\`json
@@ -41,7 +50,12 @@ export const OCR_PROMPT = `
   "ヘッダー": {
     "工場名": "第一場",
     "商品名": "11250プラスチック",
-    "作業時間": "8:00-17:00"
+    "作業時間": "8:00-17:00",
+    "セル情報": {
+      "工場名": { "信頼度": 0.95, "領域": [0.120, 0.040, 0.180, 0.030] },
+      "商品名": { "信頼度": 0.85, "領域": [0.420, 0.040, 0.250, 0.030] },
+      "作業時間": { "信頼度": 0.9, "領域": [0.760, 0.040, 0.180, 0.030] }
+    }
   },
   "包装作業記録": [
     {
@@ -52,7 +66,15 @@ export const OCR_PROMPT = `
         "昼休み": true,
         "中休み": true
       },
-      "生産数": "400"
+      "生産数": "400",
+      "セル情報": {
+        "氏名": { "信頼度": 0.8, "領域": [0.050, 0.150, 0.200, 0.035] },
+        "開始時刻": { "信頼度": 0.95, "領域": [0.260, 0.150, 0.120, 0.035] },
+        "終了時刻": { "信頼度": 0.6, "領域": [0.390, 0.150, 0.120, 0.035] },
+        "昼休み": { "信頼度": 0.9, "領域": [0.520, 0.150, 0.060, 0.035] },
+        "中休み": { "信頼度": 0.9, "領域": [0.590, 0.150, 0.060, 0.035] },
+        "生産数": { "信頼度": 0.7, "領域": [0.670, 0.150, 0.150, 0.035] }
+      }
     },
     {
       "氏名": "野沢真紀",
@@ -119,15 +141,28 @@ export const OCR_PROMPT = `
 
 判別が難しい場合は "不明" または null で出力してください。
 
+セル情報の信頼度は、値を推測で補った場合や文字がかすれている場合は低く出力してください。
+
 機械操作記録の「生産数」は、その表の全従業員に同じ値を記載してください。
 
 他の項目はこれまで通り、読み取った内容をできるだけ正確に記載してください。
 `;
 
-export const OCR_MODEL = 'gpt-5-mini-2025-08-07'; 
+/**
+ * 読み取りにくい行を切り出して再読み取りするプロンプト
+ */
+export const buildRegionRereadPrompt = (fields: string[]): string => `
+次の画像は「作業記録簿」の表から1行分を切り出したものです。
+手書きの文字を1文字ずつ丁寧に確認し、次の項目を読み取ってください：${fields.join('、')}
+
+- 氏名は漢字で記載されている通りに出力してください（推測で補わないでください）
+- 時刻は24時間表記の "HH:MM" 形式で出力してください（例: 8:30 → "08:30"）
+- 読み取れない項目は null を出力してください
+- 各項目の読み取りの確かさを「信頼度」に0〜1で出力してください
 
-export const OCR_CONFIG = {
-  model: OCR_MODEL,
-  max_tokens: 4000,
-  temperature: 0.0, // 一貫性のため低く設定
-};
\ No newline at end of file
+次のJSONのみを出力してください：
+{
+${fields.map(field => `  "${field}": "..."`).join(',\n')},
+  "信頼度": { ${fields.map(field => `"${field}": 0.0`).join(', ')} }
+}
+`;
@@ -0,0 +1,129 @@
+/**
+ * 作業記録簿OCRプロンプト v1（セル情報なし）
+ * 問題があった場合にロールバックできるよう、公開時の内容のまま保存する
+ */
+export const OCR_PROMPT_V1 = `
+あなたは業務用の高度なOCRエンジンです。
+次の画像は作業現場で使われる「作業記録簿」の手書き記入用紙です。
+画像内の文字をできるだけ正確に読み取り、下記の構造にそってテーブルデータとして抽出してください。
+
+【取得する項目】
+
+1. ヘッダー情報
+   - 工場名
+   - 商品名
+   - 作業時間
+
+2. 包装作業記録（1人1行のテーブル）
+   以下のカラムを持つテーブル形式でまとめてください：
+   - 氏名
+   - 開始時刻
+   - 終了時刻
+   - 休憩（チェックボックスごとにtrue/falseで出力）
+     例：
+     "昼休み": true, "中休み": true
+   - 生産数
+   
+   【重要】同じ従業員が同じ日に複数回出勤している場合は、通常の開始時刻・終了時刻・生産数に加えて、「時刻リスト」配列を追加してください。時刻リストには各勤務時間を個別のオブジェクトとして格納します。
+
+3. 機械操作の記録（下部の表）
+   以下のカラムを持つテーブル形式でまとめてください：
+   - 氏名
+   - 開始時刻
+   - 終了時刻
+   - 休憩（チェックボックスごとにtrue/falseで出力）
+     例：
+     "昼休み": true, "中休み": true
+   - 生産数（この表のすべての従業員は同じ生産数を記入してください）
+   
+   【重要】同じ従業員が同じ日に複数回機械操作を行っている場合は、通常の開始時刻・終了時刻・生産数に加えて、「時刻リスト」配列を追加してください。時刻リストには各勤務時間を個別のオブジェクトとして格納します。
+
+【出力形式サンプル】
+
+\`\`\`json
+{
+  "ヘッダー": {
+    "工場名": "第一場",
+    "商品名": "11250プラスチック",
+    "作業時間": "8:00-17:00"
+  },
+  "包装作業記録": [
+    {
+      "氏名": "土橋舞子",
+      "開始時刻": "8:00",
+      "終了時刻": "15:20",
+      "休憩": {
+        "昼休み": true,
+        "中休み": true
+      },
+      "生産数": "400"
+    },
+    {
+      "氏名": "野沢真紀",
+      "開始時刻": "8:15",
+      "終了時刻": "13:10",
+      "休憩": {
+        "昼休み": true,
+        "中休み": false
+      },
+      "生産数": "500",
+      "時刻リスト": [
+        {
+          "開始時刻": "8:15",
+          "終了時刻": "13:10"
+        },
+        {
+          "開始時刻": "15:00",
+          "終了時刻": "17:30"
+        }
+      ]
+    }
+  ],
+  "機械操作記録": [
+    {
+      "氏名": "野沢真紀",
+      "開始時刻": "13:45",
+      "終了時刻": "17:45",
+      "休憩": {
+        "昼休み": false,
+        "中休み": true
+      },
+      "生産数": "1400"
+    },
+    {
+      "氏名": "土橋舞子",
+      "開始時刻": "8:30",
+      "終了時刻": "12:00",
+      "休憩": {
+        "昼休み": false,
+        "中休み": true
+      },
+      "生産数": "1400",
+      "時刻リスト": [
+        {
+          "開始時刻": "8:30",
+          "終了時刻": "12:00"
+        },
+        {
+          "開始時刻": "13:30",
+          "終了時刻": "15:45"
+        }
+      ]
+    }
+  ]
+}
+\`\`\`
+
+【注意事項】
+
+蛍光ペンで記載された内容は一切読み取らず、データには含めないでください。
+
+
+休憩の欄は、用紙内の各チェックボックスごとにtrue/false（ON/OFF）で必ず出力してください。
+
+判別が難しい場合は "不明" または null で出力してください。
+
+機械操作記録の「生産数」は、その表の全従業員に同じ値を記載してください。
+
+他の項目はこれまで通り、読み取った内容をできるだけ正確に記載してください。
+`;
@@ -0,0 +1,151 @@
+import { FormTemplate } from '@/types';
+import { STANDARD_FORM_TEMPLATE } from '@/templates/formTemplates';
+import { EnvironmentValidator } from '@/utils/envConfig';
+import { log } from '@/utils/logger';
+import { OCR_PROMPT, buildRegionRereadPrompt } from './ocrPrompt';
+import { OCR_PROMPT_V1 } from './ocrPromptV1';
+import { buildTemplatePrompt } from './templatePrompt';
+
+/**
+ * OCRリクエストに使用するプロンプトとパラメーターの組
+ * 公開済みのバージョンは内容を変更せず、新しいバージョンとして追加する
+ */
+export interface OcrPromptDefinition {
+  /** バージョン名（OcrResult.promptVersion に記録される） */
+  readonly version: string;
+  /** 変更内容の説明 */
+  readonly description: string;
+  readonly model: string;
+  /** 用紙テンプレートに対応するプロンプト */
+  readonly buildPrompt: (template: FormTemplate) => string;
+  /** 対応する用紙テンプレートのID（未設定はすべてのテンプレートに対応） */
+  readonly templateIds?: string[];
+  readonly maxTokens: number;
+  readonly temperature: number;
+  /** 行の再読み取りに使用するプロンプト */
+  readonly rereadPrompt: (fields: string[]) => string;
+  readonly rereadMaxTokens: number;
+}
+
+const DEFAULT_PROMPT_VERSION = 'worklog-v4';
+// 選択中のバージョンが用紙テンプレートに対応していない場合に使用するバージョン
+const TEMPLATE_PROMPT_VERSION = 'worklog-v4';
+// 実行時にバージョンを切り替える場合の保存先（環境変数より優先）
+const OVERRIDE_STORAGE_KEY = 'ocr_prompt_version';
+
+/**
+ * OCRプロンプトのバージョン管理
+ * VITE_OCR_PROMPT_VERSION または setOverride() で使用するバージョンを選択する
+ */
+export class OcrPromptRegistry {
+  private static definitions = new Map<string, OcrPromptDefinition>([
+    ['worklog-v1', {
+      version: 'worklog-v1',
+      description: '初期版（セル情報なし）',
+      model: 'gpt-5-mini-2025-08-07',
+      buildPrompt: () => OCR_PROMPT_V1,
+      templateIds: [STANDARD_FORM_TEMPLATE.id],
+      maxTokens: 3000,
+      temperature: 0.1,
+      rereadPrompt: buildRegionRereadPrompt,
+      rereadMaxTokens: 300,
+    }],
+    ['worklog-v2', {
+      version: 'worklog-v2',
+      description: 'セル単位の信頼度・領域を追加',
+      model: 'gpt-5-mini-2025-08-07',
+      buildPrompt: () => OCR_PROMPT,
+      templateIds: [STANDARD_FORM_TEMPLATE.id],
+      maxTokens: 4000, // セル情報を含むため、トークン数を増やしてJSONの途中切断を防止
+      temperature: 0.0, // 一貫性のため低く設定
+      rereadPrompt: buildRegionRereadPrompt,
+      rereadMaxTokens: 300,
+    }],
+    ['worklog-v3', {
+      version: 'worklog-v3',
+      description: '用紙テンプレートからプロンプトを生成',
+      model: 'gpt-5-mini-2025-08-07',
+      buildPrompt: template => buildTemplatePrompt(template),
+      maxTokens: 4000,
+      temperature: 0.0,
+      rereadPrompt: buildRegionRereadPrompt,
+      rereadMaxTokens: 300,
+    }],
+    ['worklog-v4', {
+      version: 'worklog-v4',
+      description: '用紙に記入された作業日を読み取り',
+      model: 'gpt-5-mini-2025-08-07',
+      buildPrompt: template => buildTemplatePrompt(template, { readWorkDate: true }),
+      maxTokens: 4000,
+      temperature: 0.0,
+      rereadPrompt: buildRegionRereadPrompt,
+      rereadMaxTokens: 300,
+    }],
+  ]);
+
+  /**
+   * プロンプトを登録（同じバージョン名の場合は上書き）
+   */
+  static register(definition: OcrPromptDefinition): void {
+    this.definitions.set(definition.version, definition);
+  }
+
+  /**
+   * 登録済みバージョンの一覧
+   */
+  static getAvailableVersions(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * 選択中のプロンプトを取得
+   * 未登録のバージョンが指定された場合は既定のバージョン、
+   * 用紙テンプレートに対応していない場合はテンプレートから生成するバージョンを使用する
+   */
+  static getActive(template: FormTemplate = STANDARD_FORM_TEMPLATE): OcrPromptDefinition {
+    const requested = this.getOverride() || EnvironmentValidator.getOcrPromptVersion() || DEFAULT_PROMPT_VERSION;
+    let definition = this.definitions.get(requested);
+    if (!definition) {
+      log.warn('未登録のプロンプトバージョンが指定されました。既定のバージョンを使用します', {
+        requested,
+        fallback: DEFAULT_PROMPT_VERSION
+      });
+      definition = this.definitions.get(DEFAULT_PROMPT_VERSION)!;
+    }
+
+    if (definition.templateIds && !definition.templateIds.includes(template.id)) {
+      log.debug('プロンプトが用紙テンプレートに対応していないため切り替えます', {
+        version: definition.version,
+        template: template.id,
+        fallback: TEMPLATE_PROMPT_VERSION
+      });
+      definition = this.definitions.get(TEMPLATE_PROMPT_VERSION)!;
+    }
+
+    return definition;
+  }
+
+  /**
+   * 実行時に使用するバージョンを切り替え（nullで環境変数の設定に戻す）
+   */
+  static setOverride(version: string | null): void {
+    if (version === null) {
+      localStorage.removeItem(OVERRIDE_STORAGE_KEY);
+      log.info('プロンプトバージョンの切り替えを解除しました');
+      return;
+    }
+    if (!this.definitions.has(version)) {
+      throw new Error(`未登録のプロンプトバージョンです: ${version}`);
+    }
+    localStorage.setItem(OVERRIDE_STORAGE_KEY, version);
+    log.info('プロンプトバージョンを切り替えました', { version });
+  }
+
+  static getOverride(): string | null {
+    try {
+      return localStorage.getItem(OVERRIDE_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { FormColumnTemplate, FormSectionTemplate, FormTemplate } from '@/types';
+
+/**
+ * 列の出力例の値
+ */
+const sampleValue = (column: FormColumnTemplate): string => {
+  switch (column.kind) {
+    case 'name':
+      return '"山田太郎"';
+    case 'startTime':
+      return '"8:00"';
+    case 'endTime':
+      return '"17:00"';
+    case 'checkboxes':
+      return `{ ${column.checkboxes.map((checkbox, index) => `"${checkbox.label}": ${index === 0}`).join(', ')} }`;
+    case 'count':
+      return '"400"';
+    case 'text':
+      return '"..."';
+  }
+};
+
+/**
+ * 表の1行分の出力例
+ */
+const buildSampleRecord = (section: FormSectionTemplate, indent: string): string => {
+  const lines = section.columns.map(column => `"${column.label}": ${sampleValue(column)}`);
+
+  const cellKeys = section.columns.flatMap(column =>
+    column.kind === 'checkboxes' ? column.checkboxes.map(checkbox => checkbox.label) : [column.label]
+  );
+  const cells = cellKeys.map(key => `"${key}": { "信頼度": 0.9, "領域": [0.050, 0.150, 0.200, 0.035] }`);
+  lines.push(`"セル情報": {\n${indent}    ${cells.join(`,\n${indent}    `)}\n${indent}  }`);
+
+  return `${indent}{\n${indent}  ${lines.join(`,\n${indent}  `)}\n${indent}}`;
+};
+
+/**
+ * 列の説明
+ */
+const describeColumn = (column: FormColumnTemplate): string => {
+  if (column.kind === 'checkboxes') {
+    const labels = column.checkboxes.map(checkbox => `"${checkbox.label}"`).join('、');
+    return `   - ${column.label}（チェックボックスごとにtrue/falseで出力：${labels}）`;
+  }
+  if ((column.kind === 'count' || column.kind === 'text') && column.shared) {
+    return `   - ${column.label}（この表の全従業員に同じ値を記載してください）`;
+  }
+  return `   - ${column.label}`;
+};
+
+/**
+ * 用紙テンプレートからOCRプロンプトを生成
+ * 表・列・チェックボックスの名前は用紙上の表記を使用し、応答のキーにもそのまま使用する
+ * @param options.readWorkDate 用紙に記入された作業日も読み取る
+ */
+export const buildTemplatePrompt = (
+  template: FormTemplate,
+  options: { readWorkDate?: boolean } = {}
+): string => {
+  const headerFields: string[] = options.readWorkDate ? ['作業日', ...template.headerFields] : [...template.headerFields];
+  const checkboxLabels = Array.from(new Set(
+    template.sections.flatMap(section => section.columns.filter(column => column.kind === 'checkboxes').map(column => column.label))
+  ));
+
+  const sectionDescriptions = template.sections.map((section, index) => {
+    const lines = [
+      `${index + 2}. ${section.label}（1人1行のテーブル）`,
+      '   以下のカラムを持つテーブル形式でまとめてください：',
+      ...section.columns.map(describeColumn),
+    ];
+    if (section.columns.some(column => column.kind === 'startTime')) {
+      lines.push(
+        '',
+        '   【重要】同じ従業員が同じ日に複数回作業している場合は、通常の開始時刻・終了時刻に加えて、「時刻リスト」配列を追加してください。時刻リストには各勤務時間を個別のオブジェクトとして格納します。'
+      );
+    }
+    return lines.join('\n');
+  });
+
+  const headerCells = headerFields
+    .map(field => `"${field}": { "信頼度": 0.9, "領域": [0.100, 0.040, 0.200, 0.030] }`)
+    .join(',\n      ');
+  const sample = [
+    '{',
+    '  "ヘッダー": {',
+    ...headerFields.map(field => `    "${field}": "${field === '作業日' ? '10月18日' : '...'}",`),
+    `    "セル情報": {\n      ${headerCells}\n    }`,
+    '  },',
+    template.sections
+      .map(section => `  "${section.label}": [\n${buildSampleRecord(section, '    ')}\n  ]`)
+      .join(',\n'),
+    '}',
+  ].join('\n');
+
+  return `
+あなたは業務用の高度なOCRエンジンです。
+次の画像は作業現場で使われる「${template.name}」の手書き記入用紙です。
+画像内の文字をできるだけ正確に読み取り、下記の構造にそってテーブルデータとして抽出してください。
+
+【取得する項目】
+
+1. ヘッダー情報
+${headerFields.map(field => `   - ${field}`).join('\n')}
+
+${sectionDescriptions.join('\n\n')}
+
+${template.sections.length + 2}. セル情報（各項目の読み取り信頼度と位置）
+   ヘッダー、各行、時刻リストの各要素に「セル情報」オブジェクトを追加してください。
+   - キーは項目名${checkboxLabels.length > 0 ? `（${checkboxLabels.join('・')}はチェックボックスの表記）` : ''}
+   - "信頼度"：0〜1の数値（はっきり読める＝0.9以上、推測を含む＝0.5前後、ほとんど読めない＝0.2以下）
+   - "領域"：[x, y, 幅, 高さ]（画像の左上を原点とし、画像の幅・高さに対する0〜1の比率で小数第3位まで）
+
+【出力形式サンプル】
+
+\`\`\`json
+${sample}
+\`\`\`
+
+【注意事項】
+
+蛍光ペンで記載された内容は一切読み取らず、データには含めないでください。
+
+表のキーは「${template.sections.map(section => section.label).join('」「')}」を使用してください。
+
+${checkboxLabels.length > 0 ? `${checkboxLabels.join('・')}の欄は、用紙内の各チェックボックスごとにtrue/false（ON/OFF）で必ず出力してください。\n` : ''}
+判別が難しい場合は "不明" または null で出力してください。
+${options.readWorkDate ? `
+作業日は用紙に記入された日付を、令和・月日などの書き方も含めて記載のとおりに出力してください。日付の記入がない場合は null を出力し、撮影日などで補わないでください。
+` : ''}
+セル情報の信頼度は、値を推測で補った場合や文字がかすれている場合は低く出力してください。
+`;
+};
+
+/**
+ * 撮影画像がどの用紙か判定するプロンプト
+ */
+export const buildFormDetectionPrompt = (templates: FormTemplate[]): string => `
+次の画像は作業現場の手書き記入用紙です。以下のどの用紙か判定してください。
+
+${templates.map(template => `- ${template.id}: ${template.name}（用紙上の文言の例：${template.keywords.join('、')}）`).join('\n')}
+
+次のJSONのみを出力してください（どれにも当てはまらない場合は null）：
+{ "id": "${templates[0]?.id ?? ''}" }
+`;
@@ -0,0 +1,143 @@
+import { log } from '@/utils/logger';
+import { toMatchKey } from '@/utils/textNormalization';
+import { CorrectionMemoryService } from './correctionMemoryService';
+
+/**
+ * 見た目が似ている文字の組と置換コスト（0〜1、省略時は DEFAULT_COST）
+ * 手書きで読み間違えやすい組ほどコストを低くする
+ */
+const DEFAULT_CONFUSABLE_PAIRS: [string, string, number?][] = [
+  // 漢字
+  ['土', '士', 0.3], ['未', '末', 0.3], ['日', '曰', 0.3], ['日', '目'], ['己', '已', 0.3], ['已', '巳', 0.3],
+  ['人', '入'], ['大', '太'], ['太', '犬'], ['田', '由'], ['由', '甲'], ['甲', '申'], ['千', '干'], ['干', '于'],
+  ['木', '本'], ['刀', '力'], ['天', '夫'], ['王', '玉'], ['王', '主'], ['白', '自'], ['石', '右'], ['宇', '字'],
+  ['若', '苦'], ['間', '問'], ['治', '冶'], ['幸', '辛'], ['代', '伐'], ['候', '侯'], ['待', '持'], ['崎', '埼'],
+  ['島', '鳥'], ['斉', '斎'], ['輪', '輸'], ['綱', '網'], ['績', '積'], ['折', '析'], ['貝', '見'], ['沢', '択'],
+  // カタカナ
+  ['ソ', 'ン', 0.3], ['シ', 'ツ', 0.3], ['ウ', 'ワ'], ['ク', 'ケ'], ['ワ', 'フ'], ['ラ', 'ヲ'], ['チ', 'テ'],
+  ['ヌ', 'ス'], ['メ', 'ナ'], ['ノ', 'ソ'], ['ユ', 'コ'], ['ル', 'レ'],
+  // カタカナ・ひらがなと漢字・記号
+  ['ロ', '口', 0.2], ['エ', '工', 0.2], ['カ', '力', 0.2], ['ニ', '二', 0.2], ['ハ', '八', 0.2], ['タ', '夕', 0.2],
+  ['ト', '卜', 0.2], ['ー', '一', 0.2], ['ヘ', 'へ', 0.2], ['ベ', 'べ', 0.2], ['ペ', 'ぺ', 0.2], ['リ', 'り', 0.3],
+  // 英数字
+  ['0', 'O', 0.2], ['0', 'o', 0.3], ['1', 'l', 0.3], ['1', 'I', 0.3], ['5', 'S', 0.3], ['2', 'Z', 0.3],
+  ['8', 'B', 0.3], ['6', 'b', 0.4], ['9', 'q', 0.4], ['7', 'T', 0.5],
+];
+
+/**
+ * 読み間違えやすい文字の表（文字の置換コスト）
+ * 既定の表に、補正の学習データ（読み取った値と確定した値の差分）から見つかった組を追加して使用する
+ */
+export class CharacterConfusionService {
+  // 既定の組でコストを省略した場合の置換コスト
+  private static readonly DEFAULT_COST = 0.4;
+  // 学習データから見つかった組の置換コスト（補正の回数が増えるほど下げる）
+  private static readonly LEARNED_BASE_COST = 0.6;
+  private static readonly LEARNED_MIN_COST = 0.2;
+  // 差分の文字数がこれを超える補正は、読み間違いではなく別の値への修正とみなして学習しない
+  private static readonly MAX_LEARNED_SUBSTITUTIONS = 2;
+
+  private static defaultTable: Map<string, number> | null = null;
+  private static learnedTable: Map<string, number> | null = null;
+  private static learnedRevision = -1;
+
+  /**
+   * 2文字の置換コスト（同じ文字は0、表にない組は1）
+   */
+  static getSubstitutionCost(a: string, b: string): number {
+    if (a === b) return 0;
+    const key = this.pairKey(a, b);
+    return Math.min(this.getDefaultTable().get(key) ?? 1, this.getLearnedTable().get(key) ?? 1);
+  }
+
+  /**
+   * 学習データから見つかった組（置換コストの低い順）
+   */
+  static getLearnedPairs(): { pair: [string, string]; cost: number }[] {
+    return Array.from(this.getLearnedTable().entries())
+      .map(([key, cost]) => ({ pair: Array.from(key) as [string, string], cost }))
+      .sort((a, b) => a.cost - b.cost);
+  }
+
+  private static getDefaultTable(): Map<string, number> {
+    if (!this.defaultTable) {
+      this.defaultTable = new Map(
+        DEFAULT_CONFUSABLE_PAIRS.map(([a, b, cost]) => [this.pairKey(a, b), cost ?? this.DEFAULT_COST])
+      );
+    }
+    return this.defaultTable;
+  }
+
+  /**
+   * 補正の学習データから読み間違えた文字の組を集計（学習データが変わった場合のみ作り直す）
+   */
+  private static getLearnedTable(): Map<string, number> {
+    const revision = CorrectionMemoryService.getRevision();
+    if (this.learnedTable && this.learnedRevision === revision) {
+      return this.learnedTable;
+    }
+
+    const counts = new Map<string, number>();
+    CorrectionMemoryService.getEntries().forEach(entry => {
+      const substitutions = this.findSubstitutions(entry.original, toMatchKey(entry.corrected));
+      if (substitutions.length === 0 || substitutions.length > this.MAX_LEARNED_SUBSTITUTIONS) return;
+      substitutions.forEach(([a, b]) => {
+        const key = this.pairKey(a, b);
+        counts.set(key, (counts.get(key) ?? 0) + entry.count);
+      });
+    });
+
+    this.learnedTable = new Map(Array.from(counts.entries(), ([key, count]) => [
+      key,
+      Math.max(this.LEARNED_MIN_COST, this.LEARNED_BASE_COST - (count - 1) * 0.1),
+    ]));
+    this.learnedRevision = revision;
+    log.debug('読み間違えやすい文字の表を更新', { learned: this.learnedTable.size });
+    return this.learnedTable;
+  }
+
+  /**
+   * 2つの文字列を対応付け、置き換わった文字の組を抽出（挿入・削除は対象外）
+   */
+  private static findSubstitutions(from: string, to: string): [string, string][] {
+    const source = Array.from(from);
+    const target = Array.from(to);
+    const matrix = Array.from({ length: source.length + 1 }, (_, i) =>
+      Array.from({ length: target.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+    for (let i = 1; i <= source.length; i++) {
+      for (let j = 1; j <= target.length; j++) {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1),
+        );
+      }
+    }
+
+    // 末尾から対応をたどる
+    const substitutions: [string, string][] = [];
+    let i = source.length;
+    let j = target.length;
+    while (i > 0 && j > 0) {
+      const same = source[i - 1] === target[j - 1];
+      if (matrix[i][j] === matrix[i - 1][j - 1] + (same ? 0 : 1)) {
+        if (!same) substitutions.push([source[i - 1], target[j - 1]]);
+        i--;
+        j--;
+      } else if (matrix[i][j] === matrix[i - 1][j] + 1) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    return substitutions;
+  }
+
+  /**
+   * 組の順序によらないキー
+   */
+  private static pairKey(a: string, b: string): string {
+    return a < b ? a + b : b + a;
+  }
+}
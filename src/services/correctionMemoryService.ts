@@ -0,0 +1,251 @@
+import { CorrectionMemoryEntry, CorrectionMemoryField, OcrResult } from '@/types';
+import { log } from '@/utils/logger';
+import { toMatchKey } from '@/utils/textNormalization';
+import { getAllRecords } from '@/utils/workerRecords';
+
+type CorrectionPair = Pick<CorrectionMemoryEntry, 'field' | 'original' | 'corrected'>;
+
+/**
+ * 学習データから見つかった補正
+ */
+export interface RememberedCorrection {
+  corrected: string;
+  count: number;
+  confidence: number;
+}
+
+/**
+ * 学習データの整理の条件
+ */
+export interface CorrectionMemoryPruneOptions {
+  /** 保存回数がこの回数未満の組を削除 */
+  minCount?: number;
+  /** 最後の保存からこの日数を超えた組を削除 */
+  olderThanDays?: number;
+}
+
+/**
+ * 補正の学習データ（ローカルストレージ）
+ * 保存時に読み取った値と確定した値の組を記録し、次回以降の補正とOCRプロンプトのヒントに使用する
+ */
+export class CorrectionMemoryService {
+  private static readonly STORAGE_KEY = 'ocr_correction_memory';
+  // 保存する組の上限（最後の保存が古い順に削除）
+  private static readonly MAX_ENTRIES = 500;
+  // 学習データによる補正の信頼度（保存回数が増えるほど高くする）
+  private static readonly BASE_CONFIDENCE = 0.85;
+  private static readonly MAX_CONFIDENCE = 0.98;
+  // OCRプロンプトに含めるヒントの件数
+  private static readonly MAX_PROMPT_NAMES = 20;
+  private static readonly MAX_PROMPT_MISREADS = 15;
+  // 学習データの変更回数（学習データから作る表のキャッシュの判定に使用）
+  private static revision = 0;
+
+  /**
+   * 保存した記録から読み取った値と確定した値の組を学習データに追加
+   * 読み取った値のまま確定した記録（表記ゆれのみの違いを含む）は補正ではないため記録しない
+   * 確認画面で確認不要として表示した自動補正を変更せずに保存した場合も、ユーザーが確認した値ではないため記録しない
+   * （誤った自動補正が学習データに残り、次回以降の補正で繰り返されるのを防ぐ）
+   * @param savedWorkers 保存できた作業者（省略時はすべての記録）
+   */
+  static learnFromResult(result: OcrResult, savedWorkers?: string[]): void {
+    // 保存できた記録がない場合は、再度保存したときに記録する
+    if (savedWorkers && savedWorkers.length === 0) return;
+
+    const pairs: CorrectionPair[] = [];
+    const header = result.ヘッダー;
+    if (header.originalProductName && header.商品名 && !this.isUnchanged(header.autoAcceptedProductName, header.商品名)) {
+      pairs.push({ field: '商品名', original: header.originalProductName, corrected: header.商品名 });
+    }
+    getAllRecords(result).forEach(record => {
+      if (!record.originalName || !record.氏名) return;
+      if (savedWorkers && !savedWorkers.includes(record.氏名)) return;
+      if (this.isUnchanged(record.autoAcceptedName, record.氏名)) return;
+      pairs.push({ field: '氏名', original: record.originalName, corrected: record.氏名 });
+    });
+
+    this.record(pairs.filter(pair => this.normalize(pair.original) !== this.normalize(pair.corrected)));
+  }
+
+  /**
+   * 読み取った値と確定した値の組を追加（同じ組は保存回数を加算）
+   */
+  static record(pairs: CorrectionPair[]): void {
+    if (pairs.length === 0) return;
+
+    const now = new Date().toISOString();
+    const entries = this.getEntries();
+    pairs.forEach(pair => {
+      const original = this.normalize(pair.original);
+      const corrected = pair.corrected.trim();
+      if (!original || !corrected) return;
+
+      const existing = entries.find(entry =>
+        entry.field === pair.field && entry.original === original && entry.corrected === corrected
+      );
+      if (existing) {
+        existing.count++;
+        existing.lastSeenAt = now;
+      } else {
+        entries.push({
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          field: pair.field,
+          original,
+          corrected,
+          count: 1,
+          firstSeenAt: now,
+          lastSeenAt: now,
+        });
+      }
+    });
+
+    this.save(entries);
+    log.debug('補正の学習データを更新', { pairs: pairs.length, entries: entries.length });
+  }
+
+  /**
+   * 読み取った値に対する過去の補正を検索
+   * 同じ値が複数の値に補正されている場合は保存回数の多いほうを使用し、同数の場合は使用しない
+   * @param candidates マスターデータ（削除された従業員・商品への補正は使用しない）
+   */
+  static lookup(field: CorrectionMemoryField, original: string, candidates: string[]): RememberedCorrection | null {
+    const normalized = this.normalize(original);
+    const matches = this.getEntries()
+      .filter(entry => entry.field === field && entry.original === normalized && candidates.includes(entry.corrected))
+      .sort((a, b) => b.count - a.count);
+
+    const [best, second] = matches;
+    if (!best || (second && second.count === best.count)) {
+      return null;
+    }
+
+    const confidence = Math.min(this.MAX_CONFIDENCE, this.BASE_CONFIDENCE + (best.count - 1) * 0.03);
+    return { corrected: best.corrected, count: best.count, confidence };
+  }
+
+  /**
+   * OCRプロンプトに追加するヒント（よく記入される氏名・読み間違えやすい文字）
+   * 学習データがない場合は空文字
+   */
+  static buildPromptHints(): string {
+    const entries = this.getEntries();
+    if (entries.length === 0) return '';
+
+    const nameCounts = new Map<string, number>();
+    entries
+      .filter(entry => entry.field === '氏名')
+      .forEach(entry => nameCounts.set(entry.corrected, (nameCounts.get(entry.corrected) ?? 0) + entry.count));
+    const names = Array.from(nameCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.MAX_PROMPT_NAMES)
+      .map(([name]) => name);
+
+    const misreads = entries
+      .filter(entry => entry.original !== this.normalize(entry.corrected))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, this.MAX_PROMPT_MISREADS);
+
+    const lines: string[] = ['', '【過去の読み取り結果からのヒント】'];
+    if (names.length > 0) {
+      lines.push(`よく記入される氏名: ${names.join('、')}`);
+    }
+    if (misreads.length > 0) {
+      lines.push('過去に読み間違えた例（左が誤った読み取り、右が正しい値）:');
+      misreads.forEach(entry => lines.push(`- ${entry.field}「${entry.original}」→「${entry.corrected}」`));
+    }
+    lines.push('ヒントは判読の参考にとどめ、用紙に記入されていない値を補わないでください。');
+    return lines.join('\n');
+  }
+
+  /**
+   * OCRプロンプトのヒントの識別子（ヒントの内容のハッシュ、ヒントがない場合は空文字）
+   * 読み取り結果に記録し、キャッシュのキーにも含める（学習データが変わった後に以前のヒントでの結果を使用しない）
+   */
+  static async getPromptHintsId(hints: string): Promise<string> {
+    if (!hints) return '';
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(hints));
+    return Array.from(new Uint8Array(digest).slice(0, 6), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 保存済みの学習データ（最後の保存が新しい順）
+   */
+  static getEntries(): CorrectionMemoryEntry[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const entries = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries)
+        ? entries.sort((a: CorrectionMemoryEntry, b: CorrectionMemoryEntry) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+        : [];
+    } catch (error) {
+      log.warn('補正の学習データの読み込みに失敗しました', error);
+      return [];
+    }
+  }
+
+  /**
+   * 指定した組を削除
+   */
+  static remove(id: string): void {
+    this.save(this.getEntries().filter(entry => entry.id !== id));
+  }
+
+  /**
+   * 条件に合う組を削除
+   * @returns 削除した件数
+   */
+  static prune({ minCount, olderThanDays }: CorrectionMemoryPruneOptions): number {
+    const entries = this.getEntries();
+    const threshold = olderThanDays !== undefined ? Date.now() - olderThanDays * 24 * 60 * 60 * 1000 : null;
+    const kept = entries.filter(entry =>
+      (minCount === undefined || entry.count >= minCount)
+      && (threshold === null || new Date(entry.lastSeenAt).getTime() >= threshold)
+    );
+
+    this.save(kept);
+    log.info('補正の学習データを整理しました', { removed: entries.length - kept.length });
+    return entries.length - kept.length;
+  }
+
+  /**
+   * 学習データをすべて削除
+   */
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+    this.revision++;
+    log.info('補正の学習データを削除しました');
+  }
+
+  /**
+   * 学習データの変更回数（変更があった場合のみ増える）
+   */
+  static getRevision(): number {
+    return this.revision;
+  }
+
+  private static save(entries: CorrectionMemoryEntry[]): void {
+    try {
+      const kept = [...entries]
+        .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+        .slice(0, this.MAX_ENTRIES);
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(kept));
+      this.revision++;
+    } catch (error) {
+      log.warn('補正の学習データの保存に失敗しました', error);
+    }
+  }
+
+  /**
+   * 確認不要として表示した値のまま保存したか
+   */
+  private static isUnchanged(autoAccepted: string | undefined, saved: string): boolean {
+    return autoAccepted !== undefined && this.normalize(autoAccepted) === this.normalize(saved);
+  }
+
+  /**
+   * 読み取った値の表記ゆれ（全角・半角、異体字、空白）を揃える
+   */
+  private static normalize(value: string): string {
+    return toMatchKey(value);
+  }
+}
@@ -1,17 +1,38 @@
-import { OcrResult, PackagingRecord, MachineOperationRecord } from '@/types';
-import { FuzzyMatchService } from './fuzzyMatchService';
+import { OcrResult, WorkerRecord, FormSectionTemplate } from '@/types';
+import { FuzzyMatchService, NameMatchOptions } from './fuzzyMatchService';
 import { GoogleSheetsService } from './googleSheetsService';
+import { CorrectionMemoryService } from './correctionMemoryService';
+import { WorkHistoryService } from './workHistoryService';
 import { log } from '@/utils/logger';
+import { getFormTemplate } from '@/templates/formTemplates';
+import { applyCellFlags, isUncertainColumn } from '@/utils/cellMeta';
+import { throwIfAborted } from '@/utils/abort';
+
+// 読み取った値がそのまま照合できた照合方法（学習データによる補正は不要）
+const DIRECT_MATCH_TYPES: NameMatch['type'][] = ['exact', 'alias', 'reading'];
+
+type NameMatch = {
+  match: string | null;
+  confidence: number;
+  type: NonNullable<WorkerRecord['matchType']>;
+  isLastNameMatch?: boolean;
+  ambiguousCandidates?: string[];
+};
 
 /**
  * OCR結果のデータ補正サービス
  */
 export class DataCorrectionService {
+  // 氏名の補正でエラーとみなす信頼度の閾値
+  static readonly NAME_ERROR_CONFIDENCE = 0.4;
+
   /**
    * OCR結果全体を補正
+   * @param signal キャンセル用（マスターデータの取得後に確認する）
    */
-  static async correctOcrResult(ocrResult: OcrResult): Promise<OcrResult> {
+  static async correctOcrResult(ocrResult: OcrResult, signal?: AbortSignal): Promise<OcrResult> {
     const masterData = await GoogleSheetsService.getMasterData();
+    throwIfAborted(signal);
     
     log.process('データ補正開始');
     log.debug('マスターデータ取得完了', {
@@ -20,24 +41,33 @@ export class DataCorrectionService {
     });
     
     // ヘッダー情報の補正
-    const correctedHeader = await this.correctHeader(ocrResult.ヘッダー, masterData.products);
+    const correctedHeader = await this.correctHeader(ocrResult.ヘッダー, masterData.products, masterData.productAliases);
     
-    // 包装作業記録の補正
-    const correctedPackaging = await this.correctPackagingRecords(
-      ocrResult.包装作業記録 || [],
-      masterData.employees
-    );
+    // 氏名の照合に使用する読み・別名と、同じ名字の従業員を並べる手がかり（補正後の商品名・工場名の作業履歴）
+    const nameMatchOptions: NameMatchOptions = {
+      readings: masterData.employeeReadings,
+      aliases: masterData.employeeAliases,
+      context: WorkHistoryService.getContextScores({
+        商品名: correctedHeader.商品名,
+        工場名: correctedHeader.工場名,
+      }),
+    };
     
-    // 機械操作記録の補正
-    const correctedMachine = await this.correctMachineRecords(
-      ocrResult.機械操作記録 || [],
-      masterData.employees
-    );
+    // 用紙テンプレートの表ごとに作業記録を補正
+    const correctedRecords: OcrResult['記録'] = {};
+    getFormTemplate(ocrResult.formTemplateId).sections.forEach(section => {
+      correctedRecords[section.key] = this.correctRecords(
+        section,
+        ocrResult.記録?.[section.key] || [],
+        masterData.employees,
+        nameMatchOptions
+      );
+    });
     
     const correctedResult = {
+      ...ocrResult, // 検証結果・セル領域の基準サイズ等を保持
       ヘッダー: correctedHeader,
-      包装作業記録: correctedPackaging,
-      機械操作記録: correctedMachine
+      記録: correctedRecords
     };
     
     // 補正結果のログ出力（開発環境のみ）
@@ -50,34 +80,68 @@ export class DataCorrectionService {
       });
     }
     
-    // 包装作業者の補正結果
-    if (correctedPackaging.length > 0) {
-      log.debug('包装作業者名補正完了', { count: correctedPackaging.length });
-      correctedPackaging.forEach((record, index) => {
-        log.dev(`包装作業者${index + 1}: ${record.originalName || record.氏名} → ${record.氏名} (${Math.round((record.confidence || 0) * 100)}%)`);
-      });
-    }
-    
-    // 機械操作者の補正結果
-    if (correctedMachine.length > 0) {
-      log.debug('機械操作者名補正完了', { count: correctedMachine.length });
-      correctedMachine.forEach((record, index) => {
-        log.dev(`機械操作者${index + 1}: ${record.originalName || record.氏名} → ${record.氏名} (${Math.round((record.confidence || 0) * 100)}%)`);
+    // 作業者名の補正結果
+    Object.entries(correctedRecords).forEach(([section, records]) => {
+      if (records.length === 0) return;
+      log.debug('作業者名補正完了', { section, count: records.length });
+      records.forEach((record, index) => {
+        log.dev(`${section}${index + 1}: ${record.originalName || record.氏名} → ${record.氏名} (${Math.round((record.confidence || 0) * 100)}%)`);
       });
-    }
+    });
     
     return correctedResult;
   }
 
+  /**
+   * 氏名の照合（完全一致・別名・読みで照合できない場合は過去に同じ読み取りを補正した学習データを優先し、ない場合は曖昧一致）
+   * 同じ名字の従業員が複数一致する場合は、学習データがあっても確認が必要なため曖昧一致の結果を返す
+   * @param options 管理シートの読み・別名（かなで書かれた氏名・あだ名の照合に使用）と作業の手がかり
+   */
+  private static matchName(name: string, employees: string[], options?: NameMatchOptions): NameMatch {
+    const fuzzyMatch = FuzzyMatchService.findBestMatch(name, employees, options);
+    if (fuzzyMatch.ambiguousCandidates) {
+      log.warn('同じ名字の従業員が複数該当', { candidates: fuzzyMatch.ambiguousCandidates.length });
+      return fuzzyMatch;
+    }
+    if (DIRECT_MATCH_TYPES.includes(fuzzyMatch.type)) {
+      return fuzzyMatch;
+    }
+
+    const remembered = CorrectionMemoryService.lookup('氏名', name, employees);
+    if (remembered) {
+      log.dev(`学習データで氏名を補正: ${name} → ${remembered.corrected}（${remembered.count}回）`);
+      return { match: remembered.corrected, confidence: remembered.confidence, type: 'memory', isLastNameMatch: false };
+    }
+    return fuzzyMatch;
+  }
+
+  /**
+   * 商品名の照合（完全一致・別名で照合できない場合は学習データを優先し、ない場合は曖昧一致）
+   * @param aliases 商品名 → 別名（別名シート）
+   */
+  private static matchProduct(product: string, products: string[], aliases?: Record<string, string[]>): NameMatch {
+    const fuzzyMatch = FuzzyMatchService.findBestProductMatch(product, products, aliases);
+    if (DIRECT_MATCH_TYPES.includes(fuzzyMatch.type)) {
+      return fuzzyMatch;
+    }
+
+    const remembered = CorrectionMemoryService.lookup('商品名', product, products);
+    if (remembered) {
+      log.dev(`学習データで商品名を補正: ${product} → ${remembered.corrected}（${remembered.count}回）`);
+      return { match: remembered.corrected, confidence: remembered.confidence, type: 'memory' };
+    }
+    return fuzzyMatch;
+  }
+
   /**
    * ヘッダー情報の補正
    */
-  private static async correctHeader(header: any, products: string[]): Promise<any> {
+  private static async correctHeader(header: any, products: string[], aliases?: Record<string, string[]>): Promise<any> {
     const correctedHeader = { ...header };
     
     // 商品名の補正（必ず最も近い商品を選択）
     if (header.商品名) {
-      const productMatch = FuzzyMatchService.findBestProductMatch(header.商品名, products);
+      const productMatch = this.matchProduct(header.商品名, products, aliases);
       
       if (productMatch.match) {
         correctedHeader.商品名 = productMatch.match;
@@ -107,20 +171,22 @@ export class DataCorrectionService {
   }
 
   /**
-   * 包装作業記録の補正
+   * 作業記録の補正
    */
-  private static async correctPackagingRecords(
-    records: PackagingRecord[],
-    employees: string[]
-  ): Promise<PackagingRecord[]> {
+  private static correctRecords(
+    section: FormSectionTemplate,
+    records: WorkerRecord[],
+    employees: string[],
+    nameMatchOptions?: NameMatchOptions
+  ): WorkerRecord[] {
     return records.map(record => {
       const correctedRecord = { ...record };
       
       // 氏名の補正（優先度付きマッチング）
       // スプレッドシートに記載されている人しかいない前提で必ず最も近い人を選択
       if (record.氏名) {
-        const nameMatch = FuzzyMatchService.findBestMatch(record.氏名, employees);
-        log.dev(`包装作業マッチング: ${record.氏名} → ${nameMatch.match} (${Math.round((nameMatch.confidence || 0) * 100)}%)`);
+        const nameMatch = this.matchName(record.氏名, employees, nameMatchOptions);
+        log.dev(`${section.label}マッチング: ${record.氏名} → ${nameMatch.match} (${Math.round((nameMatch.confidence || 0) * 100)}%)`);
         
         if (nameMatch.match) {
           // 元の名前を記録（補正結果の表示用）
@@ -129,11 +195,13 @@ export class DataCorrectionService {
           correctedRecord.confidence = nameMatch.confidence;
           correctedRecord.matchType = nameMatch.type;
           correctedRecord.isLastNameMatch = nameMatch.isLastNameMatch;
+          correctedRecord.ambiguousCandidates = nameMatch.ambiguousCandidates;
           
           // 信頼度が低い場合はエラーフラグを設定
-          if (nameMatch.confidence < 0.4) {
+          if (nameMatch.confidence < this.NAME_ERROR_CONFIDENCE) {
             correctedRecord.nameError = true;
-            log.warn('包装作業者名マッチング信頼度が低い', {
+            log.warn('作業者名マッチング信頼度が低い', {
+              section: section.label,
               confidence: Math.round(nameMatch.confidence * 100)
             });
           }
@@ -144,57 +212,20 @@ export class DataCorrectionService {
           correctedRecord.confidence = 0;
           correctedRecord.matchType = 'no_match';
           correctedRecord.nameError = true;
-          log.warn('包装作業者名マッチング失敗 - エラーフラグ設定');
+          log.warn('作業者名マッチング失敗 - エラーフラグ設定', { section: section.label });
         }
       }
       
-      return correctedRecord;
-    });
-  }
-
-  /**
-   * 機械操作記録の補正
-   */
-  private static async correctMachineRecords(
-    records: MachineOperationRecord[],
-    employees: string[]
-  ): Promise<MachineOperationRecord[]> {
-    return records.map(record => {
-      const correctedRecord = { ...record };
-      
-      // 氏名の補正（優先度付きマッチング）
-      // スプレッドシートに記載されている人しかいない前提で必ず最も近い人を選択
-      if (record.氏名) {
-        const nameMatch = FuzzyMatchService.findBestMatch(record.氏名, employees);
-        log.dev(`機械操作マッチング: ${record.氏名} → ${nameMatch.match} (${Math.round((nameMatch.confidence || 0) * 100)}%)`);
-        
-        if (nameMatch.match) {
-          // 元の名前を記録（補正結果の表示用）
-          correctedRecord.originalName = record.氏名;
-          correctedRecord.氏名 = nameMatch.match;
-          correctedRecord.confidence = nameMatch.confidence;
-          correctedRecord.matchType = nameMatch.type;
-          correctedRecord.isLastNameMatch = nameMatch.isLastNameMatch;
-          
-          // 信頼度が低い場合はエラーフラグを設定
-          if (nameMatch.confidence < 0.4) {
-            correctedRecord.nameError = true;
-            log.warn('機械操作者名マッチング信頼度が低い', {
-              confidence: Math.round(nameMatch.confidence * 100)
-            });
-          }
-        } else {
-          // マッチが見つからない場合（信頼度0%）
-          correctedRecord.originalName = record.氏名;
-          correctedRecord.氏名 = record.氏名; // 元の名前をそのまま使用
-          correctedRecord.confidence = 0;
-          correctedRecord.matchType = 'no_match';
-          correctedRecord.nameError = true;
-          log.warn('機械操作者名マッチング失敗 - エラーフラグ設定');
-        }
+      // 時刻の読み取り信頼度が低い場合はエラーフラグを設定（その他の列はセル単位で確認を促す）
+      const flaggedRecord = applyCellFlags(correctedRecord);
+      const uncertainColumns = section.columns
+        .filter(column => column.kind !== 'name' && isUncertainColumn(flaggedRecord, column))
+        .map(column => column.label);
+      if (uncertainColumns.length > 0) {
+        log.warn(`${section.label}に読み取り信頼度の低い項目あり`, { columns: uncertainColumns });
       }
       
-      return correctedRecord;
+      return flaggedRecord;
     });
   }
 }
\ No newline at end of file
@@ -0,0 +1,144 @@
+import {
+  CellRegion,
+  FormLayout,
+  FormSectionTemplate,
+  HeaderCellKey,
+  HeaderInfo,
+  TimeSlotCellKey,
+  WorkerRecord,
+} from '@/types';
+import { DEFAULT_FORM_LAYOUT } from '@/templates/formLayout';
+import { getSectionCellKeys } from '@/templates/formTemplates';
+import { getTimeSlotCell } from '@/utils/cellMeta';
+
+type ImageSize = { width: number; height: number };
+
+/**
+ * 確認画面の各項目に対応する元画像上の領域を求めるサービス
+ * OCR結果のセル領域を優先し、ない場合は用紙レイアウトから推定する
+ */
+export class FieldRegionService {
+  /**
+   * 記録の読み取り元の画像番号
+   */
+  static getRecordPage(record: WorkerRecord): number {
+    return record.sourcePage ?? 0;
+  }
+
+  /**
+   * 時刻スロットの読み取り元の画像番号（別の画像から統合した時刻の場合はその画像）
+   */
+  static getTimeSlotPage(record: WorkerRecord, slotIndex: number): number {
+    return record.時刻リスト?.[slotIndex]?.sourcePage ?? this.getRecordPage(record);
+  }
+
+  /**
+   * ヘッダー項目の領域
+   */
+  static getHeaderRegion(
+    header: HeaderInfo,
+    key: HeaderCellKey,
+    imageSize: ImageSize | null,
+    layout: FormLayout = DEFAULT_FORM_LAYOUT
+  ): CellRegion | null {
+    const cellRegion = header.cells?.[key]?.region;
+    if (cellRegion) return cellRegion;
+
+    const layoutRegion = layout.header[key];
+    return layoutRegion && imageSize ? this.toPixels(layoutRegion, imageSize) : null;
+  }
+
+  /**
+   * 作業記録の項目の領域（keyは列のkey、チェックボックスはチェックボックスのkey）
+   */
+  static getRecordRegion(
+    record: WorkerRecord,
+    section: FormSectionTemplate,
+    key: string,
+    imageSize: ImageSize | null,
+    layout: FormLayout = DEFAULT_FORM_LAYOUT
+  ): CellRegion | null {
+    const cellRegion = record.cells?.[key]?.region;
+    if (cellRegion) return cellRegion;
+
+    return this.getLayoutRegion(record, section, key, imageSize, layout);
+  }
+
+  /**
+   * 作業記録の行全体の領域（各項目の領域を囲む範囲）
+   */
+  static getRowRegion(
+    record: WorkerRecord,
+    section: FormSectionTemplate,
+    imageSize: ImageSize | null,
+    layout: FormLayout = DEFAULT_FORM_LAYOUT
+  ): CellRegion | null {
+    const regions = getSectionCellKeys(section)
+      .map(key => this.getRecordRegion(record, section, key, imageSize, layout))
+      .filter((region): region is CellRegion => !!region);
+    if (regions.length === 0) return null;
+
+    const left = Math.min(...regions.map(region => region.x));
+    const top = Math.min(...regions.map(region => region.y));
+    const right = Math.max(...regions.map(region => region.x + region.width));
+    const bottom = Math.max(...regions.map(region => region.y + region.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * 時刻スロットの領域（セル領域がない場合は記録の行の時刻欄）
+   */
+  static getTimeSlotRegion(
+    record: WorkerRecord,
+    section: FormSectionTemplate,
+    slotIndex: number,
+    field: TimeSlotCellKey,
+    imageSize: ImageSize | null,
+    layout: FormLayout = DEFAULT_FORM_LAYOUT
+  ): CellRegion | null {
+    const cellRegion = getTimeSlotCell(record, slotIndex, field)?.region;
+    if (cellRegion) return cellRegion;
+
+    // 別の画像から統合した時刻は、その画像での行番号を使用
+    const slot = record.時刻リスト?.[slotIndex];
+    const rowRecord = slot?.sourcePage !== undefined ? { ...record, sourceRow: slot.sourceRow } : record;
+    return this.getLayoutRegion(rowRecord, section, field, imageSize, layout);
+  }
+
+  /**
+   * レイアウトから行・列の位置を推定（OCRで読み取った行のみ）
+   */
+  private static getLayoutRegion(
+    record: WorkerRecord,
+    section: FormSectionTemplate,
+    key: string,
+    imageSize: ImageSize | null,
+    layout: FormLayout
+  ): CellRegion | null {
+    if (record.sourceRow === undefined || !imageSize) return null;
+
+    const sectionLayout = layout.sections[section.key];
+    const column = sectionLayout?.columns[key];
+    if (!sectionLayout || !column) return null;
+
+    const y = sectionLayout.top + sectionLayout.rowHeight * record.sourceRow;
+    if (y + sectionLayout.rowHeight > 1) return null;
+
+    return this.toPixels(
+      { x: column.x, y, width: column.width, height: sectionLayout.rowHeight },
+      imageSize
+    );
+  }
+
+  /**
+   * 比率の領域をピクセル座標に変換
+   */
+  private static toPixels(region: CellRegion, imageSize: ImageSize): CellRegion {
+    return {
+      x: Math.round(region.x * imageSize.width),
+      y: Math.round(region.y * imageSize.height),
+      width: Math.round(region.width * imageSize.width),
+      height: Math.round(region.height * imageSize.height),
+    };
+  }
+}
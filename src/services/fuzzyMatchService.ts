@@ -1,3 +1,6 @@
+import { CharacterConfusionService } from './characterConfusionService';
+import { normalizeText, toMatchKey } from '@/utils/textNormalization';
+
 /**
  * 曖昧一致・名字一致サービス
  */
@@ -5,13 +8,42 @@
 interface MatchResult {
   match: string | null;
   confidence: number;
-  type: 'exact' | 'lastname' | 'fuzzy' | 'no_match';
+  type: 'exact' | 'lastname' | 'reading' | 'alias' | 'fuzzy' | 'no_match';
+  isLastNameMatch?: boolean;
+  ambiguousCandidates?: string[];
+}
+
+/**
+ * 氏名の照合に使用する管理シートの情報（省略時は漢字の氏名のみで照合）
+ */
+export interface NameMatchOptions {
+  /** 氏名 → 読み（管理シートのフリガナ列） */
+  readings?: Record<string, string>;
+  /** 氏名 → 別名（別名シート） */
+  aliases?: Record<string, string[]>;
+  /** 氏名 → 作業の手がかりの強さ（0〜1、同じ名字の従業員を並べる順に使用） */
+  context?: Record<string, number>;
+}
+
+/**
+ * 照合の候補（類似度と照合方法）
+ */
+export interface MatchCandidate {
+  match: string;
+  confidence: number;
+  type: Exclude<MatchResult['type'], 'no_match'>;
   isLastNameMatch?: boolean;
+  /** 同じ名字の従業員が複数いるため、どちらか決められない */
+  ambiguous?: boolean;
 }
 
 export class FuzzyMatchService {
+  // 同じ名字の従業員が複数いる場合の信頼度
+  private static readonly AMBIGUOUS_CONFIDENCE = 0.5;
+
   /**
    * レーベンシュタイン距離を計算
+   * 置換のコストは読み間違えやすい文字の組ほど低くする（土/士 等、CharacterConfusionService の表）
    */
   private static calculateLevenshteinDistance(str1: string, str2: string): number {
     const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
@@ -31,7 +63,7 @@ export class FuzzyMatchService {
       Array.from({ length: str1.length }, (_, i) => {
         const rowIndex = j + 1;
         const colIndex = i + 1;
-        const indicator = str1[i] === str2[j] ? 0 : 1;
+        const indicator = CharacterConfusionService.getSubstitutionCost(str1[i], str2[j]);
         
         matrix[rowIndex][colIndex] = Math.min(
           matrix[rowIndex][colIndex - 1] + 1, // 削除
@@ -57,140 +89,236 @@ export class FuzzyMatchService {
   }
 
   /**
-   * 名字を抽出（スペースまたは全角スペースで分割）
+   * 名字を抽出（表記ゆれを揃えてから空白で分割）
    */
   private static extractLastName(fullName: string): string {
-    // スペースまたは全角スペースで分割し、最初の部分を名字として扱う
-    const parts = fullName.split(/[\s　]+/);
-    return parts[0] || fullName;
+    // 最初の部分を名字として扱う
+    const normalized = normalizeText(fullName);
+    return normalized.split(' ')[0] || normalized;
   }
 
   /**
-   * 名字一致を含む曖昧一致検索（優先度付き）
-   * 優先度: 完全一致 > 名字一致 > ファジーマッチング
-   * 必ず最も近い人を返す（スプレッドシートの人しかいない前提）
+   * 候補の氏名のうち、入力の名字と比較する部分
+   * 「土橋 舞子」のように空白で区切られている場合は名字の部分、
+   * 「土橋舞子」のように区切られていない場合は名字の長さが分からないため、入力の名字と同じ文字数の先頭
+   * （名前の部分が残らない場合は氏名全体）
+   * @param inputLastName 入力の名字（extractLastName の結果）
    */
-  static findBestMatch(input: string, candidates: string[]): MatchResult {
-    if (!input || candidates.length === 0) {
-      return { match: null, confidence: 0, type: 'no_match' };
+  private static extractCandidateLastName(candidate: string, inputLastName: string): string {
+    const normalized = normalizeText(candidate);
+    const lastName = this.extractLastName(normalized);
+    if (lastName !== normalized) {
+      return lastName;
     }
+    return normalized.length > inputLastName.length ? normalized.slice(0, inputLastName.length) : normalized;
+  }
 
-    const trimmedInput = input.trim();
+  /**
+   * ひらがな・半角カナをカタカナに揃え、空白と中黒を除去
+   */
+  private static toKatakana(str: string): string {
+    return toMatchKey(str)
+      .replace(/[\u3041-\u3096]/g, match => String.fromCharCode(match.charCodeAt(0) + 0x60))
+      .replace(/・/g, '');
+  }
 
+  /**
+   * 別名のいずれかと一致するか（全角・半角、ひらがな・カタカナ、空白の違いは無視）
+   */
+  private static matchesAlias(input: string, aliases: string[] = []): boolean {
+    const normalizedInput = this.toKatakana(input);
+    return aliases.some(alias => this.toKatakana(alias) === normalizedInput);
+  }
+
+  /**
+   * かなのみで書かれているか（ひらがな・カタカナ・長音記号）
+   */
+  private static isKana(str: string): boolean {
+    return /^[ァ-ヶー]+$/.test(this.toKatakana(str));
+  }
+
+  /**
+   * 氏名の候補1件の照合（全角・半角、異体字、空白の違いは無視）
+   * 優先度: 完全一致 > 別名の一致 > 名字一致 > 読みの一致（かなの入力のみ）> ファジーマッチング
+   * @param input normalizeText で正規化済みの入力
+   * @param reading 候補の読み（管理シートのフリガナ列）
+   * @param aliases 候補の別名（別名シート）
+   */
+  private static scoreName(input: string, candidate: string, reading?: string, aliases?: string[]): MatchCandidate {
     // 1. 完全一致チェック（最優先）
-    const exactMatch = candidates.find(candidate => 
-      candidate.trim() === trimmedInput
-    );
-    if (exactMatch) {
-      return { match: exactMatch, confidence: 1.0, type: 'exact' };
+    const inputKey = toMatchKey(input);
+    const candidateKey = toMatchKey(candidate);
+    if (candidateKey === inputKey) {
+      return { match: candidate, confidence: 1.0, type: 'exact' };
     }
 
-    // 2. 名字一致チェック（苗字のみの入力に対応）
-    const inputLastName = this.extractLastName(trimmedInput);
-    
-    // 名字のみの入力の場合の処理
-    if (trimmedInput === inputLastName) {
-      for (const candidate of candidates) {
-        const candidateLastName = this.extractLastName(candidate);
-        
-        // 名字が完全一致する場合（同じ苗字の人がいないという前提）
-        if (inputLastName === candidateLastName) {
-          return { 
-            match: candidate, 
-            confidence: 0.95, 
-            type: 'lastname',
-            isLastNameMatch: true 
-          };
-        }
+    // 2. 別名（あだ名・略称など）の完全一致
+    if (this.matchesAlias(input, aliases)) {
+      return { match: candidate, confidence: 0.96, type: 'alias' };
+    }
+
+    // 3. 名字一致チェック（名字のみの入力に対応、同じ名字の人が複数いるかは rankMatches で判定）
+    // 管理シートの氏名が空白で区切られていない場合は、氏名の先頭が名字と一致するかで判定する
+    const inputLastName = this.extractLastName(input);
+    const candidateLastName = this.extractCandidateLastName(candidate, inputLastName);
+    if (input === inputLastName && inputLastName === candidateLastName) {
+      return { match: candidate, confidence: 0.95, type: 'lastname', isLastNameMatch: true };
+    }
+
+    // 4. 読みとの照合（ひらがな・カタカナで書かれた氏名に対応）
+    let readingMatch: MatchCandidate | null = null;
+    if (reading && this.isKana(input)) {
+      const inputReading = this.toKatakana(input);
+      const fullReading = this.toKatakana(reading);
+      const lastNameReading = this.toKatakana(this.extractLastName(reading));
+      if (fullReading === inputReading) {
+        return { match: candidate, confidence: 0.97, type: 'reading' };
       }
+      // 名字の読みは、フリガナが「ツチハシ マイコ」のように空白で区切られている場合のみ判定できる
+      if (lastNameReading !== fullReading && lastNameReading === inputReading) {
+        return { match: candidate, confidence: 0.93, type: 'reading', isLastNameMatch: true };
+      }
+      readingMatch = {
+        match: candidate,
+        confidence: Math.max(
+          this.calculateSimilarity(inputReading, fullReading),
+          this.calculateSimilarity(inputReading, lastNameReading) * 0.9
+        ),
+        type: 'reading',
+      };
     }
 
-    // 3. ファジーマッチング（手書き誤字対応）
-    // 必ず最も近い人を返す
-    const findBestFuzzyMatch = (): MatchResult => {
-      return candidates.reduce((bestMatch, candidate) => {
-        // 全体での類似度
-        const fullSimilarity = this.calculateSimilarity(trimmedInput, candidate);
-        
-        // 名字での類似度も考慮
-        const candidateLastName = this.extractLastName(candidate);
-        const lastNameSimilarity = this.calculateSimilarity(inputLastName, candidateLastName);
-        
-        // より高い類似度を採用（名字の類似度を重視）
-        const similarity = Math.max(fullSimilarity, lastNameSimilarity * 0.9);
-        
-        if (similarity > bestMatch.confidence) {
-          return { 
-            match: candidate, 
-            confidence: similarity,
-            type: 'fuzzy' 
-          };
-        }
-        
-        return bestMatch;
-      }, { match: null, confidence: 0, type: 'no_match' } as MatchResult);
-    };
+    // 5. ファジーマッチング（手書き誤字対応、名字の類似度を重視）
+    const similarity = Math.max(
+      this.calculateSimilarity(inputKey, candidateKey),
+      this.calculateSimilarity(inputLastName, candidateLastName) * 0.9
+    );
 
-    // 必ず最も近い人を返す（閾値なし）
-    return findBestFuzzyMatch();
+    // 読みとの類似度のほうが高い場合は読みの一致を採用
+    return readingMatch && readingMatch.confidence > similarity
+      ? readingMatch
+      : { match: candidate, confidence: similarity, type: 'fuzzy' };
   }
 
   /**
-   * 商品名の厳密マッチング（スプレッドシートB列の値のみ許可）
-   * 必ず最も近い商品を返す
+   * 商品名の候補1件の照合（全角・半角、異体字、空白の違いは無視）
+   * @param input normalizeText で正規化済みの入力
    */
-  static findBestProductMatch(input: string, candidates: string[]): MatchResult {
-    if (!input || candidates.length === 0) {
-      return { match: null, confidence: 0, type: 'no_match' };
+  private static scoreProduct(input: string, candidate: string, aliases?: string[]): MatchCandidate {
+    // 1. 完全一致チェック（最優先）
+    const inputKey = toMatchKey(input);
+    const candidateKey = toMatchKey(candidate);
+    if (candidateKey === inputKey) {
+      return { match: candidate, confidence: 1.0, type: 'exact' };
     }
 
-    const trimmedInput = input.trim();
+    // 2. 大文字小文字を無視した完全一致
+    if (candidateKey.toLowerCase() === inputKey.toLowerCase()) {
+      return { match: candidate, confidence: 0.98, type: 'exact' };
+    }
 
-    // 1. 完全一致チェック（最優先）
-    const exactMatch = candidates.find(candidate => 
-      candidate.trim() === trimmedInput
-    );
-    if (exactMatch) {
-      return { match: exactMatch, confidence: 1.0, type: 'exact' };
+    // 3. 別名（略称など）の完全一致
+    if (this.matchesAlias(input, aliases)) {
+      return { match: candidate, confidence: 0.96, type: 'alias' };
     }
 
-    // 2. 大文字小文字を無視した完全一致
-    const caseInsensitiveMatch = candidates.find(candidate => 
-      candidate.trim().toLowerCase() === trimmedInput.toLowerCase()
+    // 4. ファジーマッチング（手書き誤字対応）
+    // 通常の類似度と、カタカナの濁音・半濁音を正規化した類似度の高いほうを採用
+    const regularSimilarity = this.calculateSimilarity(inputKey, candidateKey);
+    const normalizedSimilarity = this.calculateSimilarity(this.normalizeKatakana(inputKey), this.normalizeKatakana(candidateKey));
+    return { match: candidate, confidence: Math.max(regularSimilarity, normalizedSimilarity), type: 'fuzzy' };
+  }
+
+  /**
+   * 候補を類似度の高い順に並べる（類似度が0の候補は除外、入力は表記ゆれを揃えてから照合）
+   */
+  private static rank(
+    input: string,
+    candidates: string[],
+    score: (input: string, candidate: string) => MatchCandidate,
+    limit: number
+  ): MatchCandidate[] {
+    const normalizedInput = normalizeText(input);
+    if (!normalizedInput || candidates.length === 0) {
+      return [];
+    }
+    return candidates
+      .map(candidate => score(normalizedInput, candidate))
+      .filter(candidate => candidate.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+
+  /**
+   * 氏名の候補を類似度の高い順に取得（確認画面の候補表示用）
+   * 名字（または名字の読み）のみの記入に複数の従業員が一致する場合は、その全員を ambiguous として
+   * 作業の手がかりの強い順に先頭へ並べる（limit を超えても全員を含める）
+   * @param limit 取得する候補の数
+   */
+  static rankMatches(input: string, candidates: string[], options: NameMatchOptions = {}, limit = 5): MatchCandidate[] {
+    const { readings = {}, aliases = {}, context = {} } = options;
+    const ranked = this.rank(
+      input,
+      candidates,
+      (normalizedInput, candidate) => this.scoreName(normalizedInput, candidate, readings[candidate], aliases[candidate]),
+      candidates.length
     );
-    if (caseInsensitiveMatch) {
-      return { match: caseInsensitiveMatch, confidence: 0.98, type: 'exact' };
+
+    // 完全一致・別名の一致がある場合は名字が同じ人がいても決められる
+    const surnameMatches = ranked[0]?.isLastNameMatch
+      ? ranked.filter(candidate => candidate.isLastNameMatch && candidate.type !== 'fuzzy')
+      : [];
+    if (surnameMatches.length < 2) {
+      return ranked.slice(0, limit);
     }
 
-    // 3. ファジーマッチング（手書き誤字対応）
-    // 必ず最も近い商品を返す
-    const findBestProductFuzzyMatch = (): MatchResult => {
-      return candidates.reduce((bestMatch, candidate) => {
-        // 通常の類似度
-        const regularSimilarity = this.calculateSimilarity(trimmedInput, candidate);
-        
-        // カタカナの濁音・半濁音を正規化して比較
-        const normalizedInput = this.normalizeKatakana(trimmedInput);
-        const normalizedCandidate = this.normalizeKatakana(candidate);
-        const normalizedSimilarity = this.calculateSimilarity(normalizedInput, normalizedCandidate);
-        
-        // より高い類似度を採用
-        const similarity = Math.max(regularSimilarity, normalizedSimilarity);
-        
-        if (similarity > bestMatch.confidence) {
-          return { 
-            match: candidate, 
-            confidence: similarity,
-            type: 'fuzzy' 
-          };
-        }
-        
-        return bestMatch;
-      }, { match: null, confidence: 0, type: 'no_match' } as MatchResult);
-    };
+    const ambiguous = surnameMatches
+      .map(candidate => ({ ...candidate, confidence: this.AMBIGUOUS_CONFIDENCE, ambiguous: true }))
+      .sort((a, b) => (context[b.match] ?? 0) - (context[a.match] ?? 0));
+    const others = ranked.filter(candidate => !surnameMatches.includes(candidate));
+    return [...ambiguous, ...others].slice(0, Math.max(limit, ambiguous.length));
+  }
+
+  /**
+   * 商品名の候補を類似度の高い順に取得（確認画面の候補表示用）
+   * @param aliases 商品名 → 別名（別名シート）
+   * @param limit 取得する候補の数
+   */
+  static rankProductMatches(
+    input: string,
+    candidates: string[],
+    aliases: Record<string, string[]> = {},
+    limit = 5
+  ): MatchCandidate[] {
+    return this.rank(input, candidates, (normalizedInput, candidate) => this.scoreProduct(normalizedInput, candidate, aliases[candidate]), limit);
+  }
+
+  /**
+   * 名字一致を含む曖昧一致検索（優先度付き）
+   * 優先度: 完全一致 > 別名の一致 > 名字一致 > 読みの一致（かなの入力のみ）> ファジーマッチング
+   * 必ず最も近い人を返す（スプレッドシートの人しかいない前提）
+   * 同じ名字の従業員が複数一致する場合は、手がかりの最も強い人を返し、全員を ambiguousCandidates に含める
+   */
+  static findBestMatch(input: string, candidates: string[], options: NameMatchOptions = {}): MatchResult {
+    const ranked = this.rankMatches(input, candidates, options, 1);
+    const [best] = ranked;
+    if (!best) {
+      return { match: null, confidence: 0, type: 'no_match' };
+    }
+    const { ambiguous, ...result } = best;
+    return ambiguous
+      ? { ...result, ambiguousCandidates: ranked.filter(candidate => candidate.ambiguous).map(candidate => candidate.match) }
+      : result;
+  }
 
-    // 必ず最も近い商品を返す（閾値なし）
-    return findBestProductFuzzyMatch();
+  /**
+   * 商品名の厳密マッチング（スプレッドシートB列の値のみ許可）
+   * 必ず最も近い商品を返す
+   * @param aliases 商品名 → 別名（別名シート）
+   */
+  static findBestProductMatch(input: string, candidates: string[], aliases: Record<string, string[]> = {}): MatchResult {
+    const [best] = this.rankProductMatches(input, candidates, aliases, 1);
+    return best ?? { match: null, confidence: 0, type: 'no_match' };
   }
 
   /**
@@ -1,13 +1,34 @@
-import { OcrResult, MasterDataError, MasterDataErrorType } from '@/types';
+import {
+  OcrResult,
+  MasterDataError,
+  MasterDataErrorType,
+  FormTemplate,
+  FormColumnTemplate,
+  WorkerRecord,
+  OcrUsageEntry,
+  MasterData,
+} from '@/types';
+import { getFormTemplate } from '@/templates/formTemplates';
+import { getWorkPeriod } from '@/utils/workDate';
+import { formatDuration, formatTime, normalizeTime, parseCount, parseDuration, parseTime } from '@/utils/workValues';
+import { normalizeText, toMatchKey } from '@/utils/textNormalization';
+import { getAllRecords } from '@/utils/workerRecords';
 import { EnvironmentValidator } from '@/utils/envConfig';
 import { TokenExpiryService } from './tokenExpiryService';
 import { log } from '@/utils/logger';
 
+// 1人の作業者の表ごとの記録（表に記載がない場合はundefined）
+type WorkerRecords = Record<string, WorkerRecord | undefined>;
+
 /**
  * Google Sheets API を使用したデータ管理サービス
  */
 export class GoogleSheetsService {
   private static config: any = null;
+  private static readonly USAGE_SHEET_NAME = 'usage';
+  private static readonly ALIAS_SHEET_NAME = '別名';
+  // 管理シートで読み（フリガナ）の列とみなす見出し
+  private static readonly MASTER_READING_HEADERS = ['フリガナ', 'ふりがな', 'ヨミガナ', 'よみがな', '読み', 'よみ'];
   private static accessToken: string | null = null;
 
   /**
@@ -86,6 +107,30 @@ export class GoogleSheetsService {
     return this.config;
   }
 
+  /**
+   * Sheets APIのURL（プロキシ使用時はプロキシ経由、スプレッドシートIDとAPIキーはサーバーで付与）
+   * @param path スプレッドシート以下のパス（例: /values/管理!A1:Z）
+   * @param query APIキー以外のクエリ文字列
+   */
+  private static sheetsUrl(path: string, query?: string): string {
+    const proxyUrl = EnvironmentValidator.getApiProxyUrl();
+    if (proxyUrl) {
+      return `${proxyUrl}/api/sheets${path}${query ? `?${query}` : ''}`;
+    }
+    const params = [query, `key=${this.getConfig().googleApiKey}`].filter(Boolean).join('&');
+    return `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}${path}?${params}`;
+  }
+
+  /**
+   * 保存済みのGoogleアクセストークン（APIプロキシの認証に使用、未ログインの場合はnull）
+   */
+  static getAccessToken(): string | null {
+    if (!this.accessToken) {
+      this.loadTokenFromStorage();
+    }
+    return this.accessToken;
+  }
+
   /**
    * デバイス検出
    */
@@ -134,7 +179,10 @@ export class GoogleSheetsService {
       const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
       authUrl.searchParams.set('client_id', config.googleClientId);
       authUrl.searchParams.set('redirect_uri', redirectUri);
-      authUrl.searchParams.set('scope', 'https://www.googleapis.com/auth/spreadsheets');
+      // APIプロキシ使用時は、サーバーで利用者を確認するためメールアドレスも取得
+      const scopes = ['https://www.googleapis.com/auth/spreadsheets'];
+      if (EnvironmentValidator.getApiProxyUrl()) scopes.push('email');
+      authUrl.searchParams.set('scope', scopes.join(' '));
       authUrl.searchParams.set('response_type', 'token');
       authUrl.searchParams.set('include_granted_scopes', 'true');
       authUrl.searchParams.set('state', 'auth_redirect_window');
@@ -320,7 +368,7 @@ export class GoogleSheetsService {
 
     try {
       const response = await this.fetchWithRetry(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}?key=${this.getConfig().googleApiKey}`,
+        this.sheetsUrl(''),
         {
           headers: {
             'Authorization': `Bearer ${this.accessToken}`,
@@ -345,21 +393,8 @@ export class GoogleSheetsService {
    * 例：6月21日～7月20日 → 6月シート、7月21日～8月20日 → 7月シート
    */
   private static calculatePeriodYearMonth(workDate: Date): { year: number; month: number } {
-    const year = workDate.getFullYear();
-    const month = workDate.getMonth() + 1; // 0ベースなので+1
-    const day = workDate.getDate();
-
-    // 1日〜20日は前月扱い（前月の21日〜当月20日の期間に属する）
-    if (day <= 20) {
-      if (month === 1) {
-        return { year: year - 1, month: 12 };
-      } else {
-        return { year, month: month - 1 };
-      }
-    } else {
-      // 21日以降は当月扱い（当月21日〜翌月20日の期間に属する）
-      return { year, month };
-    }
+    const { year, month } = getWorkPeriod(workDate);
+    return { year, month };
   }
 
   /**
@@ -426,13 +461,90 @@ export class GoogleSheetsService {
   }
 
   /**
-   * マスターデータ（従業員・商品一覧）を取得
-   * 管理シートのA2列以降：氏名、B2列以降：商品名から取得（ヘッダー行除外）
+   * 管理シートの見出し行から氏名・商品名・読みの列を判定
+   * 見出しがない場合は従来の位置（A列：氏名、B列：商品名）とし、読みの列は見出しがある場合のみ使用する
+   */
+  private static resolveMasterColumns(header: string[]): { name: number; product: number; reading: number } {
+    const labels = header.map(label => (label || '').trim());
+    const reading = labels.findIndex(label => this.MASTER_READING_HEADERS.includes(label));
+    const name = labels.indexOf('氏名');
+    const product = labels.indexOf('商品名');
+    return {
+      name: name >= 0 ? name : 0,
+      product: product >= 0 ? product : (reading === 1 ? 2 : 1),
+      reading,
+    };
+  }
+
+  /**
+   * 別名シートから従業員・商品の別名を取得
+   * 各行のA列に管理シートの氏名または商品名、B列以降に別名を記入する（1セルに「、」区切りで複数記入も可）
+   * 別名シートがない場合や読み込めない場合は別名なしとして扱う
+   * A列の値は表記ゆれ（全角・半角、異体字、空白）を揃えて管理シートの値と対応付ける
    */
-  static async getMasterData(): Promise<{
-    employees: string[];
-    products: string[];
+  private static async getAliases(employees: string[], products: string[]): Promise<{
+    employeeAliases: Record<string, string[]>;
+    productAliases: Record<string, string[]>;
   }> {
+    const employeeAliases: Record<string, string[]> = {};
+    const productAliases: Record<string, string[]> = {};
+
+    let values: string[][];
+    try {
+      const response = await this.fetchWithRetry(this.sheetsUrl(`/values/${this.ALIAS_SHEET_NAME}!A2:Z`), {
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+        },
+      });
+      if (!response.ok) {
+        log.debug('別名シートを読み込めないため、別名なしで照合します', { status: response.status });
+        return { employeeAliases, productAliases };
+      }
+      const data: { values?: string[][] } = await response.json();
+      values = Array.isArray(data.values) ? data.values : [];
+    } catch (error) {
+      log.warn('別名シートの読み込みに失敗したため、別名なしで照合します', error);
+      return { employeeAliases, productAliases };
+    }
+
+    const employeeKeys = new Map(employees.map(employee => [toMatchKey(employee), employee]));
+    const productKeys = new Map(products.map(product => [toMatchKey(product), product]));
+    // 同じ別名が複数の従業員・商品に登録されている場合の確認用
+    const owners = new Map<string, string>();
+    values.forEach(([name = '', ...cells]) => {
+      const key = toMatchKey(name);
+      const aliases = cells
+        .flatMap(cell => (cell || '').split(/[、,，\n]/))
+        .map(alias => normalizeText(alias))
+        .filter(alias => alias && toMatchKey(alias) !== key);
+      if (!key || aliases.length === 0) return;
+
+      const employee = employeeKeys.get(key);
+      const product = productKeys.get(key);
+      const target = employee ?? product;
+      const table = employee ? employeeAliases : product ? productAliases : null;
+      if (!target || !table) {
+        log.warn(`別名シートの「${name.trim()}」は管理シートにないため無視します`);
+        return;
+      }
+      aliases.forEach(alias => {
+        const owner = owners.get(toMatchKey(alias));
+        if (owner && owner !== target) {
+          log.warn(`別名「${alias}」が「${owner}」と「${target}」の両方に登録されています`);
+        }
+        owners.set(toMatchKey(alias), target);
+      });
+      table[target] = Array.from(new Set([...(table[target] || []), ...aliases]));
+    });
+
+    return { employeeAliases, productAliases };
+  }
+
+  /**
+   * マスターデータ（従業員・商品一覧）を取得
+   * 管理シートの2行目以降から氏名・商品名・読み（フリガナ）を取得（1行目は見出し）
+   */
+  static async getMasterData(): Promise<MasterData> {
     // キャッシュから取得を試行
     const cachedData = await import('./masterDataCache').then(m => m.MasterDataCache.getCachedData());
     if (cachedData) {
@@ -445,8 +557,8 @@ export class GoogleSheetsService {
     log.debug('認証確認完了');
 
     try {
-      // 管理シートからA列とB列を取得（ヘッダー行を除外するため2行目から）
-      const apiUrl = `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}/values/管理!A2:B?key=${this.getConfig().googleApiKey}`;
+      // 管理シートを見出し行から取得（列の位置は見出しで判定）
+      const apiUrl = this.sheetsUrl('/values/管理!A1:Z');
       log.api('マスターデータAPI呼び出し開始');
       
       const masterDataResponse = await fetch(apiUrl, {
@@ -467,28 +579,50 @@ export class GoogleSheetsService {
 
       const masterData = await masterDataResponse.json();
 
-      if (!masterData.values || masterData.values.length === 0) {
+      if (!masterData.values || masterData.values.length <= 1) {
         throw new Error('マスターデータが空です');
       }
 
-      // A列（氏名）とB列（商品名）を分離
-      const employees: string[] = [];
-      const productSet = new Set<string>();
-
-      masterData.values.forEach((row: string[]) => {
-        // A列：氏名
-        if (row[0] && row[0].trim()) {
-          employees.push(row[0].trim());
+      // 氏名・商品名・読みの列を分離
+      const [header, ...rows]: string[][] = masterData.values;
+      const columns = this.resolveMasterColumns(header);
+      // 表記ゆれ（全角・半角、異体字、空白）だけが違う値は同じ従業員・商品とみなし、最初の行の表記を使用する
+      const employeeMap = new Map<string, string>();
+      const employeeReadings: Record<string, string> = {};
+      const productMap = new Map<string, string>();
+
+      rows.forEach(row => {
+        // 氏名（読みは同じ行に記入）
+        const name = row[columns.name]?.trim();
+        if (name) {
+          const key = toMatchKey(name);
+          const existing = employeeMap.get(key);
+          if (existing) {
+            if (existing !== name) {
+              log.warn(`管理シートの「${name}」は「${existing}」と同じ氏名とみなします`);
+            }
+          } else {
+            employeeMap.set(key, name);
+            const reading = columns.reading >= 0 ? normalizeText(row[columns.reading] || '') : '';
+            if (reading) {
+              employeeReadings[name] = reading;
+            }
+          }
         }
-        // B列：商品名
-        if (row[1] && row[1].trim()) {
-          productSet.add(row[1].trim());
+        // 商品名
+        const product = row[columns.product]?.trim();
+        if (product && !productMap.has(toMatchKey(product))) {
+          productMap.set(toMatchKey(product), product);
         }
       });
 
-      const products = Array.from(productSet);
+      const employees = Array.from(employeeMap.values());
+      const products = Array.from(productMap.values());
 
-      const result = { employees, products };
+      // 別名シート（任意）
+      const { employeeAliases, productAliases } = await this.getAliases(employees, products);
+
+      const result: MasterData = { employees, products, employeeReadings, employeeAliases, productAliases };
 
       // キャッシュに保存
       const { MasterDataCache } = await import('./masterDataCache');
@@ -497,6 +631,9 @@ export class GoogleSheetsService {
       log.success('マスターデータを取得しました', {
         employees: employees.length,
         products: products.length,
+        readings: Object.keys(employeeReadings).length,
+        employeeAliases: Object.keys(employeeAliases).length,
+        productAliases: Object.keys(productAliases).length,
       });
       log.debug('従業員データ件数', employees.length);
       log.debug('商品データ件数', products.length);
@@ -588,10 +725,9 @@ export class GoogleSheetsService {
       console.log(`🔍 ${workDate} の既存データをチェック中...`);
       
       // 全作業者のリストを作成
-      const allWorkers = [
-        ...(ocrResult.包装作業記録 || []).map(record => record.氏名),
-        ...(ocrResult.機械操作記録 || []).map(record => record.氏名),
-      ].filter(name => name && name.trim());
+      const allWorkers = getAllRecords(ocrResult)
+        .map(record => record.氏名)
+        .filter(name => name && name.trim());
 
       console.log(`👥 チェック対象作業者: ${allWorkers.join(', ')}`);
 
@@ -636,7 +772,7 @@ export class GoogleSheetsService {
 
       // 該当行のD,E,F,H,J,K,L,N列のデータを取得
       const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}/values/${sheetName}!D${rowIndex}:N${rowIndex}?key=${this.getConfig().googleApiKey}`,
+        this.sheetsUrl(`/values/${sheetName}!D${rowIndex}:N${rowIndex}`),
         {
           headers: {
             'Authorization': `Bearer ${this.accessToken}`,
@@ -679,10 +815,9 @@ export class GoogleSheetsService {
 
     try {
       // 全作業者のリストを作成
-      const allWorkers = [
-        ...(ocrResult.包装作業記録 || []).map(record => record.氏名),
-        ...(ocrResult.機械操作記録 || []).map(record => record.氏名),
-      ].filter(name => name && name.trim());
+      const allWorkers = getAllRecords(ocrResult)
+        .map(record => record.氏名)
+        .filter(name => name && name.trim());
 
       log.process('Google Sheetsへの保存開始');
       log.debug('作業日', ocrResult.ヘッダー.作業日);
@@ -801,21 +936,20 @@ export class GoogleSheetsService {
     
     log.debug('対象シート確定');
     
-    // 作業者の包装作業記録を検索
-    const packagingRecord = ocrResult.包装作業記録.find(record => record.氏名 === workerName);
-    // 作業者の機械操作記録を検索
-    const machineRecord = ocrResult.機械操作記録.find(record => record.氏名 === workerName);
-
-    log.debug('包装作業記録', packagingRecord ? 'あり' : 'なし');
-    log.debug('機械操作記録', machineRecord ? 'あり' : 'なし');
-
-    if (!packagingRecord && !machineRecord) {
+    // 表ごとに作業者の記録を検索
+    const records: WorkerRecords = {};
+    Object.entries(ocrResult.記録 || {}).forEach(([section, sectionRecords]) => {
+      records[section] = sectionRecords.find(record => record.氏名 === workerName);
+      log.debug(section, records[section] ? 'あり' : 'なし');
+    });
+
+    if (Object.values(records).every(record => !record)) {
       log.debug('データがないためスキップ');
       return;
     }
 
     // スプレッドシート構造に従ってデータを保存
-    await this.saveToPersonalSheetStructure(personalSheetName, ocrResult, packagingRecord, machineRecord);
+    await this.saveToPersonalSheetStructure(personalSheetName, ocrResult, records);
     log.debug('作業者データ保存完了');
   }
 
@@ -826,8 +960,7 @@ export class GoogleSheetsService {
   private static async saveToPersonalSheetStructure(
     sheetName: string, 
     ocrResult: OcrResult, 
-    packagingRecord: any, 
-    machineRecord: any
+    records: WorkerRecords
   ): Promise<void> {
     try {
       // 作業日を正規化（M/D形式）
@@ -835,6 +968,9 @@ export class GoogleSheetsService {
       log.debug('シートへの保存処理開始');
       log.debug('正規化された作業日', workDate);
       
+      // 用紙テンプレート（表ごとの書き込む列・休憩時間の定義）
+      const template = getFormTemplate(ocrResult.formTemplateId);
+      
       // 既存データの確認（A列の日付で検索）
       const existingRowIndex = await this.findExistingRowByDate(sheetName, workDate);
       log.debug('既存データ検索結果', existingRowIndex > 0 ? '既存行発見' : '新規データ');
@@ -844,13 +980,13 @@ export class GoogleSheetsService {
       
       if (existingRowIndex > 0) {
         // 既存行の場合：既存データと新規データを統合
-        rowData = await this.createMergedRowData(sheetName, existingRowIndex, ocrResult, packagingRecord, machineRecord, workDate);
-        await this.updatePersonalSheetRow(sheetName, existingRowIndex, rowData);
+        rowData = await this.createMergedRowData(sheetName, existingRowIndex, ocrResult, records, template);
+        await this.updatePersonalSheetRow(sheetName, existingRowIndex, rowData, template);
         log.debug('既存行を更新');
       } else {
         // 新規行の場合：新規データを作成
-        rowData = this.createNewRowData(ocrResult, packagingRecord, machineRecord, workDate);
-        await this.appendPersonalSheetRow(sheetName, rowData);
+        rowData = this.createNewRowData(ocrResult, records, template);
+        await this.appendPersonalSheetRow(sheetName, rowData, template);
         log.debug('新規行を追加');
       }
       
@@ -926,7 +1062,7 @@ export class GoogleSheetsService {
       log.debug('既存行検索開始');
       
       const response = await this.fetchWithRetry(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}/values/${sheetName}!A:A?key=${this.getConfig().googleApiKey}`,
+        this.sheetsUrl(`/values/${sheetName}!A:A`),
         {
           headers: {
             'Authorization': `Bearer ${this.accessToken}`,
@@ -994,7 +1130,7 @@ export class GoogleSheetsService {
   private static async getCurrentRowData(sheetName: string, rowIndex: number): Promise<(string | number)[]> {
     try {
       const response = await fetch(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}/values/${sheetName}!A${rowIndex}:P${rowIndex}?key=${this.getConfig().googleApiKey}`,
+        this.sheetsUrl(`/values/${sheetName}!A${rowIndex}:P${rowIndex}`),
         {
           headers: {
             'Authorization': `Bearer ${this.accessToken}`,
@@ -1029,9 +1165,8 @@ export class GoogleSheetsService {
     sheetName: string,
     existingRowIndex: number,
     ocrResult: OcrResult, 
-    packagingRecord: any, 
-    machineRecord: any, 
-    _workDate: string
+    records: WorkerRecords, 
+    template: FormTemplate
   ): Promise<(string | number)[]> {
     // 既存行のデータを取得
     const existingData = await this.getCurrentRowData(sheetName, existingRowIndex);
@@ -1040,98 +1175,7 @@ export class GoogleSheetsService {
     // ⚠️ A列（日付）は検索専用のため絶対に変更しない
     console.log(`  A列(日付): 既存値 "${existingData[0]}" を保護（変更しません）`);
     
-    // C列: 商品名（新しい値がある場合のみ設定）
-    if (ocrResult.ヘッダー.商品名) {
-      existingData[2] = ocrResult.ヘッダー.商品名;
-      console.log(`  C列(商品名): "${ocrResult.ヘッダー.商品名}" を設定`);
-    }
-    
-    if (packagingRecord) {
-      // 複数区間がある場合は連続労働時間を計算
-      if (packagingRecord.時刻リスト && packagingRecord.時刻リスト.length > 1) {
-        const continuousTime = this.calculateContinuousWorkTime(packagingRecord.時刻リスト);
-        // D列: 開始時刻
-        if (continuousTime.開始時刻) {
-          existingData[3] = continuousTime.開始時刻;
-          console.log(`  D列(包装開始): "${continuousTime.開始時刻}" を設定（連続労働時間計算）`);
-        }
-        // E列: 終了時刻
-        if (continuousTime.終了時刻) {
-          existingData[4] = continuousTime.終了時刻;
-          console.log(`  E列(包装終了): "${continuousTime.終了時刻}" を設定（連続労働時間計算）`);
-        }
-      } else {
-        // 単一区間の場合は従来通り
-        if (packagingRecord.開始時刻) {
-          existingData[3] = packagingRecord.開始時刻;
-          console.log(`  D列(包装開始): "${packagingRecord.開始時刻}" を設定`);
-        }
-        if (packagingRecord.終了時刻) {
-          existingData[4] = packagingRecord.終了時刻;
-          console.log(`  E列(包装終了): "${packagingRecord.終了時刻}" を設定`);
-        }
-      }
-      
-      // F列: 休憩時間
-      const restTime = this.calculateRestTime(packagingRecord.休憩);
-      if (restTime && restTime !== '0:00') {
-        existingData[5] = restTime;
-        console.log(`  F列(包装休憩): "${restTime}" を設定`);
-      }
-      // H列: 生産数（新しい値がある場合のみ設定）
-      if (packagingRecord.生産数) {
-        existingData[7] = packagingRecord.生産数;
-        console.log(`  H列(包装生産数): "${packagingRecord.生産数}" を設定`);
-      }
-    }
-    
-    if (machineRecord) {
-      // 複数区間がある場合は連続労働時間を計算
-      if (machineRecord.時刻リスト && machineRecord.時刻リスト.length > 1) {
-        const continuousTime = this.calculateContinuousWorkTime(machineRecord.時刻リスト);
-        // J列: 機械開始時刻
-        if (continuousTime.開始時刻) {
-          existingData[9] = continuousTime.開始時刻;
-          console.log(`  J列(機械開始): "${continuousTime.開始時刻}" を設定（連続労働時間計算）`);
-        }
-        // K列: 機械終了時刻
-        if (continuousTime.終了時刻) {
-          existingData[10] = continuousTime.終了時刻;
-          console.log(`  K列(機械終了): "${continuousTime.終了時刻}" を設定（連続労働時間計算）`);
-        }
-      } else {
-        // 単一区間の場合は従来通り
-        if (machineRecord.開始時刻) {
-          existingData[9] = machineRecord.開始時刻;
-          console.log(`  J列(機械開始): "${machineRecord.開始時刻}" を設定`);
-        }
-        if (machineRecord.終了時刻) {
-          existingData[10] = machineRecord.終了時刻;
-          console.log(`  K列(機械終了): "${machineRecord.終了時刻}" を設定`);
-        }
-      }
-      
-      // L列: 機械休憩時間
-      const restTime = this.calculateRestTime(machineRecord.休憩);
-      if (restTime && restTime !== '0:00') {
-        existingData[11] = restTime;
-        console.log(`  L列(機械休憩): "${restTime}" を設定`);
-      }
-      // N列: 機械生産数（新しい値がある場合のみ設定）
-      if (machineRecord.生産数) {
-        existingData[13] = machineRecord.生産数;
-        console.log(`  N列(機械生産数): "${machineRecord.生産数}" を設定`);
-      }
-    }
-    
-    // P列: 備考（複数区間の情報がある場合のみ設定）
-    const remarks = this.createRemarks(packagingRecord, machineRecord);
-    if (remarks) {
-      existingData[15] = remarks;
-      console.log(`  P列(備考): "${remarks}" を設定`);
-    }
-    
-    return existingData;
+    return this.fillRowData(existingData, ocrResult, records, template);
   }
 
   /**
@@ -1139,9 +1183,8 @@ export class GoogleSheetsService {
    */
   private static createNewRowData(
     ocrResult: OcrResult, 
-    packagingRecord: any, 
-    machineRecord: any, 
-    _workDate: string
+    records: WorkerRecords, 
+    template: FormTemplate
   ): (string | number)[] {
     console.log(`📋 新規行データを作成`);
     const rowData: (string | number)[] = new Array(16).fill('');
@@ -1149,116 +1192,120 @@ export class GoogleSheetsService {
     // ⚠️ A列（日付）は検索専用のため設定しない（数式や手動入力を保護）
     console.log(`  A列(日付): 保護のため設定しません（既存の数式/データを維持）`);
     
-    // C列: 商品名（値がある場合のみ設定）
+    return this.fillRowData(rowData, ocrResult, records, template);
+  }
+
+  /**
+   * 用紙テンプレートの列定義に従って行データに値を設定（値がある項目のみ上書き）
+   */
+  private static fillRowData(
+    rowData: (string | number)[],
+    ocrResult: OcrResult,
+    records: WorkerRecords,
+    template: FormTemplate
+  ): (string | number)[] {
+    const setCell = (column: number, value: string | number, label: string, note: string = '') => {
+      rowData[column] = value;
+      console.log(`  ${this.columnLetter(column)}列(${label}): "${value}" を設定${note}`);
+    };
+    
+    // 商品名（値がある場合のみ設定）
     if (ocrResult.ヘッダー.商品名) {
-      rowData[2] = ocrResult.ヘッダー.商品名;
-      console.log(`  C列(商品名): "${ocrResult.ヘッダー.商品名}" を設定`);
+      setCell(template.sheetColumns.product, ocrResult.ヘッダー.商品名, '商品名');
     }
     
-    if (packagingRecord) {
-      // 複数区間がある場合は連続労働時間を計算
-      if (packagingRecord.時刻リスト && packagingRecord.時刻リスト.length > 1) {
-        const continuousTime = this.calculateContinuousWorkTime(packagingRecord.時刻リスト);
-        // D列: 開始時刻
-        if (continuousTime.開始時刻) {
-          rowData[3] = continuousTime.開始時刻;
-          console.log(`  D列(包装開始): "${continuousTime.開始時刻}" を設定（連続労働時間計算）`);
-        }
-        // E列: 終了時刻
-        if (continuousTime.終了時刻) {
-          rowData[4] = continuousTime.終了時刻;
-          console.log(`  E列(包装終了): "${continuousTime.終了時刻}" を設定（連続労働時間計算）`);
-        }
-      } else {
-        // 単一区間の場合は従来通り
-        if (packagingRecord.開始時刻) {
-          rowData[3] = packagingRecord.開始時刻;
-          console.log(`  D列(包装開始): "${packagingRecord.開始時刻}" を設定`);
-        }
-        if (packagingRecord.終了時刻) {
-          rowData[4] = packagingRecord.終了時刻;
-          console.log(`  E列(包装終了): "${packagingRecord.終了時刻}" を設定`);
-        }
-      }
+    template.sections.forEach(section => {
+      const record = records[section.key];
+      if (!record) return;
       
-      // F列: 休憩時間
-      const restTime = this.calculateRestTime(packagingRecord.休憩);
-      if (restTime && restTime !== '0:00') {
-        rowData[5] = restTime;
-        console.log(`  F列(包装休憩): "${restTime}" を設定`);
-      }
-      // H列: 生産数（値がある場合のみ設定）
-      if (packagingRecord.生産数) {
-        rowData[7] = packagingRecord.生産数;
-        console.log(`  H列(包装生産数): "${packagingRecord.生産数}" を設定`);
-      }
-    }
-    
-    if (machineRecord) {
       // 複数区間がある場合は連続労働時間を計算
-      if (machineRecord.時刻リスト && machineRecord.時刻リスト.length > 1) {
-        const continuousTime = this.calculateContinuousWorkTime(machineRecord.時刻リスト);
-        // J列: 機械開始時刻
-        if (continuousTime.開始時刻) {
-          rowData[9] = continuousTime.開始時刻;
-          console.log(`  J列(機械開始): "${continuousTime.開始時刻}" を設定（連続労働時間計算）`);
-        }
-        // K列: 機械終了時刻
-        if (continuousTime.終了時刻) {
-          rowData[10] = continuousTime.終了時刻;
-          console.log(`  K列(機械終了): "${continuousTime.終了時刻}" を設定（連続労働時間計算）`);
-        }
-      } else {
-        // 単一区間の場合は従来通り
-        if (machineRecord.開始時刻) {
-          rowData[9] = machineRecord.開始時刻;
-          console.log(`  J列(機械開始): "${machineRecord.開始時刻}" を設定`);
-        }
-        if (machineRecord.終了時刻) {
-          rowData[10] = machineRecord.終了時刻;
-          console.log(`  K列(機械終了): "${machineRecord.終了時刻}" を設定`);
-        }
-      }
+      const continuousTime = record.時刻リスト && record.時刻リスト.length > 1
+        ? this.calculateContinuousWorkTime(record.時刻リスト)
+        : null;
       
-      // L列: 機械休憩時間
-      const restTime = this.calculateRestTime(machineRecord.休憩);
-      if (restTime && restTime !== '0:00') {
-        rowData[11] = restTime;
-        console.log(`  L列(機械休憩): "${restTime}" を設定`);
-      }
-      // N列: 機械生産数（値がある場合のみ設定）
-      if (machineRecord.生産数) {
-        rowData[13] = machineRecord.生産数;
-        console.log(`  N列(機械生産数): "${machineRecord.生産数}" を設定`);
-      }
-    }
+      section.columns.forEach(column => {
+        if (column.sheetColumn === undefined) return;
+        const label = `${section.label}${column.label}`;
+        
+        switch (column.kind) {
+          case 'startTime':
+          case 'endTime': {
+            const field = column.key;
+            if (continuousTime) {
+              if (continuousTime[field]) {
+                setCell(column.sheetColumn, continuousTime[field], label, '（連続労働時間計算）');
+              }
+            } else {
+              // 単一区間の場合は従来通り（時刻として解釈できる値のみ H:MM 形式で設定）
+              const time = this.toSheetTime(record[field], label);
+              if (time) {
+                setCell(column.sheetColumn, time, label);
+              }
+            }
+            break;
+          }
+          case 'checkboxes': {
+            // チェックした休憩の合計時間（既存行に異なる休憩時間がある場合は上書きしたことを記録）
+            const restMinutes = this.calculateRestTime(record, column);
+            if (restMinutes > 0) {
+              const existing = parseDuration(rowData[column.sheetColumn]);
+              const note = existing.status === 'valid' && existing.value !== restMinutes
+                ? `（既存の休憩時間 ${formatDuration(existing.value)} を上書き）`
+                : '';
+              setCell(column.sheetColumn, formatDuration(restMinutes), label, note);
+            }
+            break;
+          }
+          case 'count': {
+            // 数値として解釈できる新しい値がある場合のみ設定
+            const count = parseCount(record.値[column.key]);
+            if (count.status === 'valid') {
+              setCell(column.sheetColumn, count.value, label);
+            } else if (count.status === 'invalid' || count.status === 'unreadable') {
+              console.warn(`⚠️ ${label}を数値として解釈できないため設定しません: "${count.raw}"`);
+            }
+            break;
+          }
+          case 'text': {
+            const text = (record.値[column.key] || '').trim();
+            if (text) {
+              setCell(column.sheetColumn, text, label);
+            }
+            break;
+          }
+        }
+      });
+    });
     
-    // P列: 備考（複数区間の情報がある場合のみ設定）
-    const remarks = this.createRemarks(packagingRecord, machineRecord);
+    // 備考（複数区間の情報がある場合のみ設定）
+    const remarks = this.createRemarks(records, template);
     if (remarks) {
-      rowData[15] = remarks;
-      console.log(`  P列(備考): "${remarks}" を設定`);
+      setCell(template.sheetColumns.remarks, remarks, '備考');
     }
     
     return rowData;
   }
 
   /**
-   * 時刻文字列を分数に変換
+   * 列番号（0始まり）を列記号に変換
    */
-  private static timeToMinutes(timeStr: string): number {
-    if (!timeStr) return 0;
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    return hours * 60 + minutes;
+  private static columnLetter(column: number): string {
+    let letter = '';
+    for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
   }
 
   /**
-   * 分数を時刻文字列に変換
+   * 時刻を個人シートに書き込む H:MM 形式に変換（空欄・解釈できない値は空文字）
    */
-  private static minutesToTime(minutes: number): string {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return `${hours}:${mins.toString().padStart(2, '0')}`;
+  private static toSheetTime(value: string, label: string): string {
+    const parsed = parseTime(value);
+    if (parsed.status === 'invalid' || parsed.status === 'unreadable') {
+      console.warn(`⚠️ ${label}を時刻として解釈できないため設定しません: "${parsed.raw}"`);
+    }
+    return parsed.status === 'valid' ? formatTime(parsed.value) : '';
   }
 
   /**
@@ -1275,42 +1322,44 @@ export class GoogleSheetsService {
       };
     }
 
-    // 時刻順にソート
+    // 開始・終了とも時刻として解釈できる区間を時刻順にソート
     const sortedSlots = timeSlots
-      .filter(slot => slot.開始時刻 && slot.終了時刻)
-      .sort((a, b) => this.timeToMinutes(a.開始時刻) - this.timeToMinutes(b.開始時刻));
+      .flatMap(slot => {
+        const start = parseTime(slot.開始時刻);
+        const end = parseTime(slot.終了時刻);
+        return start.status === 'valid' && end.status === 'valid' ? [{ start: start.value, end: end.value }] : [];
+      })
+      .sort((a, b) => a.start - b.start);
 
     if (sortedSlots.length === 0) {
       return { 開始時刻: '', 終了時刻: '', 間の休憩時間: 0 };
     }
 
     console.log(`📊 複数区間の連続労働時間計算:`);
-    console.log(`  包装作業: ${sortedSlots.map(slot => `${slot.開始時刻}-${slot.終了時刻}`).join(', ')}`);
+    console.log(`  勤務区間: ${sortedSlots.map(slot => `${formatTime(slot.start)}-${formatTime(slot.end)}`).join(', ')}`);
 
     // 最初の開始時刻
-    const startTime = sortedSlots[0].開始時刻;
+    const startTime = formatTime(sortedSlots[0].start);
     
     // 間の休憩時間を計算
     let totalBreakMinutes = 0;
     for (let i = 0; i < sortedSlots.length - 1; i++) {
-      const currentEnd = this.timeToMinutes(sortedSlots[i].終了時刻);
-      const nextStart = this.timeToMinutes(sortedSlots[i + 1].開始時刻);
+      const currentEnd = sortedSlots[i].end;
+      const nextStart = sortedSlots[i + 1].start;
       const breakMinutes = nextStart - currentEnd;
       
       if (breakMinutes > 0) {
         totalBreakMinutes += breakMinutes;
-        console.log(`  休憩${i + 1}: ${sortedSlots[i].終了時刻}-${sortedSlots[i + 1].開始時刻} = ${breakMinutes}分`);
+        console.log(`  休憩${i + 1}: ${formatTime(currentEnd)}-${formatTime(nextStart)} = ${breakMinutes}分`);
       }
     }
 
     // 最後の終了時刻から間の休憩時間を引く
-    const lastEndTime = sortedSlots[sortedSlots.length - 1].終了時刻;
-    const lastEndMinutes = this.timeToMinutes(lastEndTime);
-    const adjustedEndMinutes = lastEndMinutes - totalBreakMinutes;
-    const adjustedEndTime = this.minutesToTime(adjustedEndMinutes);
+    const lastEndMinutes = sortedSlots[sortedSlots.length - 1].end;
+    const adjustedEndTime = formatTime(lastEndMinutes - totalBreakMinutes);
 
     console.log(`  間の休憩時間合計: ${totalBreakMinutes}分`);
-    console.log(`  調整後終了時刻: ${lastEndTime} - ${totalBreakMinutes}分 = ${adjustedEndTime}`);
+    console.log(`  調整後終了時刻: ${formatTime(lastEndMinutes)} - ${totalBreakMinutes}分 = ${adjustedEndTime}`);
     console.log(`  スプレッドシート記録: ${startTime}-${adjustedEndTime}`);
 
     return {
@@ -1321,96 +1370,90 @@ export class GoogleSheetsService {
   }
 
   /**
-   * 休憩時間を分数で計算
+   * 休憩時間を分数で計算（チェックボックスごとの時間は用紙テンプレートの定義）
    */
-  private static calculateRestTime(restInfo: any): string {
-    if (!restInfo) return '0:00';
-    
-    let totalMinutes = 0;
-    if (restInfo.昼休み) totalMinutes += 45; // 昼休み45分
-    if (restInfo.中休み) totalMinutes += 15; // 中休み15分
-    
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+  private static calculateRestTime(
+    record: WorkerRecord,
+    column: Extract<FormColumnTemplate, { kind: 'checkboxes' }>
+  ): number {
+    return column.checkboxes
+      .filter(checkbox => record.チェック[checkbox.key])
+      .reduce((total, checkbox) => total + (checkbox.breakMinutes ?? 0), 0);
   }
 
   /**
    * 備考欄を作成（複数区間の場合）
    */
-  private static createRemarks(packagingRecord: any, machineRecord: any): string {
+  private static createRemarks(records: WorkerRecords, template: FormTemplate): string {
     const remarks: string[] = [];
     
-    if (packagingRecord?.時刻リスト && packagingRecord.時刻リスト.length > 1) {
-      const timeSlots = packagingRecord.時刻リスト.map((slot: any) => 
-        `${slot.開始時刻}-${slot.終了時刻}`
-      ).join(', ');
-      remarks.push(`包装作業: ${timeSlots}`);
-    }
-    
-    if (machineRecord?.時刻リスト && machineRecord.時刻リスト.length > 1) {
-      const timeSlots = machineRecord.時刻リスト.map((slot: any) => 
-        `${slot.開始時刻}-${slot.終了時刻}`
-      ).join(', ');
-      remarks.push(`機械操作: ${timeSlots}`);
-    }
+    template.sections.forEach(section => {
+      const record = records[section.key];
+      if (record?.時刻リスト && record.時刻リスト.length > 1) {
+        const timeSlots = record.時刻リスト.map(slot => 
+          `${normalizeTime(slot.開始時刻)}-${normalizeTime(slot.終了時刻)}`
+        ).join(', ');
+        remarks.push(`${section.label}: ${timeSlots}`);
+      }
+    });
     
     return remarks.join(' | ');
   }
 
+  /**
+   * 書き込む列をまとめた更新リクエストを作成
+   * 用紙テンプレートで定義した列のみ対象とし、A列（日付）と計算列は保護する
+   */
+  private static createRowUpdateRequests(
+    sheetName: string,
+    rowIndex: number,
+    rowData: (string | number)[],
+    template: FormTemplate
+  ): { range: string; values: (string | number)[][] }[] {
+    const columns = new Set<number>([template.sheetColumns.product, template.sheetColumns.remarks]);
+    template.sections.forEach(section => {
+      section.columns.forEach(({ sheetColumn }) => {
+        if (sheetColumn !== undefined) columns.add(sheetColumn);
+      });
+    });
+    
+    // 連続する列は1つの範囲にまとめる
+    const groups: number[][] = [];
+    Array.from(columns).sort((a, b) => a - b).forEach(column => {
+      const last = groups[groups.length - 1];
+      if (last && last[last.length - 1] === column - 1) {
+        last.push(column);
+      } else {
+        groups.push([column]);
+      }
+    });
+    
+    return groups
+      .filter(group => group.some(column => rowData[column] !== ''))
+      .map(group => {
+        const first = this.columnLetter(group[0]);
+        const last = this.columnLetter(group[group.length - 1]);
+        return {
+          range: `${sheetName}!${first}${rowIndex}${group.length > 1 ? `:${last}${rowIndex}` : ''}`,
+          values: [group.map(column => rowData[column] ?? '')],
+        };
+      });
+  }
+
   /**
    * 個人シートの既存行を更新
    */
   private static async updatePersonalSheetRow(
     sheetName: string, 
     rowIndex: number, 
-    rowData: (string | number)[]
+    rowData: (string | number)[],
+    template: FormTemplate
   ): Promise<void> {
     console.log(`🔄 行更新処理開始: ${sheetName} 行${rowIndex}`);
     console.log(`⚠️ A列（日付）は保護のため更新対象から除外`);
     
-    // バッチ更新用のリクエストを作成（A列、G、I、M、O列をスキップ）
-    const requests = [];
-    
-    // B-F列（インデックス1-5）※A列を除外
-    if (rowData.slice(1, 6).some(val => val !== '')) {
-      requests.push({
-        range: `${sheetName}!B${rowIndex}:F${rowIndex}`,
-        values: [rowData.slice(1, 6)]
-      });
-    }
-    
-    // H列（インデックス7）
-    if (rowData[7] !== '') {
-      requests.push({
-        range: `${sheetName}!H${rowIndex}`,
-        values: [[rowData[7]]]
-      });
-    }
-    
-    // J-L列（インデックス9-11）
-    if (rowData.slice(9, 12).some(val => val !== '')) {
-      requests.push({
-        range: `${sheetName}!J${rowIndex}:L${rowIndex}`,
-        values: [rowData.slice(9, 12)]
-      });
-    }
-    
-    // N列（インデックス13）
-    if (rowData[13] !== '') {
-      requests.push({
-        range: `${sheetName}!N${rowIndex}`,
-        values: [[rowData[13]]]
-      });
-    }
-    
-    // P列（インデックス15）
-    if (rowData[15] !== '') {
-      requests.push({
-        range: `${sheetName}!P${rowIndex}`,
-        values: [[rowData[15]]]
-      });
-    }
+    // バッチ更新用のリクエストを作成（テンプレートの列のみ、A列と計算列をスキップ）
+    const requests = this.createRowUpdateRequests(sheetName, rowIndex, rowData, template);
     
     if (requests.length === 0) {
       console.log('⚠️ 更新するデータがありません');
@@ -1421,7 +1464,7 @@ export class GoogleSheetsService {
     
     // バッチ更新実行
     const response = await fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}/values:batchUpdate?key=${this.getConfig().googleApiKey}`,
+      this.sheetsUrl('/values:batchUpdate'),
       {
         method: 'POST',
         headers: {
@@ -1449,17 +1492,15 @@ export class GoogleSheetsService {
    */
   private static async appendPersonalSheetRow(
     sheetName: string, 
-    rowData: (string | number)[]
+    rowData: (string | number)[],
+    template: FormTemplate
   ): Promise<void> {
     console.log(`➕ 行追加処理開始: ${sheetName}`);
     console.log(`⚠️ A列（日付）は保護のため追加対象から除外`);
     
-    // スプレッドシートに送信するデータを準備（A列、G、I、M、O列は後でスキップ）
-    const cleanRowData = [...rowData];
-    
     // 最初の空行を探すために範囲を指定
     const response = await fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}/values/${sheetName}!A:A?key=${this.getConfig().googleApiKey}`,
+      this.sheetsUrl(`/values/${sheetName}!A:A`),
       {
         headers: {
           'Authorization': `Bearer ${this.accessToken}`,
@@ -1474,54 +1515,14 @@ export class GoogleSheetsService {
     const data = await response.json();
     const nextRow = (data.values?.length || 0) + 1;
     
-    // バッチ更新でA列、G、I、M、O列をスキップして追加
-    const requests = [];
-    
-    // B-F列（A列を除外）
-    if (cleanRowData.slice(1, 6).some(val => val !== '')) {
-      requests.push({
-        range: `${sheetName}!B${nextRow}:F${nextRow}`,
-        values: [cleanRowData.slice(1, 6)]
-      });
-    }
-    
-    // H列
-    if (cleanRowData[7] !== '') {
-      requests.push({
-        range: `${sheetName}!H${nextRow}`,
-        values: [[cleanRowData[7]]]
-      });
-    }
-    
-    // J-L列
-    if (cleanRowData.slice(9, 12).some(val => val !== '')) {
-      requests.push({
-        range: `${sheetName}!J${nextRow}:L${nextRow}`,
-        values: [cleanRowData.slice(9, 12)]
-      });
-    }
-    
-    // N列
-    if (cleanRowData[13] !== '') {
-      requests.push({
-        range: `${sheetName}!N${nextRow}`,
-        values: [[cleanRowData[13]]]
-      });
-    }
-    
-    // P列
-    if (cleanRowData[15] !== '') {
-      requests.push({
-        range: `${sheetName}!P${nextRow}`,
-        values: [[cleanRowData[15]]]
-      });
-    }
+    // バッチ更新でテンプレートの列のみ追加（A列と計算列をスキップ）
+    const requests = this.createRowUpdateRequests(sheetName, nextRow, rowData, template);
     
     console.log(`📝 A列を除外して追加: ${requests.length}個のリクエスト`);
     
     // バッチ更新実行
     const updateResponse = await fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}/values:batchUpdate?key=${this.getConfig().googleApiKey}`,
+      this.sheetsUrl('/values:batchUpdate'),
       {
         method: 'POST',
         headers: {
@@ -1544,6 +1545,51 @@ export class GoogleSheetsService {
     log.debug('行追加API成功（A列保護）');
   }
 
+  /**
+   * OCRの利用記録を「usage」シートに追記（認証済みの場合のみ）
+   */
+  static async appendUsageRow(entry: OcrUsageEntry): Promise<void> {
+    if (!this.accessToken) {
+      this.loadTokenFromStorage();
+    }
+    if (!this.accessToken) {
+      log.debug('未認証のため利用記録をシートに追記しません');
+      return;
+    }
+
+    const row = [
+      entry.timestamp,
+      entry.provider,
+      entry.model,
+      entry.promptVersion,
+      entry.purpose,
+      entry.imageCount,
+      entry.promptTokens,
+      entry.completionTokens,
+      entry.totalTokens,
+      entry.estimatedCostUsd,
+      entry.outcome,
+      entry.errorMessage ?? '',
+    ];
+    const range = encodeURIComponent(`${this.USAGE_SHEET_NAME}!A:L`);
+    const response = await fetch(
+      this.sheetsUrl(`/values/${range}:append`, 'valueInputOption=RAW&insertDataOption=INSERT_ROWS'),
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ values: [row] }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`利用記録の追記エラー: ${errorData.error?.message || response.statusText}`);
+    }
+  }
+
   /**
    * Google Sheetsが利用可能かチェック
    */
@@ -1552,7 +1598,7 @@ export class GoogleSheetsService {
       await this.ensureAuthenticated();
       
       const response = await this.fetchWithRetry(
-        `https://sheets.googleapis.com/v4/spreadsheets/${this.getConfig().spreadsheetId}?key=${this.getConfig().googleApiKey}`,
+        this.sheetsUrl(''),
         {
           headers: {
             'Authorization': `Bearer ${this.accessToken}`,
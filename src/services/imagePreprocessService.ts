@@ -0,0 +1,123 @@
+import { ImagePreprocessOptions, ImagePreprocessResult } from '@/types';
+import { EnvironmentValidator } from '@/utils/envConfig';
+import { log } from '@/utils/logger';
+import type { ImagePreprocessRequest, ImagePreprocessResponse } from '@/workers/imagePreprocess.worker';
+
+type PendingRequest = {
+  resolve: (result: ImagePreprocessResult) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * OCR前の画像前処理（傾き補正・コントラスト補正・蛍光ペン除去）をWeb Workerで実行するサービス
+ * 前処理に失敗してもOCRは元画像で続行する
+ */
+export class ImagePreprocessService {
+  // 処理する画像の長辺の上限（px）
+  private static readonly MAX_DIMENSION = 2400;
+  // 1枚あたりの処理時間の上限（ミリ秒）
+  private static readonly TIMEOUT_MS = 20000;
+
+  private static worker: Worker | null = null;
+  private static nextId = 1;
+  private static pending = new Map<number, PendingRequest>();
+
+  /**
+   * ブラウザがWorkerでの画像処理に対応しているか
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined'
+      && typeof OffscreenCanvas !== 'undefined'
+      && typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * 環境変数の設定を取得
+   */
+  static getOptions(): ImagePreprocessOptions {
+    return EnvironmentValidator.getImagePreprocessOptions();
+  }
+
+  private static getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/imagePreprocess.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      this.worker.onmessage = (event: MessageEvent<ImagePreprocessResponse>) => {
+        const request = this.pending.get(event.data.id);
+        if (!request) return;
+        this.pending.delete(event.data.id);
+
+        if ('error' in event.data) {
+          request.reject(new Error(event.data.error));
+        } else {
+          request.resolve(event.data.result);
+        }
+      };
+      this.worker.onerror = (event) => {
+        log.error('画像前処理Workerでエラーが発生', event.message);
+        this.pending.forEach(request => request.reject(new Error(event.message)));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+
+  /**
+   * 画像を前処理（無効・非対応・失敗時は元画像をそのまま返す）
+   */
+  static async preprocess(
+    image: string,
+    options: ImagePreprocessOptions = this.getOptions()
+  ): Promise<ImagePreprocessResult> {
+    const passthrough: ImagePreprocessResult = { image, width: 0, height: 0, steps: [] };
+    const hasSteps = options.deskew || options.normalizeContrast || options.suppressHighlighter;
+
+    if (!hasSteps) {
+      return passthrough;
+    }
+    if (!this.isSupported()) {
+      log.warn('このブラウザは画像前処理に対応していないため、元画像を使用します');
+      return passthrough;
+    }
+
+    const id = this.nextId++;
+    const request: ImagePreprocessRequest = {
+      id,
+      image,
+      options,
+      maxDimension: this.MAX_DIMENSION,
+    };
+
+    try {
+      const result = await new Promise<ImagePreprocessResult>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new Error('画像前処理がタイムアウトしました'));
+        }, this.TIMEOUT_MS);
+
+        this.pending.set(id, {
+          resolve: (value) => { clearTimeout(timer); resolve(value); },
+          reject: (error) => { clearTimeout(timer); reject(error); },
+        });
+        this.getWorker().postMessage(request);
+      });
+
+      log.debug('画像前処理完了', {
+        width: result.width,
+        height: result.height,
+        steps: result.steps.map(step => `${step.name}:${step.applied ? step.durationMs + 'ms' : 'skip'}`).join(', ')
+      });
+      result.steps.forEach(step => {
+        if (step.note) log.dev(`  ${step.name}: ${step.note}`);
+      });
+
+      return result;
+    } catch (error) {
+      log.warn('画像前処理に失敗したため元画像を使用します', error);
+      return passthrough;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { ImageQualityReport } from '@/types';
+import { analyzeImageQuality } from '@/utils/imageQuality';
+import { log } from '@/utils/logger';
+
+/**
+ * 撮影画像の品質チェックサービス
+ * 画像選択時に縮小画像で解析し、撮り直しが必要な問題を検出する
+ */
+export class ImageQualityService {
+  // 解析に使用する縮小画像の長辺（px）
+  private static readonly ANALYSIS_MAX_DIMENSION = 1000;
+
+  /**
+   * 画像の品質を解析（解析できない場合はnullを返し、チェックなしで続行する）
+   */
+  static async analyze(image: string): Promise<ImageQualityReport | null> {
+    try {
+      const img = await this.loadImage(image);
+      const scale = Math.min(1, this.ANALYSIS_MAX_DIMENSION / Math.max(img.width, img.height));
+      const width = Math.max(1, Math.round(img.width * scale));
+      const height = Math.max(1, Math.round(img.height * scale));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Canvas context not available');
+      }
+      ctx.drawImage(img, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+
+      const report = analyzeImageQuality({ data, width, height }, { width: img.width, height: img.height });
+      log.debug('画像品質チェック', {
+        size: `${img.width}x${img.height}`,
+        sharpness: Math.round(report.metrics.sharpness),
+        luminance: Math.round(report.metrics.meanLuminance),
+        clipped: report.metrics.clippedRatio.toFixed(3),
+        coverage: report.metrics.pageCoverage?.toFixed(2) ?? 'none',
+        issues: report.issues.map(issue => `${issue.kind}:${issue.severity}`).join(', ') || 'none'
+      });
+
+      return report;
+    } catch (error) {
+      log.warn('画像品質チェックに失敗したため、チェックなしで続行します', error);
+      return null;
+    }
+  }
+
+  /**
+   * 撮り直しが必要な問題があるか
+   */
+  static hasBlockingIssue(report: ImageQualityReport | null): boolean {
+    return !!report?.issues.some(issue => issue.severity === 'block');
+  }
+
+  private static loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to load image'));
+      img.src = src;
+    });
+  }
+}
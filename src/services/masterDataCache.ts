@@ -6,6 +6,12 @@
 export interface MasterData {
   employees: string[];
   products: string[];
+  /** 氏名 → 読み（管理シートのフリガナ列に記入がある従業員のみ） */
+  employeeReadings?: Record<string, string>;
+  /** 氏名 → 別名（別名シートに記入がある従業員のみ） */
+  employeeAliases?: Record<string, string[]>;
+  /** 商品名 → 別名（別名シートに記入がある商品のみ） */
+  productAliases?: Record<string, string[]>;
 }
 
 interface CachedMasterData {
@@ -16,7 +22,7 @@ interface CachedMasterData {
 
 export class MasterDataCache {
   private static readonly CACHE_KEY = 'masterData_cache';
-  private static readonly CACHE_VERSION = '1.0';
+  private static readonly CACHE_VERSION = '1.2';
   private static readonly CACHE_TTL = 30 * 60 * 1000; // 30分
 
   /**
@@ -0,0 +1,101 @@
+import { FormTemplate, OcrResult } from '@/types';
+import { OCR_FIXTURES, DEFAULT_OCR_FIXTURE } from '@/fixtures/ocrFixtures';
+import { log } from '@/utils/logger';
+import { scaleCellRegions } from '@/utils/cellMeta';
+import { mapRecords } from '@/utils/workerRecords';
+import { throwIfAborted } from '@/utils/abort';
+import type { OcrProcessOptions, OcrProgressCallback, OcrProvider } from './ocrProvider';
+
+/**
+ * 固定のOCR結果を返すモックプロバイダー
+ * APIキーなしでパイプライン全体を動作確認するために使用する
+ */
+export class MockOcrService implements OcrProvider {
+  readonly name = 'mock';
+  readonly displayName = 'モックOCR';
+
+  // 実際の処理時間に近い体感にするための待機時間（ミリ秒）
+  private static readonly STEP_DELAY = 150;
+
+  /**
+   * 使用するフィクスチャ名を取得
+   */
+  private getFixtureName(): string {
+    const requested = import.meta.env.VITE_OCR_MOCK_FIXTURE;
+    if (requested && OCR_FIXTURES[requested]) {
+      return requested;
+    }
+    if (requested) {
+      log.warn('未定義のモックフィクスチャが指定されました', { requested });
+    }
+    return DEFAULT_OCR_FIXTURE;
+  }
+
+  /**
+   * 画像サイズを取得（読み込めない場合はnull）
+   */
+  private getImageSize(imageData: string): Promise<{ width: number; height: number } | null> {
+    return new Promise(resolve => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.width, height: img.height });
+      img.onerror = () => resolve(null);
+      img.src = imageData;
+    });
+  }
+
+  private wait(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, MockOcrService.STEP_DELAY);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('処理をキャンセルしました', 'AbortError'));
+      }, { once: true });
+    });
+  }
+
+  /**
+   * フィクスチャのOCR結果を返す（画像はサイズのみ参照する）
+   */
+  async processImage(
+    imageData: string,
+    onProgress?: OcrProgressCallback,
+    template?: FormTemplate,
+    options: OcrProcessOptions = {}
+  ): Promise<OcrResult> {
+    throwIfAborted(options.signal);
+    const fixtureName = this.getFixtureName();
+    log.dev(`モックOCR: フィクスチャ "${fixtureName}" を使用`, { formTemplate: template?.id });
+
+    onProgress?.(10, '画像を準備中...');
+    await this.wait(options.signal);
+    onProgress?.(50, '手書き文字を解析中...');
+    await this.wait(options.signal);
+    onProgress?.(90, 'データを解析中...');
+    await this.wait(options.signal);
+    onProgress?.(100, '処理完了');
+
+    // 呼び出し側での変更がフィクスチャに影響しないよう複製して返す
+    const result = JSON.parse(JSON.stringify(OCR_FIXTURES[fixtureName])) as OcrResult;
+    result.promptVersion = `mock:${fixtureName}`;
+    // OCRでの読み取りと同様に用紙上の行番号を付与
+    result.記録 = mapRecords(result, (record, index) => ({ ...record, sourceRow: index }));
+
+    // フィクスチャのセル領域を撮影画像のサイズに合わせる
+    const imageSize = result.sourceImageSize ? await this.getImageSize(imageData) : null;
+    if (result.sourceImageSize && imageSize) {
+      return {
+        ...scaleCellRegions(
+          result,
+          imageSize.width / result.sourceImageSize.width,
+          imageSize.height / result.sourceImageSize.height
+        ),
+        sourceImageSize: imageSize,
+      };
+    }
+    return result;
+  }
+
+  async validateConnection(): Promise<boolean> {
+    return true;
+  }
+}
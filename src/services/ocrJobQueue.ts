@@ -0,0 +1,119 @@
+import { OcrJobState, OcrRequestError } from '@/types';
+import { isAbortError, throwIfAborted } from '@/utils/abort';
+import { log } from '@/utils/logger';
+
+/**
+ * キューで実行する処理（attemptは1始まりの実行回数）
+ */
+export type OcrJob<T> = (
+  onProgress: (progress: number, message: string) => void,
+  attempt: number
+) => Promise<T>;
+
+/**
+ * 処理ごとの結果（失敗した処理があっても他の処理の結果は返す）
+ */
+export type OcrJobOutcome<T> =
+  | { status: 'done'; result: T }
+  | { status: 'failed'; error: unknown };
+
+export interface OcrJobQueueOptions {
+  /** 同時に実行する処理の数 */
+  concurrency: number;
+  /** 429・5xxで失敗した場合の再試行回数 */
+  maxRetries: number;
+  /** 再試行までの待機時間の基準（再試行のたびに2倍にする） */
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  /** 処理ごとの状態が変わるたびに通知 */
+  onStateChange?: (index: number, state: OcrJobState) => void;
+}
+
+/**
+ * 複数枚のOCRを同時実行数を制限して処理するキュー
+ * 429・5xxは待機して再試行し、失敗した画像があっても残りの画像の処理を続ける
+ */
+export class OcrJobQueue {
+  private static readonly DEFAULT_BASE_DELAY = 2000;
+  private static readonly MAX_DELAY = 30000;
+
+  /**
+   * すべての処理を実行し、処理ごとの結果を引数の順番で返す
+   * キャンセルした場合のみAbortErrorで終了する
+   */
+  static async run<T>(jobs: OcrJob<T>[], options: OcrJobQueueOptions): Promise<OcrJobOutcome<T>[]> {
+    const { signal, onStateChange } = options;
+    const concurrency = Math.max(1, Math.min(options.concurrency, jobs.length));
+    const outcomes: OcrJobOutcome<T>[] = new Array(jobs.length);
+    const states: OcrJobState[] = jobs.map(() => ({ status: 'queued', attempt: 0, progress: 0 }));
+
+    const update = (index: number, state: Partial<OcrJobState>) => {
+      states[index] = { ...states[index], ...state };
+      onStateChange?.(index, states[index]);
+    };
+    states.forEach((state, index) => onStateChange?.(index, state));
+
+    let next = 0;
+    const worker = async () => {
+      while (next < jobs.length) {
+        throwIfAborted(signal);
+        const index = next++;
+        outcomes[index] = await this.runJob(jobs[index], index, options, update);
+      }
+    };
+
+    log.debug('OCRキューを開始', { jobs: jobs.length, concurrency });
+    await Promise.all(Array.from({ length: concurrency }, worker));
+    return outcomes;
+  }
+
+  /**
+   * 1件の処理を実行（再試行できるエラーは待機して再実行）
+   */
+  private static async runJob<T>(
+    job: OcrJob<T>,
+    index: number,
+    { maxRetries, baseDelayMs = this.DEFAULT_BASE_DELAY, signal }: OcrJobQueueOptions,
+    update: (index: number, state: Partial<OcrJobState>) => void
+  ): Promise<OcrJobOutcome<T>> {
+    for (let attempt = 1; ; attempt++) {
+      update(index, { status: 'running', attempt, progress: 0, message: undefined });
+      try {
+        const result = await job((progress, message) => update(index, { progress, message }), attempt);
+        update(index, { status: 'done', progress: 100, message: undefined });
+        return { status: 'done', result };
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw error;
+
+        const requestError = error as Partial<OcrRequestError>;
+        if (!requestError.canRetry || attempt > maxRetries) {
+          log.warn(`${index + 1}枚目の読み取りに失敗しました`, error);
+          update(index, { status: 'failed', message: error instanceof Error ? error.message : String(error) });
+          return { status: 'failed', error };
+        }
+
+        // Retry-Afterの指定も待機時間の上限までに抑える
+        const delay = Math.min(
+          this.MAX_DELAY,
+          requestError.retryAfterMs ?? baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5)
+        );
+        log.info(`${index + 1}枚目を${Math.round(delay / 1000)}秒後に再試行します`, {
+          status: requestError.status,
+          attempt,
+        });
+        update(index, { message: `${Math.ceil(delay / 1000)}秒後に再試行します...` });
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('処理をキャンセルしました', 'AbortError'));
+      }, { once: true });
+    });
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  OcrResult,
+  WorkerRecord,
+  TimeSlot,
+  HeaderConflict,
+  OcrValidationIssue,
+  FormSectionTemplate,
+} from '@/types';
+import { getFormTemplate } from '@/templates/formTemplates';
+import { applyCellFlags } from '@/utils/cellMeta';
+import { mapRecords, getAllRecords } from '@/utils/workerRecords';
+import { log } from '@/utils/logger';
+
+const CONFLICT_FIELDS: HeaderConflict['field'][] = ['商品名', '工場名'];
+
+/**
+ * 複数枚撮影したOCR結果を記録簿単位に統合するサービス
+ * 同じ日・同じ商品の画像は1つのOCR結果にまとめ、異なる場合は別の記録として分ける
+ */
+export class OcrMergeService {
+  /**
+   * 画像ごとのOCR結果を統合（pageIndicesを省略した場合は引数の順番を画像番号として扱う）
+   * @param pageIndices 各結果の画像番号（読み取りに失敗した画像を除いた場合に指定）
+   * @returns 記録簿ごとのOCR結果（画像の順番を保持）
+   */
+  static mergePages(pages: OcrResult[], pageIndices: number[] = pages.map((_, index) => index)): OcrResult[] {
+    const taggedPages = pages.map((page, index) => this.tagPage(page, pageIndices[index]));
+
+    const groups: OcrResult[][] = [];
+    taggedPages.forEach(page => {
+      const group = groups.find(members => members.every(member => this.isSameForm(member, page)));
+      if (group) {
+        group.push(page);
+      } else {
+        groups.push([page]);
+      }
+    });
+
+    if (groups.length > 1) {
+      log.info(`${pages.length}枚の画像を${groups.length}件の記録に分けました`);
+    }
+
+    return groups.map(group => this.mergeGroup(group));
+  }
+
+  /**
+   * 読み取り元の画像番号を各記録に付与
+   */
+  private static tagPage(page: OcrResult, pageIndex: number): OcrResult {
+    return {
+      ...page,
+      記録: mapRecords(page, record => ({ ...record, sourcePage: pageIndex })),
+      sourcePages: [pageIndex],
+    };
+  }
+
+  /**
+   * 同じ記録簿の画像か判定
+   * 用紙の種類・作業日が異なる場合、または商品名が確実に異なる場合（どちらも補正エラーなし）は別の記録簿とみなす
+   */
+  private static isSameForm(a: OcrResult, b: OcrResult): boolean {
+    // 用紙の種類が異なる画像は統合しない
+    if ((a.formTemplateId ?? 'standard') !== (b.formTemplateId ?? 'standard')) {
+      return false;
+    }
+
+    const dateA = this.normalizeKey(a.ヘッダー.作業日);
+    const dateB = this.normalizeKey(b.ヘッダー.作業日);
+    if (dateA && dateB && dateA !== dateB) {
+      return false;
+    }
+
+    const productA = this.normalizeKey(a.ヘッダー.商品名);
+    const productB = this.normalizeKey(b.ヘッダー.商品名);
+    if (productA && productB && productA !== productB && !a.ヘッダー.productError && !b.ヘッダー.productError) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 同じ記録簿の画像を1つのOCR結果に統合
+   */
+  private static mergeGroup(pages: OcrResult[]): OcrResult {
+    if (pages.length === 1) {
+      return pages[0];
+    }
+
+    const pageNumbers = pages.flatMap(page => page.sourcePages || []);
+    const [first] = pages;
+    const header = { ...first.ヘッダー };
+
+    // 空欄のヘッダー項目は後続の画像から補完
+    pages.slice(1).forEach(page => {
+      if (!header.作業日 && page.ヘッダー.作業日) header.作業日 = page.ヘッダー.作業日;
+      if (!header.originalWorkDate && page.ヘッダー.originalWorkDate) header.originalWorkDate = page.ヘッダー.originalWorkDate;
+      if (!header.作業時間 && page.ヘッダー.作業時間) header.作業時間 = page.ヘッダー.作業時間;
+    });
+
+    const headerConflicts = this.findHeaderConflicts(pages);
+    headerConflicts.forEach(conflict => {
+      log.warn('画像間でヘッダー項目が異なります', {
+        field: conflict.field,
+        count: conflict.values.length
+      });
+    });
+
+    // 各画像の検証結果には画像番号を付けて引き継ぐ
+    const validationIssues: OcrValidationIssue[] = pages.flatMap(page =>
+      (page.validationIssues || []).map(issue => ({
+        ...issue,
+        path: `${(page.sourcePages?.[0] ?? 0) + 1}枚目.${issue.path}`,
+      }))
+    );
+
+    // 同じ用紙の画像のみ統合するため、表の定義は先頭の画像のテンプレートに従う
+    const records: OcrResult['記録'] = {};
+    getFormTemplate(first.formTemplateId).sections.forEach(section => {
+      records[section.key] = this.mergeRecords(
+        section,
+        pages.flatMap(page => page.記録?.[section.key] || []),
+        validationIssues
+      );
+    });
+
+    const merged: OcrResult = {
+      ...first,
+      ヘッダー: header,
+      記録: records,
+      sourcePages: pageNumbers,
+    };
+
+    merged.validationIssues = validationIssues;
+    // いずれかの画像でキャッシュした結果を使用した場合は、読み取り直しを提案する
+    if (pages.some(page => page.fromCache)) {
+      merged.fromCache = true;
+    }
+    if (headerConflicts.length > 0) {
+      merged.headerConflicts = headerConflicts;
+    }
+
+    log.debug('画像の統合完了', {
+      pages: pageNumbers.length,
+      records: getAllRecords(merged).length
+    });
+
+    return merged;
+  }
+
+  /**
+   * 画像間で異なるヘッダー項目を抽出
+   */
+  private static findHeaderConflicts(pages: OcrResult[]): HeaderConflict[] {
+    const conflicts: HeaderConflict[] = [];
+
+    CONFLICT_FIELDS.forEach(field => {
+      const values: HeaderConflict['values'] = [];
+      pages.forEach(page => {
+        const value = (page.ヘッダー[field] || '').trim();
+        if (!value) return;
+
+        const pageNumber = page.sourcePages?.[0] ?? 0;
+        const existing = values.find(item => this.normalizeKey(item.value) === this.normalizeKey(value));
+        if (existing) {
+          existing.pages.push(pageNumber);
+        } else {
+          values.push({ value, pages: [pageNumber] });
+        }
+      });
+
+      if (values.length > 1) {
+        conflicts.push({ field, values });
+      }
+    });
+
+    return conflicts;
+  }
+
+  /**
+   * 複数の画像に記載された同じ作業者の記録を1行にまとめる
+   */
+  private static mergeRecords(
+    section: FormSectionTemplate,
+    records: WorkerRecord[],
+    issues: OcrValidationIssue[]
+  ): WorkerRecord[] {
+    const merged: WorkerRecord[] = [];
+    const byName = new Map<string, number>();
+
+    records.forEach(record => {
+      const key = this.normalizeKey(record.氏名);
+      const existingIndex = key ? byName.get(key) : undefined;
+
+      if (existingIndex === undefined) {
+        if (key) byName.set(key, merged.length);
+        merged.push(record);
+        return;
+      }
+
+      log.dev(`${section.label}: ${record.氏名} を統合`);
+      merged[existingIndex] = this.mergeWorker(section, merged[existingIndex], record, issues);
+    });
+
+    return merged;
+  }
+
+  /**
+   * 同じ作業者の2つの記録を統合（時刻は別の勤務として追加）
+   */
+  private static mergeWorker(
+    section: FormSectionTemplate,
+    target: WorkerRecord,
+    other: WorkerRecord,
+    issues: OcrValidationIssue[]
+  ): WorkerRecord {
+    const slots: TimeSlot[] = target.時刻リスト
+      ? [...target.時刻リスト]
+      : [{ 開始時刻: target.開始時刻, 終了時刻: target.終了時刻 }];
+
+    const otherSlots: TimeSlot[] = other.時刻リスト
+      ? other.時刻リスト
+      : [{
+          開始時刻: other.開始時刻,
+          終了時刻: other.終了時刻,
+          cells: other.cells && { 開始時刻: other.cells.開始時刻, 終了時刻: other.cells.終了時刻 },
+        }];
+
+    otherSlots.forEach(slot => {
+      const isDuplicate = slots.some(
+        existing => existing.開始時刻 === slot.開始時刻 && existing.終了時刻 === slot.終了時刻
+      );
+      if (!isDuplicate && (slot.開始時刻 || slot.終了時刻)) {
+        slots.push({ ...slot, sourcePage: other.sourcePage, sourceRow: other.sourceRow });
+      }
+    });
+
+    // チェックはどちらかの画像でチェックされていればあり
+    const checks = { ...target.チェック };
+    Object.entries(other.チェック).forEach(([key, checked]) => {
+      checks[key] = Boolean(checks[key]) || checked;
+    });
+
+    // 数量・文字の列は空欄なら補完し、画像によって異なる場合は先の画像の値を使用
+    const values = { ...target.値 };
+    section.columns.forEach(column => {
+      if (column.kind !== 'count' && column.kind !== 'text') return;
+
+      const value = values[column.key];
+      const otherValue = other.値[column.key];
+      if (!value) {
+        values[column.key] = otherValue ?? '';
+      } else if (otherValue && otherValue !== value) {
+        issues.push({
+          path: `${section.label}.${target.氏名}`,
+          kind: 'invalid_value',
+          message: `画像によって${column.label}が異なります（${value} / ${otherValue}）。${(target.sourcePage ?? 0) + 1}枚目の値を使用しています`,
+        });
+      }
+    });
+
+    const mergedRecord: WorkerRecord = {
+      ...target,
+      時刻リスト: slots.length > 1 ? slots : target.時刻リスト,
+      チェック: checks,
+      値: values,
+    };
+
+    // 補正エラーはどちらかの画像で発生していれば引き継ぐ
+    if (other.nameError) {
+      mergedRecord.nameError = true;
+    }
+    if (other.confidence !== undefined) {
+      mergedRecord.confidence = Math.min(target.confidence ?? other.confidence, other.confidence);
+    }
+
+    return applyCellFlags(mergedRecord);
+  }
+
+  private static normalizeKey(value?: string): string {
+    return (value || '').replace(/\s/g, '');
+  }
+}
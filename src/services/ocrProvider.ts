@@ -0,0 +1,103 @@
+import { FormTemplate, OcrResult, RegionReading, RereadField } from '@/types';
+import { EnvironmentValidator } from '@/utils/envConfig';
+import { log } from '@/utils/logger';
+import { OpenAIOcrService } from './ocrService';
+import { MockOcrService } from './mockOcrService';
+
+/**
+ * OCR処理の進捗通知コールバック
+ */
+export type OcrProgressCallback = (progress: number, message: string) => void;
+
+/**
+ * OCR処理のオプション
+ */
+export interface OcrProcessOptions {
+  /** キャッシュした結果を使わずに読み取り直す */
+  forceRefresh?: boolean;
+  /** 処理のキャンセル（中断した場合はAbortErrorで終了する） */
+  signal?: AbortSignal;
+}
+
+/**
+ * OCRプロバイダーの共通インターフェース
+ * ProcessingPage等の呼び出し側はこのインターフェースのみを参照する
+ */
+export interface OcrProvider {
+  /** プロバイダー識別子（VITE_OCR_PROVIDER の値と対応） */
+  readonly name: string;
+  /** 画面表示用の名称 */
+  readonly displayName: string;
+  /** 画像を読み取り、OCR結果を返す（templateは撮影した用紙の種類。省略時は標準の作業記録簿） */
+  processImage(
+    imageData: string,
+    onProgress?: OcrProgressCallback,
+    template?: FormTemplate,
+    options?: OcrProcessOptions
+  ): Promise<OcrResult>;
+  /** 撮影画像がどの用紙か判定（対応するプロバイダーのみ。判定できない場合はnull） */
+  detectFormTemplate?(imageData: string, templates: FormTemplate[], signal?: AbortSignal): Promise<string | null>;
+  /** 切り出した行を再読み取り（対応するプロバイダーのみ） */
+  readRegion?(cropImage: string, fields: RereadField[], signal?: AbortSignal): Promise<RegionReading>;
+  /** 接続・認証情報が有効かを確認 */
+  validateConnection(): Promise<boolean>;
+}
+
+type OcrProviderFactory = () => OcrProvider;
+
+/**
+ * OCRプロバイダーの登録・選択を管理
+ * 新しいバックエンドは register() で追加する
+ */
+export class OcrProviderRegistry {
+  private static factories = new Map<string, OcrProviderFactory>([
+    ['openai', () => new OpenAIOcrService()],
+    ['mock', () => new MockOcrService()],
+  ]);
+  private static instance: OcrProvider | null = null;
+
+  /**
+   * プロバイダーを登録（同名の場合は上書き）
+   */
+  static register(name: string, factory: OcrProviderFactory): void {
+    this.factories.set(name, factory);
+    if (this.instance?.name === name) {
+      this.instance = null;
+    }
+  }
+
+  /**
+   * 登録済みプロバイダー名の一覧
+   */
+  static getAvailableProviders(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * 設定で選択されたプロバイダーを取得
+   */
+  static getProvider(): OcrProvider {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const requested = EnvironmentValidator.getOcrProviderName();
+    let factory = this.factories.get(requested);
+
+    if (!factory) {
+      log.warn('未登録のOCRプロバイダーが指定されました。openaiを使用します', { requested });
+      factory = this.factories.get('openai')!;
+    }
+
+    this.instance = factory();
+    log.debug('OCRプロバイダーを選択', { provider: this.instance.name });
+    return this.instance;
+  }
+
+  /**
+   * 選択中のプロバイダーを破棄（設定変更・テスト用）
+   */
+  static reset(): void {
+    this.instance = null;
+  }
+}
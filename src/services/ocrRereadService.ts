@@ -0,0 +1,404 @@
+import {
+  CellRegion,
+  FormSectionTemplate,
+  OcrResult,
+  WorkerRecord,
+  RegionReading,
+  RereadCandidate,
+  RereadField,
+  RereadFieldResult,
+  RereadInfo,
+} from '@/types';
+import { getFormTemplate } from '@/templates/formTemplates';
+import { EnvironmentValidator } from '@/utils/envConfig';
+import { applyCellFlags, LOW_CELL_CONFIDENCE } from '@/utils/cellMeta';
+import { isAbortError, throwIfAborted } from '@/utils/abort';
+import { log } from '@/utils/logger';
+import { formatTime, parseTime } from '@/utils/workValues';
+import { DataCorrectionService } from './dataCorrectionService';
+import { FieldRegionService } from './fieldRegionService';
+import { FuzzyMatchService, NameMatchOptions } from './fuzzyMatchService';
+import { GoogleSheetsService } from './googleSheetsService';
+import type { OcrProgressCallback, OcrProvider } from './ocrProvider';
+
+const TIME_FIELDS: ('開始時刻' | '終了時刻')[] = ['開始時刻', '終了時刻'];
+
+type NameMatch = ReturnType<typeof FuzzyMatchService.findBestMatch>;
+type Vote = { value: string; confidence: number };
+type RereadTarget = { section: FormSectionTemplate; index: number; reasons: RereadInfo['reasons'] };
+
+// 切り出し画像の作り方（同じ行を異なる条件で読み取り、結果を投票で照合する）
+type CropVariant = { name: string; minHeight: number; filter: string };
+const CROP_VARIANTS: CropVariant[] = [
+  { name: 'original', minHeight: 96, filter: 'none' },
+  { name: 'enhanced', minHeight: 160, filter: 'grayscale(1) contrast(1.6)' },
+];
+
+/**
+ * 氏名や時刻を読み取れなかった行を切り出して再読み取りするサービス
+ * 初回の読み取りと再読み取りの結果を投票で照合し、一致した値のみ確定する
+ */
+export class OcrRereadService {
+  // 1枚あたりの再読み取りする行数の上限（API呼び出し回数を抑える）
+  private static readonly MAX_ROWS_PER_PAGE = 8;
+  // 切り出す範囲の余白（行の高さに対する割合）
+  private static readonly CROP_PADDING_RATIO = 0.3;
+
+  /**
+   * 補正後のOCR結果のうち要確認の行を再読み取り
+   * @param image OCRに使用した画像（セル領域の基準）
+   * @param signal キャンセル用（中断した場合はAbortErrorで終了する）
+   */
+  static async rereadUncertainRows(
+    result: OcrResult,
+    image: string,
+    provider: OcrProvider,
+    onProgress?: OcrProgressCallback,
+    signal?: AbortSignal
+  ): Promise<OcrResult> {
+    if (!EnvironmentValidator.isOcrRereadEnabled()) {
+      return result;
+    }
+    if (!provider.readRegion) {
+      log.debug('OCRプロバイダーが再読み取りに対応していません', { provider: provider.name });
+      return result;
+    }
+
+    const template = getFormTemplate(result.formTemplateId);
+    const targets = this.findTargets(result, template.sections);
+    if (targets.length === 0) {
+      return result;
+    }
+    if (targets.length > this.MAX_ROWS_PER_PAGE) {
+      log.warn('再読み取りする行数が上限を超えたため一部のみ処理します', {
+        rows: targets.length,
+        limit: this.MAX_ROWS_PER_PAGE
+      });
+    }
+
+    let sourceImage: HTMLImageElement;
+    try {
+      sourceImage = await this.loadImage(image);
+    } catch (error) {
+      log.warn('再読み取り用の画像を読み込めませんでした', error);
+      return result;
+    }
+
+    const { employees, employeeReadings, employeeAliases } = await GoogleSheetsService.getMasterData();
+    const nameMatchOptions: NameMatchOptions = { readings: employeeReadings, aliases: employeeAliases };
+    const imageSize = result.sourceImageSize ?? { width: sourceImage.width, height: sourceImage.height };
+    const records: OcrResult['記録'] = Object.fromEntries(
+      Object.entries(result.記録 || {}).map(([section, sectionRecords]) => [section, [...sectionRecords]])
+    );
+
+    const rows = targets.slice(0, this.MAX_ROWS_PER_PAGE);
+    log.process(`読み取りにくい${rows.length}行を再読み取り`);
+
+    for (let i = 0; i < rows.length; i++) {
+      throwIfAborted(signal);
+      const { section, index, reasons } = rows[i];
+      const record = records[section.key][index];
+      onProgress?.(Math.round((i / rows.length) * 100), `読み取りにくい行を再確認中... (${i + 1}/${rows.length})`);
+
+      const region = FieldRegionService.getRowRegion(record, section, imageSize, template.layout);
+      if (!region) {
+        log.dev(`${section.label}[${index}]: 行の領域が不明なため再読み取りをスキップ`);
+        continue;
+      }
+
+      const fields: RereadField[] = reasons.includes('nameError')
+        ? ['氏名', ...TIME_FIELDS]
+        : [...TIME_FIELDS];
+      const readings = await this.readRow(provider, sourceImage, region, fields, signal);
+      if (readings.length === 0) {
+        continue;
+      }
+
+      records[section.key][index] = this.reconcile(record, reasons, fields, readings, employees, nameMatchOptions);
+    }
+
+    onProgress?.(100, '再確認完了');
+    return { ...result, 記録: records };
+  }
+
+  /**
+   * 再読み取りの対象行を抽出（氏名の補正エラー、時刻の形式不正・信頼度不足）
+   */
+  private static findTargets(result: OcrResult, sections: FormSectionTemplate[]): RereadTarget[] {
+    const targets: RereadTarget[] = [];
+
+    sections.forEach(section => {
+      (result.記録?.[section.key] || []).forEach((record, index) => {
+        if (record.reread) return;
+
+        const reasons: RereadInfo['reasons'] = [];
+        if (record.nameError && record.originalName) reasons.push('nameError');
+        if (TIME_FIELDS.some(field => this.isInvalidTime(record, field))) reasons.push('invalidTime');
+        if (record.timeError) reasons.push('timeError');
+
+        if (reasons.length > 0) {
+          targets.push({ section, index, reasons });
+        }
+      });
+    });
+
+    return targets;
+  }
+
+  /**
+   * 時刻を読み取れていないか（もう一方の時刻がある空欄も対象）
+   */
+  private static isInvalidTime(record: WorkerRecord, field: '開始時刻' | '終了時刻'): boolean {
+    const value = record[field];
+    if (!value) {
+      const other = field === '開始時刻' ? record.終了時刻 : record.開始時刻;
+      return !!other;
+    }
+    return parseTime(value).status !== 'valid';
+  }
+
+  /**
+   * 時刻を H:MM 形式に揃える（解釈できない場合はnull）
+   */
+  private static readTime(value: string | undefined): string | null {
+    const parsed = parseTime(value);
+    return parsed.status === 'valid' ? formatTime(parsed.value) : null;
+  }
+
+  /**
+   * 切り出し方を変えて同じ行を読み取る（失敗した読み取りは除外）
+   */
+  private static async readRow(
+    provider: OcrProvider,
+    image: HTMLImageElement,
+    region: CellRegion,
+    fields: RereadField[],
+    signal?: AbortSignal
+  ): Promise<RegionReading[]> {
+    const results = await Promise.all(
+      CROP_VARIANTS.map(async variant => {
+        try {
+          return await provider.readRegion!(this.cropRegion(image, region, variant), fields, signal);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          log.warn(`再読み取りに失敗しました（${variant.name}）`, error);
+          return null;
+        }
+      })
+    );
+    return results.filter((reading): reading is RegionReading => !!reading);
+  }
+
+  /**
+   * 行を余白付きで切り出し、文字が読みやすい大きさに拡大
+   */
+  private static cropRegion(image: HTMLImageElement, region: CellRegion, variant: CropVariant): string {
+    const padding = region.height * this.CROP_PADDING_RATIO;
+    const x = Math.max(0, region.x - padding);
+    const y = Math.max(0, region.y - padding);
+    const width = Math.min(image.width, region.x + region.width + padding) - x;
+    const height = Math.min(image.height, region.y + region.height + padding) - y;
+    const scale = Math.max(1, variant.minHeight / height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+    ctx.filter = variant.filter;
+    ctx.drawImage(image, x, y, width, height, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.92);
+  }
+
+  /**
+   * 初回の読み取りと再読み取りの結果を照合して記録を更新
+   */
+  private static reconcile<T extends WorkerRecord>(
+    record: T,
+    reasons: RereadInfo['reasons'],
+    fields: RereadField[],
+    readings: RegionReading[],
+    employees: string[],
+    nameMatchOptions?: NameMatchOptions
+  ): T {
+    let updated: T = { ...record };
+    const fieldResults: RereadFieldResult[] = [];
+
+    if (fields.includes('氏名')) {
+      const { result, record: nameUpdated } = this.reconcileName(updated, readings, employees, nameMatchOptions);
+      fieldResults.push(result);
+      updated = nameUpdated;
+    }
+
+    TIME_FIELDS.forEach(field => {
+      const { result, record: timeUpdated } = this.reconcileTime(updated, field, readings);
+      fieldResults.push(result);
+      updated = timeUpdated;
+    });
+
+    updated = applyCellFlags(updated);
+    updated.reread = { reasons, attempts: readings.length, fields: fieldResults };
+
+    fieldResults.forEach(fieldResult => {
+      log.dev(`  再読み取り ${fieldResult.field}: ${fieldResult.before} → ${fieldResult.after}`
+        + ` (${fieldResult.candidates.map(c => `${c.value}:${c.votes}票`).join(', ')})`
+        + (fieldResult.resolved ? ' 確定' : ' 未確定'));
+    });
+
+    return updated;
+  }
+
+  /**
+   * 氏名の照合（各読み取りをマスターデータで補正してから投票）
+   */
+  private static reconcileName<T extends WorkerRecord>(
+    record: T,
+    readings: RegionReading[],
+    employees: string[],
+    nameMatchOptions?: NameMatchOptions
+  ): { result: RereadFieldResult; record: T } {
+    const votes: Vote[] = [];
+    const matches = new Map<string, { raw: string; match: NameMatch }>();
+
+    // 初回の読み取り（補正エラーでもマスターデータに該当する名前は1票として扱う）
+    // 同じ名字の従業員が複数該当する読み取りは、どちらの票か決められないため投票しない
+    if (record.matchType !== 'no_match' && record.氏名 && !record.ambiguousCandidates) {
+      votes.push({ value: record.氏名, confidence: record.confidence ?? 0 });
+    }
+
+    readings.forEach(reading => {
+      const raw = reading.values.氏名;
+      if (!raw) return;
+      const match = FuzzyMatchService.findBestMatch(raw, employees, nameMatchOptions);
+      if (!match.match || match.ambiguousCandidates) return;
+
+      votes.push({ value: match.match, confidence: match.confidence });
+      const existing = matches.get(match.match);
+      if (!existing || existing.match.confidence < match.confidence) {
+        matches.set(match.match, { raw, match });
+      }
+    });
+
+    const candidates = this.tally(votes);
+    const [winner] = candidates;
+    const resolved = !!winner
+      && winner.votes >= 2
+      && winner.confidence >= DataCorrectionService.NAME_ERROR_CONFIDENCE;
+
+    const result: RereadFieldResult = {
+      field: '氏名',
+      before: record.氏名,
+      after: record.氏名,
+      candidates,
+      resolved,
+    };
+    if (!resolved) {
+      return { result, record };
+    }
+
+    const updated: T = { ...record, 氏名: winner.value, confidence: winner.confidence };
+    const best = matches.get(winner.value);
+    if (best) {
+      updated.originalName = best.raw;
+      updated.matchType = best.match.type;
+      updated.isLastNameMatch = best.match.isLastNameMatch;
+    }
+    delete updated.nameError;
+    delete updated.ambiguousCandidates;
+    result.after = winner.value;
+    return { result, record: updated };
+  }
+
+  /**
+   * 時刻の照合（時刻として解釈できる読み取りのみ投票）
+   */
+  private static reconcileTime<T extends WorkerRecord>(
+    record: T,
+    field: '開始時刻' | '終了時刻',
+    readings: RegionReading[]
+  ): { result: RereadFieldResult; record: T } {
+    const votes: Vote[] = [];
+    const cell = record.cells?.[field];
+    const firstPass = this.readTime(record[field]);
+    if (firstPass) {
+      votes.push({ value: firstPass, confidence: cell?.confidence ?? LOW_CELL_CONFIDENCE });
+    }
+
+    readings.forEach(reading => {
+      const value = this.readTime(reading.values[field]);
+      if (value) {
+        votes.push({ value, confidence: reading.confidence[field] ?? LOW_CELL_CONFIDENCE });
+      }
+    });
+
+    const candidates = this.tally(votes);
+    const [winner] = candidates;
+    const resolved = !!winner && winner.votes >= 2;
+    const result: RereadFieldResult = {
+      field,
+      before: record[field],
+      after: record[field],
+      candidates,
+      resolved,
+    };
+
+    // 一致しない場合でも、初回で読み取れなかった時刻は最有力の候補で補う（要確認のまま）
+    if (!winner || (!resolved && firstPass)) {
+      return { result, record };
+    }
+
+    const confidence = resolved
+      ? Math.max(winner.confidence, LOW_CELL_CONFIDENCE)
+      : Math.min(winner.confidence, LOW_CELL_CONFIDENCE / 2);
+    const updated: T = {
+      ...record,
+      [field]: winner.value,
+      cells: { ...record.cells, [field]: { ...cell, confidence } },
+    };
+    // 時刻リストの1件目は記録の開始・終了時刻と同じ値
+    if (record.時刻リスト && record.時刻リスト.length > 0) {
+      const slots = [...record.時刻リスト];
+      const slotCell = slots[0].cells?.[field];
+      slots[0] = {
+        ...slots[0],
+        [field]: winner.value,
+        cells: slotCell ? { ...slots[0].cells, [field]: { ...slotCell, confidence } } : slots[0].cells,
+      };
+      updated.時刻リスト = slots;
+    }
+
+    result.after = winner.value;
+    return { result, record: updated };
+  }
+
+  /**
+   * 同じ値の読み取りを集計（票数・信頼度の高い順）
+   */
+  private static tally(votes: Vote[]): RereadCandidate[] {
+    const candidates = new Map<string, RereadCandidate>();
+    votes.forEach(vote => {
+      const existing = candidates.get(vote.value);
+      if (existing) {
+        existing.votes++;
+        existing.confidence = Math.max(existing.confidence, vote.confidence);
+      } else {
+        candidates.set(vote.value, { value: vote.value, votes: 1, confidence: vote.confidence });
+      }
+    });
+
+    return Array.from(candidates.values()).sort((a, b) =>
+      b.votes - a.votes || b.confidence - a.confidence
+    );
+  }
+
+  private static loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to load image'));
+      img.src = src;
+    });
+  }
+}
@@ -0,0 +1,581 @@
+import {
+  OcrResult,
+  HeaderInfo,
+  WorkerRecord,
+  TimeSlot,
+  CellMeta,
+  HeaderCellKey,
+  TimeSlotCellKey,
+  OcrValidationIssue,
+  OcrValidationIssueKind,
+  RegionReading,
+  RereadField,
+  FormTemplate,
+  FormSectionTemplate,
+  FormCheckboxTemplate,
+} from '@/types';
+import { STANDARD_FORM_TEMPLATE, getSectionCellKeys } from '@/templates/formTemplates';
+import { log } from '@/utils/logger';
+import {
+  isUnreadableValue,
+  normalizeCount,
+  normalizeTime,
+  normalizeWorkHours,
+  parseCount,
+  parseTime,
+  parseWorkHours,
+} from '@/utils/workValues';
+
+/**
+ * 解析結果（補正済みのOCR結果と検出した問題の一覧）
+ */
+export interface OcrParseOutcome {
+  result: OcrResult;
+  issues: OcrValidationIssue[];
+}
+
+// チェックボックスの真偽値として受け付ける表記
+const TRUE_VALUES = ['true', '有', 'あり', '○', '〇', '✓', '✔', 'レ', 'on', 'yes', '1'];
+const FALSE_VALUES = ['false', '無', 'なし', '×', '', 'off', 'no', '0'];
+
+// セル情報として受け付ける項目（作業記録の行は用紙テンプレートの列）
+const HEADER_CELL_KEYS: HeaderCellKey[] = ['作業日', '工場名', '商品名', '作業時間'];
+const TIME_SLOT_CELL_KEYS: TimeSlotCellKey[] = ['開始時刻', '終了時刻'];
+
+/**
+ * OpenAI APIの応答テキストからOCR結果を取り出し、スキーマに沿って検証・補正する
+ */
+export class OcrResponseParser {
+  /**
+   * 応答テキストを解析してOCR結果を返す
+   * 構造が全く読み取れない場合のみ例外を投げ、それ以外は問題一覧とともに結果を返す
+   * @param reachedTokenLimit APIがトークン上限で出力を打ち切った場合true
+   * @param template 撮影した用紙のテンプレート（表・列・チェックボックスの定義）
+   */
+  static parse(
+    content: string,
+    reachedTokenLimit: boolean = false,
+    template: FormTemplate = STANDARD_FORM_TEMPLATE
+  ): OcrParseOutcome {
+    const { json, repaired } = this.extractJson(content);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (parseError) {
+      log.error('JSON解析エラー', parseError);
+      log.debug('レスポンス内容長', content.length);
+      log.dev('解析に失敗したレスポンス（最初の500文字）:', content.substring(0, 500));
+      throw new Error('OCR結果の解析に失敗しました。画像が不鮮明な可能性があります。');
+    }
+
+    const outcome = this.validate(raw, repaired || reachedTokenLimit ? json : null, template);
+
+    if (outcome.issues.length > 0) {
+      log.warn('OCR結果に問題を検出', { count: outcome.issues.length });
+      outcome.issues.forEach(issue => log.dev(`  [${issue.kind}] ${issue.path}: ${issue.message}`));
+    }
+
+    return outcome;
+  }
+
+  /**
+   * 切り出した行の再読み取り結果を解析（読み取れない項目は結果に含めない）
+   */
+  static parseRegionReading(content: string, fields: RereadField[]): RegionReading {
+    const { json } = this.extractJson(content);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('再読み取り結果の解析に失敗しました');
+    }
+
+    const reading: RegionReading = { values: {}, confidence: {} };
+    if (!this.isObject(raw)) {
+      return reading;
+    }
+
+    const data = raw;
+    const confidence = this.isObject(data['信頼度']) ? data['信頼度'] : {};
+    fields.forEach(field => {
+      const value = data[field];
+      if ((typeof value === 'string' || typeof value === 'number') && !isUnreadableValue(value)) {
+        reading.values[field] = String(value).trim();
+        const fieldConfidence = Number(confidence[field]);
+        if (Number.isFinite(fieldConfidence)) {
+          reading.confidence[field] = Math.min(1, Math.max(0, fieldConfidence));
+        }
+      }
+    });
+
+    return reading;
+  }
+
+  /**
+   * 応答テキストからJSON部分を抽出（途中で切れている場合は修復）
+   */
+  static extractJson(content: string): { json: string; repaired: boolean } {
+    let jsonString = content.trim();
+
+    // ```json...``` または ```...``` ブロック、なければ { ... } の範囲を抽出
+    const codeBlockMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (codeBlockMatch) {
+      jsonString = codeBlockMatch[1].trim();
+      log.debug('コードブロック形式で解析');
+    } else {
+      const jsonStartIndex = content.indexOf('{');
+      const jsonEndIndex = content.lastIndexOf('}');
+      if (jsonStartIndex !== -1 && jsonEndIndex > jsonStartIndex) {
+        jsonString = content.substring(jsonStartIndex, jsonEndIndex + 1).trim();
+        log.debug('JSON部分を直接抽出');
+      } else if (jsonStartIndex !== -1) {
+        // 閉じ括弧がない＝応答が途中で切れている
+        jsonString = content.substring(jsonStartIndex).trim();
+        log.debug('閉じられていないJSONを抽出');
+      }
+    }
+
+    const repairedJson = this.repairIncompleteJson(jsonString);
+    return { json: repairedJson, repaired: repairedJson !== jsonString };
+  }
+
+  /**
+   * 途中で切れたJSONを修復
+   */
+  private static repairIncompleteJson(jsonString: string): string {
+    try {
+      // 既に正常なJSONの場合はそのまま返す
+      JSON.parse(jsonString);
+      return jsonString;
+    } catch {
+      log.debug('JSONが不完全のため修復を試行');
+
+      let repairedJson = jsonString.trim();
+
+      // 1. 最後のカンマ後に不完全な要素がある場合は削除
+      repairedJson = repairedJson.replace(/,\s*$/, '');
+      repairedJson = repairedJson.replace(/,\s*[^}\]]*$/, '');
+
+      // 2. 不完全な文字列値を修復
+      repairedJson = repairedJson.replace(/"[^"]*$/, '""');
+
+      // 3. 開いたオブジェクトや配列を閉じる（開いた順の逆順で閉じる）
+      const openStack: string[] = [];
+      let inString = false;
+      let escapeNext = false;
+
+      for (let i = 0; i < repairedJson.length; i++) {
+        const char = repairedJson[i];
+
+        if (escapeNext) {
+          escapeNext = false;
+          continue;
+        }
+        if (char === '\\') {
+          escapeNext = true;
+          continue;
+        }
+        if (char === '"') {
+          inString = !inString;
+          continue;
+        }
+        if (inString) continue;
+
+        if (char === '{' || char === '[') openStack.push(char);
+        if (char === '}' || char === ']') openStack.pop();
+      }
+
+      while (openStack.length > 0) {
+        repairedJson += openStack.pop() === '{' ? '}' : ']';
+      }
+
+      // 修復したJSONが正常かテスト
+      try {
+        JSON.parse(repairedJson);
+        log.debug('JSON修復成功');
+        return repairedJson;
+      } catch {
+        log.warn('JSON修復失敗 - 元のJSONを返します');
+        return jsonString;
+      }
+    }
+  }
+
+  /**
+   * 解析済みの値をOcrResultのスキーマに沿って検証・補正
+   * @param repairedJson 修復したJSON文字列（途中切断の検出用）。修復していない場合はnull
+   * @param template 用紙テンプレート（テンプレートの表・列のみ検証し、結果に含める）
+   */
+  static validate(
+    raw: unknown,
+    repairedJson: string | null = null,
+    template: FormTemplate = STANDARD_FORM_TEMPLATE
+  ): OcrParseOutcome {
+    const issues: OcrValidationIssue[] = [];
+    const addIssue = (path: string, kind: OcrValidationIssueKind, message: string) => {
+      issues.push({ path, kind, message });
+    };
+
+    if (!this.isObject(raw)) {
+      throw new Error('OCR結果の形式が正しくありません。もう一度撮影してください。');
+    }
+
+    // 表は用紙上の名前（テンプレートのlabel）で出力される。旧形式の格納先の名前も受け付ける
+    const sectionKeys = (section: FormSectionTemplate) => [section.label, section.key];
+    const hasAnySection = template.sections.some(section => sectionKeys(section).some(key => key in raw));
+    if (!('ヘッダー' in raw) && !hasAnySection) {
+      throw new Error('OCR結果の形式が正しくありません。もう一度撮影してください。');
+    }
+
+    const header = this.validateHeader(raw['ヘッダー'], template, addIssue);
+    const records: Record<string, WorkerRecord[]> = {};
+    template.sections.forEach(section => {
+      const rawSection = section.label in raw ? raw[section.label] : raw[section.key];
+      records[section.key] = this.validateRecords(section, rawSection, addIssue);
+    });
+
+    // 途中で切れた応答を修復した場合、最後に出力された表の末尾行は不完全な可能性が高い
+    if (repairedJson) {
+      const lastSection = template.sections
+        .filter(section => records[section.key].length > 0)
+        .sort((a, b) => this.lastSectionIndex(repairedJson, a) - this.lastSectionIndex(repairedJson, b))
+        .pop();
+
+      if (lastSection) {
+        const lastIndex = records[lastSection.key].length - 1;
+        addIssue(
+          `${lastSection.label}[${lastIndex}]`,
+          'truncated',
+          '応答が途中で切れたため、この行以降が欠けている可能性があります'
+        );
+      } else {
+        addIssue('(全体)', 'truncated', '応答が途中で切れたため、記録の一部が欠けている可能性があります');
+      }
+    }
+
+    return {
+      result: {
+        ヘッダー: header,
+        記録: records,
+        validationIssues: issues,
+      },
+      issues,
+    };
+  }
+
+  /**
+   * 応答内で表が最後に出力された位置
+   */
+  private static lastSectionIndex(json: string, section: FormSectionTemplate): number {
+    return Math.max(json.lastIndexOf(`"${section.label}"`), json.lastIndexOf(`"${section.key}"`));
+  }
+
+  /**
+   * ヘッダー情報の検証（用紙にない項目は空欄）
+   */
+  private static validateHeader(
+    raw: unknown,
+    template: FormTemplate,
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): HeaderInfo {
+    if (!this.isObject(raw)) {
+      addIssue('ヘッダー', raw === undefined ? 'missing' : 'wrong_type', 'ヘッダー情報を読み取れませんでした');
+      return { 工場名: '', 商品名: '', 作業時間: '' };
+    }
+
+    const header: HeaderInfo = { 工場名: '', 商品名: '', 作業時間: '' };
+    template.headerFields.forEach(field => {
+      header[field] = field === '作業時間'
+        ? this.coerceWorkHours(raw[field], `ヘッダー.${field}`, addIssue)
+        : this.coerceText(raw[field], `ヘッダー.${field}`, addIssue);
+    });
+
+    if (raw['作業日'] !== undefined && raw['作業日'] !== null) {
+      header.作業日 = String(raw['作業日']).trim();
+    }
+
+    const cells = this.coerceCells(raw['セル情報'], HEADER_CELL_KEYS);
+    if (cells) {
+      header.cells = cells;
+    }
+
+    return header;
+  }
+
+  /**
+   * 作業記録テーブルの検証（列は用紙上の列名で出力される。格納先の名前も受け付ける）
+   */
+  private static validateRecords(
+    section: FormSectionTemplate,
+    raw: unknown,
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): WorkerRecord[] {
+    if (raw === undefined || raw === null) {
+      addIssue(section.label, 'missing', `${section.label}の表を読み取れませんでした`);
+      return [];
+    }
+    if (!Array.isArray(raw)) {
+      addIssue(section.label, 'wrong_type', `${section.label}の形式が正しくありません`);
+      return [];
+    }
+
+    const records: WorkerRecord[] = [];
+    raw.forEach((item, index) => {
+      const path = `${section.label}[${index}]`;
+      if (!this.isObject(item)) {
+        addIssue(path, 'wrong_type', '行の形式が正しくないため除外しました');
+        return;
+      }
+
+      const record: WorkerRecord = { 氏名: '', 開始時刻: '', 終了時刻: '', チェック: {}, 値: {}, sourceRow: index };
+      section.columns.forEach(column => {
+        const value = column.label in item ? item[column.label] : item[column.key];
+        const columnPath = `${path}.${column.label}`;
+        switch (column.kind) {
+          case 'name':
+            record.氏名 = this.coerceText(value, columnPath, addIssue);
+            break;
+          case 'startTime':
+            record.開始時刻 = this.coerceTime(value, columnPath, addIssue);
+            break;
+          case 'endTime':
+            record.終了時刻 = this.coerceTime(value, columnPath, addIssue);
+            break;
+          case 'checkboxes':
+            Object.assign(record.チェック, this.coerceCheckboxes(value, columnPath, column.checkboxes, addIssue));
+            break;
+          case 'count':
+            record.値[column.key] = this.coerceCount(value, columnPath, addIssue);
+            break;
+          case 'text':
+            // 文字の列は空欄でも問題として報告しない
+            record.値[column.key] = value === undefined || value === null || isUnreadableValue(value) ? '' : String(value).trim();
+            break;
+        }
+      });
+
+      const timeSlots = this.coerceTimeSlots(item['時刻リスト'], `${path}.時刻リスト`, addIssue);
+      if (timeSlots) {
+        record.時刻リスト = timeSlots;
+      }
+
+      const cells = this.coerceCells(this.renameCells(item['セル情報'], section), getSectionCellKeys(section));
+      if (cells) {
+        record.cells = cells;
+      }
+
+      records.push(record);
+    });
+
+    return records;
+  }
+
+  /**
+   * 文字列項目の補正（数値は文字列化、読み取り不能値は空文字）
+   */
+  private static coerceText(
+    value: unknown,
+    path: string,
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): string {
+    if (value === undefined || value === null || isUnreadableValue(value)) {
+      addIssue(path, 'missing', '読み取れませんでした');
+      return '';
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    if (typeof value !== 'string') {
+      addIssue(path, 'wrong_type', '文字列ではない値が返されたため空欄にしました');
+      return '';
+    }
+    return value.trim();
+  }
+
+  /**
+   * 時刻の補正（H:MM 形式に揃え、解釈できない場合は問題として報告）
+   */
+  private static coerceTime(
+    value: unknown,
+    path: string,
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): string {
+    const text = this.coerceText(value, path, addIssue);
+    if (text && parseTime(text).status === 'invalid') {
+      addIssue(path, 'invalid_value', `時刻として読み取れませんでした（${text}）`);
+    }
+    return normalizeTime(text);
+  }
+
+  /**
+   * 作業時間の補正（時刻の範囲・時間の長さの表記に揃え、解釈できない場合は問題として報告）
+   */
+  private static coerceWorkHours(
+    value: unknown,
+    path: string,
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): string {
+    const text = this.coerceText(value, path, addIssue);
+    if (text && parseWorkHours(text).status === 'invalid') {
+      addIssue(path, 'invalid_value', `作業時間として読み取れませんでした（${text}）`);
+    }
+    return normalizeWorkHours(text);
+  }
+
+  /**
+   * 数量の補正（桁区切り・単位を除いた数字に揃え、解釈できない場合は問題として報告）
+   */
+  private static coerceCount(
+    value: unknown,
+    path: string,
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): string {
+    const text = this.coerceText(value, path, addIssue);
+    if (text && parseCount(text).status === 'invalid') {
+      addIssue(path, 'invalid_value', `数値として読み取れませんでした（${text}）`);
+    }
+    return normalizeCount(text);
+  }
+
+  /**
+   * セル情報のキーを用紙上の表記から格納先の名前に変換
+   */
+  private static renameCells(value: unknown, section: FormSectionTemplate): unknown {
+    if (!this.isObject(value)) {
+      return value;
+    }
+    const renamed: Record<string, unknown> = {};
+    section.columns
+      .flatMap(column => (column.kind === 'checkboxes' ? column.checkboxes : [column]))
+      .forEach(({ key, label }) => {
+        const cell = label in value ? value[label] : value[key];
+        if (cell !== undefined) {
+          renamed[key] = cell;
+        }
+      });
+    return renamed;
+  }
+
+  /**
+   * チェックボックスの補正（判別できないチェックボックスはなし）
+   */
+  private static coerceCheckboxes(
+    value: unknown,
+    path: string,
+    checkboxes: FormCheckboxTemplate[],
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): Record<string, boolean> {
+    const checked: Record<string, boolean> = {};
+    checkboxes.forEach(({ key }) => { checked[key] = false; });
+
+    if (!this.isObject(value)) {
+      addIssue(path, value === undefined ? 'missing' : 'wrong_type', 'チェックボックスを読み取れませんでした（なしとして扱います）');
+      return checked;
+    }
+
+    checkboxes.forEach(({ key, label }) => {
+      const item = label in value ? value[label] : value[key];
+      if (typeof item === 'boolean') {
+        checked[key] = item;
+        return;
+      }
+
+      const normalized = String(item ?? '').trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) {
+        checked[key] = true;
+      } else if (item !== undefined && item !== null && FALSE_VALUES.includes(normalized)) {
+        checked[key] = false;
+      } else {
+        addIssue(`${path}.${label}`, item === undefined || item === null ? 'missing' : 'wrong_type', 'チェックの有無を判別できませんでした（なしとして扱います）');
+      }
+    });
+
+    return checked;
+  }
+
+  /**
+   * 時刻リストの補正（不正な要素は除外）
+   */
+  private static coerceTimeSlots(
+    value: unknown,
+    path: string,
+    addIssue: (path: string, kind: OcrValidationIssueKind, message: string) => void
+  ): TimeSlot[] | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!Array.isArray(value)) {
+      addIssue(path, 'wrong_type', '時刻リストの形式が正しくないため無視しました');
+      return undefined;
+    }
+
+    const slots: TimeSlot[] = [];
+    value.forEach((slot, index) => {
+      if (!this.isObject(slot)) {
+        addIssue(`${path}[${index}]`, 'wrong_type', '時刻の形式が正しくないため除外しました');
+        return;
+      }
+      const timeSlot: TimeSlot = {
+        開始時刻: this.coerceTime(slot['開始時刻'], `${path}[${index}].開始時刻`, addIssue),
+        終了時刻: this.coerceTime(slot['終了時刻'], `${path}[${index}].終了時刻`, addIssue),
+      };
+      const cells = this.coerceCells(slot['セル情報'], TIME_SLOT_CELL_KEYS);
+      if (cells) {
+        timeSlot.cells = cells;
+      }
+      slots.push(timeSlot);
+    });
+
+    return slots.length > 0 ? slots : undefined;
+  }
+
+  /**
+   * セル情報（信頼度と領域）の補正
+   * 領域は画像サイズに対する0〜1の比率 [x, y, 幅, 高さ] で受け取る（ピクセルへの変換は呼び出し側）
+   * 補助的な情報のため、不正な値は問題として報告せずに無視する
+   */
+  private static coerceCells<K extends string>(
+    value: unknown,
+    keys: K[]
+  ): Partial<Record<K, CellMeta>> | undefined {
+    if (!this.isObject(value)) {
+      return undefined;
+    }
+
+    const cells: Partial<Record<K, CellMeta>> = {};
+    keys.forEach(key => {
+      const cell = value[key];
+      if (!this.isObject(cell)) return;
+
+      const confidence = Number(cell['信頼度']);
+      if (!Number.isFinite(confidence)) return;
+
+      const meta: CellMeta = { confidence: Math.min(1, Math.max(0, confidence)) };
+      const region = cell['領域'];
+      if (Array.isArray(region) && region.length === 4 && region.every(v => typeof v === 'number' && Number.isFinite(v))) {
+        const [x, y, width, height] = region.map(v => Math.min(1, Math.max(0, v)));
+        if (width > 0 && height > 0) {
+          meta.region = { x, y, width, height };
+        }
+      }
+      cells[key] = meta;
+    });
+
+    return Object.keys(cells).length > 0 ? cells : undefined;
+  }
+
+  /**
+   * 問題箇所のパスを画面表示用の文言に変換
+   * 例: 包装作業記録[1].終了時刻 → 包装作業記録 2行目 終了時刻
+   */
+  static formatIssuePath(path: string): string {
+    return path
+      .replace(/\[(\d+)\]/g, (_, index: string) => ` ${Number(index) + 1}行目`)
+      .replace(/\./g, ' ');
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
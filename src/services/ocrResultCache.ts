@@ -0,0 +1,165 @@
+import { OcrResult } from '@/types';
+import { log } from '@/utils/logger';
+
+interface CachedOcrResult {
+  key: string;
+  result: OcrResult;
+  size: number;          // 結果のJSONの文字数（容量制限の計算用）
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * OCR結果のキャッシュ（IndexedDB）
+ * 画像のハッシュとプロンプトのバージョンをキーにし、同じ画像の再送信による課金を防ぐ
+ * IndexedDBを使用できない環境ではキャッシュなしで動作する
+ */
+export class OcrResultCache {
+  private static readonly DB_NAME = 'worklog-ocr-cache';
+  // 2: 作業記録を用紙テンプレートの表ごとに格納（記録）。旧形式のキャッシュは破棄する
+  private static readonly DB_VERSION = 2;
+  private static readonly STORE_NAME = 'results';
+  private static readonly MAX_ENTRIES = 50;
+  private static readonly MAX_TOTAL_SIZE = 10 * 1024 * 1024; // 約10MB
+  private static readonly TTL = 7 * 24 * 60 * 60 * 1000;     // 7日
+
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * キャッシュのキーを作成（画像の内容・プロンプトのバージョン・用紙テンプレート・学習データのヒント）
+   * @param promptHintsId プロンプトに追加したヒントの識別子（ヒントなしは空文字）
+   */
+  static async createKey(
+    imageData: string,
+    promptVersion: string,
+    templateId: string,
+    promptHintsId: string
+  ): Promise<string> {
+    const base64 = imageData.includes(',') ? imageData.slice(imageData.indexOf(',') + 1) : imageData;
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hash}:${promptVersion}:${templateId}:${promptHintsId}`;
+  }
+
+  /**
+   * キャッシュからOCR結果を取得（ない場合・期限切れの場合はnull）
+   */
+  static async get(key: string): Promise<OcrResult | null> {
+    try {
+      const db = await this.openDatabase();
+      const entry = await this.request<CachedOcrResult | undefined>(
+        db.transaction(this.STORE_NAME, 'readonly').objectStore(this.STORE_NAME).get(key)
+      );
+      if (!entry) return null;
+
+      const store = db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME);
+      if (Date.now() - entry.createdAt > this.TTL) {
+        await this.request(store.delete(key));
+        return null;
+      }
+
+      // 最近使用した結果を残すため、参照日時を更新
+      await this.request(store.put({ ...entry, lastAccessedAt: Date.now() }));
+      return entry.result;
+    } catch (error) {
+      log.warn('OCRキャッシュの読み込みに失敗しました', error);
+      return null;
+    }
+  }
+
+  /**
+   * OCR結果をキャッシュに保存し、上限を超えた分を古い順に削除
+   */
+  static async set(key: string, result: OcrResult): Promise<void> {
+    try {
+      const size = JSON.stringify(result).length;
+      if (size > this.MAX_TOTAL_SIZE) return;
+
+      const db = await this.openDatabase();
+      const now = Date.now();
+      const entry: CachedOcrResult = { key, result, size, createdAt: now, lastAccessedAt: now };
+      await this.request(db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME).put(entry));
+      await this.evict(db);
+    } catch (error) {
+      log.warn('OCRキャッシュの保存に失敗しました', error);
+    }
+  }
+
+  /**
+   * キャッシュをすべて削除
+   */
+  static async clear(): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      await this.request(db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME).clear());
+      log.info('OCRキャッシュを削除しました');
+    } catch (error) {
+      log.warn('OCRキャッシュの削除に失敗しました', error);
+    }
+  }
+
+  /**
+   * 期限切れ・件数上限・容量上限を超えた結果を、参照日時の古い順に削除
+   */
+  private static async evict(db: IDBDatabase): Promise<void> {
+    const store = db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME);
+    const entries = await this.request<CachedOcrResult[]>(store.getAll());
+    const now = Date.now();
+
+    const expired = entries.filter(entry => now - entry.createdAt > this.TTL);
+    const alive = entries
+      .filter(entry => now - entry.createdAt <= this.TTL)
+      .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+
+    const overflow: CachedOcrResult[] = [];
+    let totalSize = 0;
+    alive.forEach((entry, index) => {
+      totalSize += entry.size;
+      if (index >= this.MAX_ENTRIES || totalSize > this.MAX_TOTAL_SIZE) {
+        overflow.push(entry);
+      }
+    });
+
+    const removed = [...expired, ...overflow];
+    await Promise.all(removed.map(entry => this.request(store.delete(entry.key))));
+    if (removed.length > 0) {
+      log.debug('OCRキャッシュを整理', { removed: removed.length, remaining: entries.length - removed.length });
+    }
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (request.result.objectStoreNames.contains(this.STORE_NAME)) {
+            request.result.deleteObjectStore(this.STORE_NAME);
+          }
+          request.result.createObjectStore(this.STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // 失敗した場合は次回に再接続する
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private static request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -1,15 +1,55 @@
-import { OcrResult } from '@/types';
+import { FormTemplate, OcrRequestError, OcrResult, OcrUsagePurpose, RegionReading, RereadField } from '@/types';
 import { EnvironmentValidator } from '@/utils/envConfig';
-import { OCR_PROMPT } from '@/prompts/ocrPrompt';
+import { OcrPromptRegistry, OcrPromptDefinition } from '@/prompts/promptRegistry';
+import { buildFormDetectionPrompt } from '@/prompts/templatePrompt';
+import { STANDARD_FORM_TEMPLATE } from '@/templates/formTemplates';
 import { log } from '@/utils/logger';
+import { scaleCellRegions } from '@/utils/cellMeta';
+import { getAllRecords } from '@/utils/workerRecords';
+import { isAbortError, throwIfAborted } from '@/utils/abort';
+import { OcrResponseParser } from './ocrResponseParser';
+import { OcrResultCache } from './ocrResultCache';
+import { OcrUsageService } from './ocrUsageService';
+import { GoogleSheetsService } from './googleSheetsService';
+import { CorrectionMemoryService } from './correctionMemoryService';
+import type { OcrProcessOptions, OcrProgressCallback, OcrProvider } from './ocrProvider';
 
 /**
- * OpenAI Vision APIを使用したOCRサービス
+ * Chat Completions APIの応答（使用する項目のみ）
  */
-export class OpenAIOcrService {
-  private static config: any = null;
+interface ChatCompletionResponse {
+  choices: { message: { content: string }; finish_reason?: string }[];
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+/**
+ * ストリーミング応答の1チャンク（使用する項目のみ）
+ */
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string }; finish_reason?: string | null }[];
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+}
+
+/**
+ * Chat Completions APIへのリクエストのオプション
+ */
+interface CompletionRequestOptions {
+  /** 画像の解析の解像度 */
+  detail?: 'high' | 'low';
+  signal?: AbortSignal;
+  /** 応答の受信中に、受信したトークン数を通知 */
+  onTokens?: (receivedTokens: number) => void;
+}
+
+/**
+ * OpenAI Vision APIを使用したOCRプロバイダー
+ */
+export class OpenAIOcrService implements OcrProvider {
+  readonly name = 'openai';
+  readonly displayName = 'OpenAI API';
+  private config: any = null;
   
-  private static getConfig() {
+  private getConfig() {
     if (!this.config) {
       try {
         this.config = EnvironmentValidator.getConfig();
@@ -22,6 +62,7 @@ export class OpenAIOcrService {
           spreadsheetId: '',
           appName: '作業記録簿OCR',
           appVersion: '1.0.0',
+          ocrProvider: 'openai',
           isDev: false
         };
       }
@@ -32,8 +73,12 @@ export class OpenAIOcrService {
 
   /**
    * 画像を圧縮（ファイルサイズ制限対応）
+   * セル領域の変換用に元画像のサイズも返す
    */
-  private static async compressImage(imageData: string, maxSizeKB: number = 2048): Promise<string> {
+  private async compressImage(
+    imageData: string,
+    maxSizeKB: number = 2048
+  ): Promise<{ dataUrl: string; sourceWidth: number; sourceHeight: number }> {
     return new Promise((resolve) => {
       const img = new Image();
       img.onload = () => {
@@ -82,92 +127,22 @@ export class OpenAIOcrService {
           });
         };
         
-        compressWithQuality(0.9).then(resolve);
+        compressWithQuality(0.9).then(dataUrl =>
+          resolve({ dataUrl, sourceWidth: originalWidth, sourceHeight: originalHeight })
+        );
       };
       img.src = imageData;
     });
   }
 
-  /**
-   * 途中で切れたJSONを修復
-   */
-  private static repairIncompleteJson(jsonString: string): string {
-    try {
-      // 既に正常なJSONの場合はそのまま返す
-      JSON.parse(jsonString);
-      return jsonString;
-    } catch {
-      log.debug('JSONが不完全のため修復を試行');
-      
-      let repairedJson = jsonString.trim();
-      
-      // 1. 最後のカンマ後に不完全な要素がある場合は削除
-      repairedJson = repairedJson.replace(/,\s*$/, '');
-      repairedJson = repairedJson.replace(/,\s*[^}\]]*$/, '');
-      
-      // 2. 不完全な文字列値を修復
-      repairedJson = repairedJson.replace(/"[^"]*$/, '""');
-      
-      // 3. 開いたオブジェクトや配列を閉じる
-      let openBraces = 0;
-      let openBrackets = 0;
-      let inString = false;
-      let escapeNext = false;
-      
-      for (let i = 0; i < repairedJson.length; i++) {
-        const char = repairedJson[i];
-        
-        if (escapeNext) {
-          escapeNext = false;
-          continue;
-        }
-        
-        if (char === '\\') {
-          escapeNext = true;
-          continue;
-        }
-        
-        if (char === '"') {
-          inString = !inString;
-          continue;
-        }
-        
-        if (inString) continue;
-        
-        if (char === '{') openBraces++;
-        if (char === '}') openBraces--;
-        if (char === '[') openBrackets++;
-        if (char === ']') openBrackets--;
-      }
-      
-      // 開いたままの括弧を閉じる
-      while (openBrackets > 0) {
-        repairedJson += ']';
-        openBrackets--;
-      }
-      while (openBraces > 0) {
-        repairedJson += '}';
-        openBraces--;
-      }
-      
-      // 修復したJSONが正常かテスト
-      try {
-        JSON.parse(repairedJson);
-        log.debug('JSON修復成功');
-        return repairedJson;
-      } catch {
-        log.warn('JSON修復失敗 - 元のJSONを返します');
-        return jsonString;
-      }
-    }
-  }
-
   /**
    * OpenAI Vision APIでOCR処理を実行
    */
-  static async processImage(
+  async processImage(
     imageData: string,
-    onProgress?: (progress: number, message: string) => void
+    onProgress?: OcrProgressCallback,
+    template: FormTemplate = STANDARD_FORM_TEMPLATE,
+    options: OcrProcessOptions = {}
   ): Promise<OcrResult> {
     try {
       onProgress?.(5, '画像を準備中...');
@@ -177,144 +152,90 @@ export class OpenAIOcrService {
         ? imageData 
         : `data:image/jpeg;base64,${imageData}`;
 
-      // 画像を圧縮
-      onProgress?.(15, '画像を最適化中...');
-      const compressedImage = await this.compressImage(processedImageData);
-      
-      onProgress?.(25, 'OpenAI APIに接続中...');
-      onProgress?.(35, 'リクエストを送信中...');
-      
-      // 設定されたモデルを使用
-      const requestBody = {
-        model: 'gpt-5-mini-2025-08-07', // 設定されたOCRモデルを使用
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: OCR_PROMPT
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: compressedImage,
-                  detail: 'high' // 高解像度解析を有効
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 3000, // トークン数を増やしてJSONの途中切断を防止
-        temperature: 0.1, // 低い温度で安定した結果を得る
-      };
+      // 選択中のバージョンのプロンプト・パラメーターで送信（用紙に対応しないバージョンは切り替える）
+      const promptDefinition = OcrPromptRegistry.getActive(template);
+      log.debug('OCRプロンプト', { version: promptDefinition.version, formTemplate: template.id });
 
-      onProgress?.(45, '手書き文字を解析中...');
+      // 過去の補正から作成したヒント（よく記入される氏名・読み間違えやすい例）をプロンプトに追加
+      // ヒントは学習データとともに変わるため、識別子を結果とキャッシュのキーに含める
+      const promptHints = CorrectionMemoryService.buildPromptHints();
+      const promptHintsId = await CorrectionMemoryService.getPromptHintsId(promptHints);
 
-      // OpenAI APIへのリクエスト
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.getConfig().openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      onProgress?.(75, 'AIが文字を認識中...');
-      onProgress?.(85, 'データを構造化中...');
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `OpenAI API エラー (${response.status}): ${
-            errorData.error?.message || response.statusText
-          }`
-        );
+      // 同じ画像・プロンプトで読み取り済みの場合はキャッシュを使用（再読み取りを指定した場合を除く）
+      throwIfAborted(options.signal);
+      const cacheKey = await OcrResultCache.createKey(
+        processedImageData,
+        promptDefinition.version,
+        template.id,
+        promptHintsId
+      );
+      if (!options.forceRefresh) {
+        const cached = await OcrResultCache.get(cacheKey);
+        if (cached) {
+          log.info('OCR結果をキャッシュから取得しました', {
+            promptVersion: cached.promptVersion,
+            promptHintsId: cached.promptHintsId,
+          });
+          OcrUsageService.record({
+            provider: this.name,
+            model: promptDefinition.model,
+            promptVersion: promptDefinition.version,
+            purpose: 'ocr',
+            imageCount: 1,
+            promptTokens: 0,
+            completionTokens: 0,
+            totalTokens: 0,
+            outcome: 'cached',
+          });
+          onProgress?.(100, '前回の読み取り結果を使用');
+          return { ...cached, fromCache: true };
+        }
       }
 
-      const data = await response.json();
+      // 画像を圧縮
+      onProgress?.(15, '画像を最適化中...');
+      const { dataUrl: compressedImage, sourceWidth, sourceHeight } = await this.compressImage(processedImageData);
       
-      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-        throw new Error('OpenAI APIから無効なレスポンスが返されました');
-      }
+      onProgress?.(25, 'リクエストを送信中...');
+
+      // 受信したトークン数を、最近の読み取りの平均的な応答の長さと比べて進捗を表示（25%〜85%）
+      const expectedTokens = OcrUsageService.getExpectedCompletionTokens('ocr', promptDefinition.maxTokens / 2);
+      const data = await this.requestCompletion(
+        promptDefinition,
+        promptDefinition.buildPrompt(template) + promptHints,
+        compressedImage,
+        promptDefinition.maxTokens,
+        'ocr',
+        {
+          signal: options.signal,
+          onTokens: receivedTokens => {
+            const ratio = Math.min(1, receivedTokens / expectedTokens);
+            onProgress?.(Math.round(25 + ratio * 60), `AIが文字を認識中...（${receivedTokens} トークン受信）`);
+          },
+        }
+      );
 
       const content = data.choices[0].message.content;
       
       onProgress?.(90, 'データを解析中...');
 
-      // JSONレスポンスを解析
-      const parseOcrResult = (): OcrResult => {
-        try {
-          // デバッグ用：実際のレスポンス内容を表示（開発環境のみ）
-          log.dev('OpenAI APIレスポンス内容:', content);
-          
-          // 複数のパターンでJSONブロックを抽出
-          let jsonString = content.trim();
-          
-          // パターン1: ```json...``` ブロック
-          const jsonBlockMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
-          if (jsonBlockMatch) {
-            jsonString = jsonBlockMatch[1].trim();
-            log.debug('```json ブロック形式で解析');
-          }
-          // パターン2: ```...``` ブロック（言語指定なし）
-          else {
-            const codeBlockMatch = content.match(/```\s*([\s\S]*?)\s*```/);
-            if (codeBlockMatch) {
-              jsonString = codeBlockMatch[1].trim();
-              log.debug('```コードブロック形式で解析');
-            }
-            // パターン3: { で始まる部分を抽出
-            else {
-              const jsonStartIndex = content.indexOf('{');
-              const jsonEndIndex = content.lastIndexOf('}');
-              if (jsonStartIndex !== -1 && jsonEndIndex !== -1 && jsonEndIndex > jsonStartIndex) {
-                jsonString = content.substring(jsonStartIndex, jsonEndIndex + 1).trim();
-                log.debug('JSON部分を直接抽出');
-              }
-              else {
-                log.debug('生のレスポンスをそのまま解析');
-              }
-            }
-          }
-          
-          // JSONが不完全な場合の修復処理
-          jsonString = this.repairIncompleteJson(jsonString);
-          
-          // デバッグ用：抽出したJSON文字列の最初と最後の文字を確認
-          log.debug(`JSON解析前: 長さ=${jsonString.length}, 開始="${jsonString.substring(0, 10)}", 終了="${jsonString.substring(jsonString.length - 10)}"`);
-          
-          return JSON.parse(jsonString);
-        } catch (parseError) {
-          log.error('JSON解析エラー', parseError);
-          log.debug('レスポンス内容長', content.length);
-          
-          // エラー詳細を開発環境でのみ表示
-          log.dev('解析に失敗したレスポンス（最初の500文字）:', content.substring(0, 500));
-          
-          throw new Error('OCR結果の解析に失敗しました。画像が不鮮明な可能性があります。');
-        }
-      };
-      
-      const ocrResult = parseOcrResult();
+      // JSONレスポンスを解析・検証（問題はvalidationIssuesとして確認画面に表示）
+      log.dev('OpenAI APIレスポンス内容:', content);
+      const reachedTokenLimit = data.choices[0].finish_reason === 'length';
+      const { result: parsedResult } = OcrResponseParser.parse(content, reachedTokenLimit, template);
 
-      // レスポンス形式の検証
-      if (!ocrResult.ヘッダー || !ocrResult.包装作業記録) {
-        throw new Error('OCR結果の形式が正しくありません。もう一度撮影してください。');
-      }
+      // セル領域（画像サイズに対する比率）を元画像のピクセル座標に変換
+      const ocrResult: OcrResult = {
+        ...scaleCellRegions(parsedResult, sourceWidth, sourceHeight),
+        sourceImageSize: { width: sourceWidth, height: sourceHeight },
+        promptVersion: promptDefinition.version,
+        promptHintsId: promptHintsId || undefined,
+        formTemplateId: template.id,
+      };
+      await OcrResultCache.set(cacheKey, ocrResult);
 
       onProgress?.(100, '処理完了');
 
-      // 使用量をログ出力
-      if (data.usage) {
-        log.production('OpenAI API使用量', {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens,
-        });
-      }
-
       // OCR結果の詳細ログ出力（開発環境のみ）
       log.success('OCR処理完了');
       log.debug('ヘッダー情報解析完了', {
@@ -331,52 +252,35 @@ export class OpenAIOcrService {
       log.dev(`商品名: ${ocrResult.ヘッダー.商品名}`);
       log.dev(`作業時間: ${ocrResult.ヘッダー.作業時間}`);
       
-      // 包装作業記録の統計情報のみ表示
-      log.debug('包装作業記録解析完了', {
-        count: ocrResult.包装作業記録?.length || 0
-      });
-      
-      // 詳細は開発環境でのみ表示
-      if (ocrResult.包装作業記録 && ocrResult.包装作業記録.length > 0) {
-        ocrResult.包装作業記録.forEach((record, index) => {
-          log.dev(`包装作業者${index + 1}: ${record.氏名}`);
+      // 表ごとの統計情報のみ表示（詳細は開発環境でのみ表示）
+      template.sections.forEach(section => {
+        const records = ocrResult.記録?.[section.key] || [];
+        log.debug(`${section.label}解析完了`, { count: records.length });
+
+        records.forEach((record, index) => {
+          log.dev(`${section.label}${index + 1}: ${record.氏名}`);
           log.dev(`  開始: ${record.開始時刻}, 終了: ${record.終了時刻}`);
-          log.dev(`  休憩: 昼=${record.休憩.昼休み ? '有' : '無'}, 中=${record.休憩.中休み ? '有' : '無'}`);
-          log.dev(`  生産数: ${record.生産数}`);
+          section.columns.forEach(column => {
+            if (column.kind === 'checkboxes') {
+              const checks = column.checkboxes
+                .map(checkbox => `${checkbox.label}=${record.チェック[checkbox.key] ? '有' : '無'}`)
+                .join(', ');
+              log.dev(`  ${column.label}: ${checks}`);
+            } else if (column.kind === 'count' || column.kind === 'text') {
+              log.dev(`  ${column.label}: ${record.値[column.key] ?? ''}`);
+            }
+          });
           if (record.時刻リスト && record.時刻リスト.length > 1) {
             record.時刻リスト.forEach((timeSlot, timeIndex) => {
               log.dev(`  時刻${timeIndex + 1}: ${timeSlot.開始時刻} - ${timeSlot.終了時刻}`);
             });
           }
         });
-      }
-      
-      // 機械操作記録の統計情報のみ表示
-      log.debug('機械操作記録解析完了', {
-        count: ocrResult.機械操作記録?.length || 0
       });
-      
-      // 詳細は開発環境でのみ表示
-      if (ocrResult.機械操作記録 && ocrResult.機械操作記録.length > 0) {
-        ocrResult.機械操作記録.forEach((record, index) => {
-          log.dev(`機械操作者${index + 1}: ${record.氏名}`);
-          log.dev(`  開始: ${record.開始時刻}, 終了: ${record.終了時刻}`);
-          log.dev(`  休憩: 昼=${record.休憩.昼休み ? '有' : '無'}, 中=${record.休憩.中休み ? '有' : '無'}`);
-          log.dev(`  生産数: ${record.生産数}`);
-          if (record.時刻リスト && record.時刻リスト.length > 1) {
-            record.時刻リスト.forEach((timeSlot, timeIndex) => {
-              log.dev(`  時刻${timeIndex + 1}: ${timeSlot.開始時刻} - ${timeSlot.終了時刻}`);
-            });
-          }
-        });
-      }
 
       // 補正情報の統計のみ表示
       const productCorrected = !!(ocrResult.ヘッダー as any).originalProductName;
-      const nameCorrectionCount = [
-        ...(ocrResult.包装作業記録 || []),
-        ...(ocrResult.機械操作記録 || [])
-      ].filter(record => record.originalName).length;
+      const nameCorrectionCount = getAllRecords(ocrResult).filter(record => record.originalName).length;
       
       log.debug('データ補正統計', {
         productCorrected,
@@ -388,36 +292,43 @@ export class OpenAIOcrService {
         log.dev(`商品名補正: ${(ocrResult.ヘッダー as any).originalProductName} → ${ocrResult.ヘッダー.商品名} (${Math.round(((ocrResult.ヘッダー as any).productConfidence || 0) * 100)}%)`);
       }
       
-      (ocrResult.包装作業記録 || []).forEach((record, index) => {
-        if (record.originalName) {
-          log.dev(`包装作業者${index + 1}補正: ${record.originalName} → ${record.氏名} (${Math.round((record.confidence || 0) * 100)}%)`);
-        }
-      });
-      
-      (ocrResult.機械操作記録 || []).forEach((record, index) => {
-        if (record.originalName) {
-          log.dev(`機械操作者${index + 1}補正: ${record.originalName} → ${record.氏名} (${Math.round((record.confidence || 0) * 100)}%)`);
-        }
+      Object.entries(ocrResult.記録 || {}).forEach(([section, records]) => {
+        records.forEach((record, index) => {
+          if (record.originalName) {
+            log.dev(`${section}${index + 1}補正: ${record.originalName} → ${record.氏名} (${Math.round((record.confidence || 0) * 100)}%)`);
+          }
+        });
       });
 
       return ocrResult;
 
     } catch (error) {
+      // キャンセルはエラー表示せず、そのまま呼び出し側に返す
+      if (isAbortError(error)) {
+        log.info('OCR処理をキャンセルしました');
+        throw error;
+      }
       log.error('OCR処理エラー', error);
       
-      // エラータイプに応じたメッセージを返す
+      // エラータイプに応じたメッセージを返す（HTTPステータス・再試行の可否は引き継ぐ）
       if (error instanceof Error) {
+        const withMessage = (message: string): OcrRequestError =>
+          Object.assign(new Error(message), {
+            status: (error as OcrRequestError).status,
+            canRetry: (error as OcrRequestError).canRetry ?? false,
+            retryAfterMs: (error as OcrRequestError).retryAfterMs,
+          });
         if (error.message.includes('rate_limit')) {
-          throw new Error('API利用制限に達しました。しばらく待ってから再試行してください。');
+          throw withMessage('API利用制限に達しました。しばらく待ってから再試行してください。');
         }
         if (error.message.includes('insufficient_quota')) {
-          throw new Error('API利用枠を超過しました。設定を確認してください。');
+          throw withMessage('API利用枠を超過しました。設定を確認してください。');
         }
         if (error.message.includes('invalid_api_key')) {
-          throw new Error('APIキーが無効です。設定を確認してください。');
+          throw withMessage('APIキーが無効です。設定を確認してください。');
         }
         if (error.message.includes('network') || error.message.includes('fetch')) {
-          throw new Error('ネットワークエラーが発生しました。接続を確認してください。');
+          throw withMessage('ネットワークエラーが発生しました。接続を確認してください。');
         }
         throw error;
       }
@@ -427,18 +338,260 @@ export class OpenAIOcrService {
   }
 
   /**
-   * APIキーの有効性をチェック
+   * 撮影画像の用紙の種類を判定（判定できない場合はnull）
    */
-  static async validateApiKey(): Promise<boolean> {
+  async detectFormTemplate(imageData: string, templates: FormTemplate[], signal?: AbortSignal): Promise<string | null> {
+    const promptDefinition = OcrPromptRegistry.getActive();
+    const { dataUrl } = await this.compressImage(imageData, 512);
+    const data = await this.requestCompletion(
+      promptDefinition,
+      buildFormDetectionPrompt(templates),
+      dataUrl,
+      100,
+      'detect',
+      { detail: 'low', signal }
+    );
+    const content = data.choices[0].message.content;
+    log.dev('用紙判定レスポンス内容:', content);
+
+    const match = content.match(/"id"\s*:\s*"([^"]+)"/);
+    const id = match?.[1];
+    return id && templates.some(template => template.id === id) ? id : null;
+  }
+
+  /**
+   * 切り出した行を再読み取り
+   */
+  async readRegion(cropImage: string, fields: RereadField[], signal?: AbortSignal): Promise<RegionReading> {
+    const promptDefinition = OcrPromptRegistry.getActive();
+    const data = await this.requestCompletion(
+      promptDefinition,
+      promptDefinition.rereadPrompt(fields),
+      cropImage,
+      promptDefinition.rereadMaxTokens,
+      'reread',
+      { signal }
+    );
+    log.dev('再読み取りレスポンス内容:', data.choices[0].message.content);
+    return OcrResponseParser.parseRegionReading(data.choices[0].message.content, fields);
+  }
+
+  /**
+   * OpenAI Chat Completions APIに画像とプロンプトを送信
+   * 月間予算の上限に達している場合は送信せず、結果を利用記録に残す
+   */
+  private async requestCompletion(
+    promptDefinition: OcrPromptDefinition,
+    prompt: string,
+    imageUrl: string,
+    maxTokens: number,
+    purpose: OcrUsagePurpose,
+    options: CompletionRequestOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    const usage = {
+      provider: this.name,
+      model: promptDefinition.model,
+      promptVersion: promptDefinition.version,
+      purpose,
+      imageCount: 1,
+    };
+
     try {
-      const response = await fetch('https://api.openai.com/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${this.getConfig().openaiApiKey}`,
-        },
+      OcrUsageService.assertWithinBudget();
+    } catch (error) {
+      OcrUsageService.record({
+        ...usage,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        outcome: 'blocked',
       });
+      throw error;
+    }
+
+    try {
+      const data = await this.sendCompletion(promptDefinition, prompt, imageUrl, maxTokens, options);
+      OcrUsageService.record({
+        ...usage,
+        promptTokens: data.usage?.prompt_tokens ?? 0,
+        completionTokens: data.usage?.completion_tokens ?? 0,
+        totalTokens: data.usage?.total_tokens ?? 0,
+        outcome: 'success',
+      });
+      return data;
+    } catch (error) {
+      OcrUsageService.record({
+        ...usage,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        outcome: isAbortError(error) ? 'cancelled' : 'error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * ストリーミングで応答を受信し、1つの応答にまとめる
+   * 受信した差分（おおよそ1トークン）ごとにonTokensで件数を通知する
+   */
+  private async sendCompletion(
+    promptDefinition: OcrPromptDefinition,
+    prompt: string,
+    imageUrl: string,
+    maxTokens: number,
+    { detail = 'high', signal, onTokens }: CompletionRequestOptions
+  ): Promise<ChatCompletionResponse> {
+    const requestBody = {
+      model: promptDefinition.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: prompt
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: imageUrl,
+                detail // 記入内容の読み取りは高解像度で解析
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: maxTokens,
+      temperature: promptDefinition.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const { url, authorization } = this.getEndpoint('/chat/completions');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': authorization,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const error = new Error(
+        `OpenAI API エラー (${response.status}): ${
+          errorData.error?.message || response.statusText
+        }`
+      ) as OcrRequestError;
+      error.status = response.status;
+      // 利用枠の超過（429）は時間をおいても解決しないため再試行しない
+      error.canRetry = response.status >= 500
+        || (response.status === 429 && errorData.error?.code !== 'insufficient_quota');
+      const retryAfter = Number(response.headers.get('retry-after'));
+      if (retryAfter > 0) {
+        error.retryAfterMs = retryAfter * 1000;
+      }
+      throw error;
+    }
+
+    if (!response.body) {
+      throw new Error('OpenAI APIから無効なレスポンスが返されました');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: ChatCompletionResponse['usage'];
+    let receivedTokens = 0;
+
+    // Server-Sent Events（"data: {...}" の行）を順に解析
+    const handleLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+      const payload = trimmed.slice('data:'.length).trim();
+      if (payload === '[DONE]') return;
+
+      // 解析できない行は読み飛ばす（内容が欠けた場合は結果の解析でエラーになる）
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(payload) as ChatCompletionChunk;
+      } catch (error) {
+        log.warn('ストリーミング応答の行を解析できませんでした', { payload: payload.slice(0, 200), error });
+        return;
+      }
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) {
+        content += choice.delta.content;
+        receivedTokens++;
+        onTokens?.(receivedTokens);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+
+    if (!finishReason && !content) {
+      throw new Error('OpenAI APIから無効なレスポンスが返されました');
+    }
+
+    return {
+      choices: [{ message: { content }, finish_reason: finishReason }],
+      usage,
+    };
+  }
+
+  /**
+   * APIキーの有効性をチェック
+   */
+  async validateConnection(): Promise<boolean> {
+    try {
+      const proxyUrl = EnvironmentValidator.getApiProxyUrl();
+      const response = proxyUrl
+        ? await fetch(`${proxyUrl}/api/health`)
+        : await fetch('https://api.openai.com/v1/models', {
+          headers: {
+            'Authorization': `Bearer ${this.getConfig().openaiApiKey}`,
+          },
+        });
       return response.ok;
     } catch {
       return false;
     }
   }
+
+  /**
+   * OpenAI APIの送信先と認証ヘッダー
+   * APIプロキシ使用時はプロキシ経由で送信し、APIキーの代わりにGoogleアカウントのトークンで認証する
+   */
+  private getEndpoint(path: string): { url: string; authorization: string } {
+    const proxyUrl = EnvironmentValidator.getApiProxyUrl();
+    if (!proxyUrl) {
+      return { url: `https://api.openai.com/v1${path}`, authorization: `Bearer ${this.getConfig().openaiApiKey}` };
+    }
+
+    const accessToken = GoogleSheetsService.getAccessToken();
+    if (!accessToken) {
+      throw new Error('認証が必要です。ログインしてください。');
+    }
+    return { url: `${proxyUrl}/api/openai${path}`, authorization: `Bearer ${accessToken}` };
+  }
 }
\ No newline at end of file
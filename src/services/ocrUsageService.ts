@@ -0,0 +1,165 @@
+import { OcrBudgetStatus, OcrUsageEntry, OcrUsagePurpose } from '@/types';
+import { EnvironmentValidator } from '@/utils/envConfig';
+import { log } from '@/utils/logger';
+import { GoogleSheetsService } from './googleSheetsService';
+
+type OcrUsageInput = Omit<OcrUsageEntry, 'id' | 'timestamp' | 'estimatedCostUsd'>;
+
+/**
+ * 月間の利用集計
+ */
+export interface OcrUsageSummary {
+  month: string;
+  requests: number;
+  cachedRequests: number;
+  failedRequests: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// モデルごとの料金（米ドル / 100万トークン）
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-5-mini-2025-08-07': { input: 0.25, output: 2.0 },
+};
+// 料金表にないモデルの見積もりに使用する料金
+const DEFAULT_PRICING = { input: 1.25, output: 10.0 };
+
+/**
+ * OCRリクエストの利用記録と月間予算の管理
+ * 利用記録はローカルストレージに保存し、設定した場合はスプレッドシートの「usage」シートにも追記する
+ */
+export class OcrUsageService {
+  private static readonly STORAGE_KEY = 'ocr_usage_ledger';
+  // ローカルに保存する記録の上限（古い順に削除）
+  private static readonly MAX_ENTRIES = 2000;
+  // 応答の長さの目安に使用する直近の記録の件数
+  private static readonly EXPECTED_TOKENS_SAMPLE = 10;
+
+  /**
+   * トークン数から料金を見積もり（米ドル）
+   */
+  static estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = MODEL_PRICING[model] ?? DEFAULT_PRICING;
+    const cost = (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+    return Math.round(cost * 1_000_000) / 1_000_000;
+  }
+
+  /**
+   * リクエストの利用記録を追加
+   */
+  static record(input: OcrUsageInput): OcrUsageEntry {
+    const entry: OcrUsageEntry = {
+      ...input,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: new Date().toISOString(),
+      estimatedCostUsd: this.estimateCost(input.model, input.promptTokens, input.completionTokens),
+    };
+
+    const entries = [...this.getEntries(), entry].slice(-this.MAX_ENTRIES);
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      log.warn('OCR利用記録の保存に失敗しました', error);
+    }
+
+    log.production('OCR利用記録', {
+      purpose: entry.purpose,
+      outcome: entry.outcome,
+      totalTokens: entry.totalTokens,
+      estimatedCostUsd: entry.estimatedCostUsd,
+    });
+
+    if (EnvironmentValidator.isUsageSheetEnabled() && entry.outcome !== 'cached') {
+      GoogleSheetsService.appendUsageRow(entry).catch(error => {
+        log.warn('OCR利用記録をシートに追記できませんでした', error);
+      });
+    }
+
+    return entry;
+  }
+
+  /**
+   * 保存済みの利用記録（古い順）
+   */
+  static getEntries(): OcrUsageEntry[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const entries = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      log.warn('OCR利用記録の読み込みに失敗しました', error);
+      return [];
+    }
+  }
+
+  /**
+   * 最近の成功したリクエストの平均的な応答トークン数（進捗表示の目安。記録がない場合はfallback）
+   */
+  static getExpectedCompletionTokens(purpose: OcrUsagePurpose, fallback: number): number {
+    const recent = this.getEntries()
+      .filter(entry => entry.purpose === purpose && entry.outcome === 'success' && entry.completionTokens > 0)
+      .slice(-this.EXPECTED_TOKENS_SAMPLE);
+    if (recent.length === 0) return fallback;
+    return recent.reduce((total, entry) => total + entry.completionTokens, 0) / recent.length;
+  }
+
+  /**
+   * 指定した月の利用集計
+   */
+  static getMonthlySummary(date: Date = new Date()): OcrUsageSummary {
+    const month = this.toMonthKey(date);
+    const entries = this.getEntries().filter(entry => this.toMonthKey(new Date(entry.timestamp)) === month);
+
+    return {
+      month,
+      requests: entries.filter(entry => entry.outcome === 'success' || entry.outcome === 'error' || entry.outcome === 'cancelled').length,
+      cachedRequests: entries.filter(entry => entry.outcome === 'cached').length,
+      failedRequests: entries.filter(entry => entry.outcome === 'error').length,
+      totalTokens: entries.reduce((total, entry) => total + entry.totalTokens, 0),
+      costUsd: entries.reduce((total, entry) => total + entry.estimatedCostUsd, 0),
+    };
+  }
+
+  /**
+   * 今月の利用額と予算の状態
+   */
+  static getBudgetStatus(date: Date = new Date()): OcrBudgetStatus {
+    const { monthlyLimitUsd, warnRatio } = EnvironmentValidator.getOcrBudget();
+    const { month, costUsd } = this.getMonthlySummary(date);
+
+    let level: OcrBudgetStatus['level'] = 'ok';
+    if (monthlyLimitUsd !== null) {
+      if (costUsd >= monthlyLimitUsd) {
+        level = 'blocked';
+      } else if (costUsd >= monthlyLimitUsd * warnRatio) {
+        level = 'warn';
+      }
+    }
+
+    return { month, spentUsd: costUsd, limitUsd: monthlyLimitUsd, warnRatio, level };
+  }
+
+  /**
+   * 月間予算の上限に達している場合はエラー（OCRリクエストの送信前に確認する）
+   */
+  static assertWithinBudget(): void {
+    const status = this.getBudgetStatus();
+    if (status.level === 'blocked') {
+      throw new Error(
+        `今月のOCR利用額が上限（$${status.limitUsd!.toFixed(2)}）に達したため、読み取りを停止しています。管理者に連絡してください。`
+      );
+    }
+  }
+
+  /**
+   * 利用記録をすべて削除
+   */
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+    log.info('OCR利用記録を削除しました');
+  }
+
+  private static toMonthKey(date: Date): string {
+    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+  }
+}
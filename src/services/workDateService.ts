@@ -0,0 +1,83 @@
+import { HeaderInfo, OcrResult, WorkDateCheck, WorkDateIssueKind } from '@/types';
+import { formatWorkDate, getWorkPeriod, parseWorkDate } from '@/utils/workDate';
+import { log } from '@/utils/logger';
+
+/**
+ * 作業日の読み取り・照合サービス
+ * 用紙に記入された日付を正規化し、撮影日・集計期間と照合して確認が必要か判定する
+ */
+export class WorkDateService {
+  /**
+   * 用紙から読み取った日付を YYYY/MM/DD に正規化
+   * 画像の統合前に実行し、書き方の違う同じ日付を同じ記録簿と判定できるようにする
+   */
+  static normalizeOcrDate(result: OcrResult, uploadDate: Date = new Date()): OcrResult {
+    const written = result.ヘッダー.作業日?.trim();
+    if (!written || written === 'undefined' || written === 'null') {
+      const header = { ...result.ヘッダー };
+      delete header.作業日;
+      return { ...result, ヘッダー: header };
+    }
+
+    const parsed = parseWorkDate(written, uploadDate);
+    log.debug('作業日を読み取り', { written, parsed });
+
+    const header: HeaderInfo = { ...result.ヘッダー, originalWorkDate: written };
+    if (parsed) {
+      header.作業日 = parsed;
+    } else {
+      delete header.作業日;
+    }
+    return { ...result, ヘッダー: header };
+  }
+
+  /**
+   * 作業日を撮影日・集計期間と照合
+   * 用紙に日付がない場合は撮影日を設定し、食い違いがある場合は確認待ちにする
+   */
+  static reconcile(result: OcrResult, uploadDate: Date = new Date()): OcrResult {
+    const upload = formatWorkDate(uploadDate);
+    const formDate = result.ヘッダー.作業日;
+    const workDate = formDate ?? upload;
+    const { start, end } = getWorkPeriod(uploadDate);
+
+    const issues: WorkDateIssueKind[] = [];
+    if (result.ヘッダー.originalWorkDate && !formDate) issues.push('unreadable');
+    if (formDate && formDate !== upload) issues.push('upload_mismatch');
+    if (workDate < start || workDate > end) issues.push('outside_period');
+
+    const workDateCheck: WorkDateCheck = { uploadDate: upload, formDate, period: { start, end }, issues };
+    if (issues.length > 0) {
+      log.info('作業日の確認が必要です', { workDate, uploadDate: upload, issues });
+    }
+
+    return {
+      ...result,
+      ヘッダー: {
+        ...result.ヘッダー,
+        作業日: workDate,
+        workDateCheck,
+        workDateConfirmationStatus: issues.length > 0 ? 'pending' : 'approved',
+      },
+    };
+  }
+
+  /**
+   * 確認が必要な理由の説明
+   */
+  static describeIssues(header: HeaderInfo): string[] {
+    const check = header.workDateCheck;
+    if (!check) return [];
+
+    return check.issues.map(issue => {
+      switch (issue) {
+        case 'unreadable':
+          return `用紙の日付「${header.originalWorkDate}」を読み取れなかったため、撮影日（${check.uploadDate}）を設定しました。`;
+        case 'upload_mismatch':
+          return `用紙の日付（${check.formDate}）と撮影日（${check.uploadDate}）が異なります。`;
+        case 'outside_period':
+          return `作業日が今期の集計期間（${check.period.start}〜${check.period.end}）外です。`;
+      }
+    });
+  }
+}
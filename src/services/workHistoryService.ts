@@ -0,0 +1,96 @@
+import { OcrResult, WorkHistoryEntry } from '@/types';
+import { log } from '@/utils/logger';
+
+/**
+ * 作業者の手がかりを集計する作業の条件
+ */
+export interface WorkContext {
+  工場名?: string;
+  商品名?: string;
+}
+
+/**
+ * 保存した作業の履歴（ローカルストレージ）
+ * 名字のみの記入に同じ名字の従業員が複数該当する場合に、よく担当する商品・工場や最近の保存から候補を並べる
+ */
+export class WorkHistoryService {
+  private static readonly STORAGE_KEY = 'ocr_work_history';
+  // 保存する履歴の上限（古い順に削除）
+  private static readonly MAX_ENTRIES = 200;
+  // 最近の保存として扱う件数
+  private static readonly RECENT_SAVES = 10;
+  // 手がかりの重み（同じ商品 > 同じ工場 > 最近の保存）
+  private static readonly PRODUCT_WEIGHT = 0.5;
+  private static readonly FACTORY_WEIGHT = 0.3;
+  private static readonly RECENT_WEIGHT = 0.2;
+
+  /**
+   * 保存した作業を履歴に追加
+   * @param savedWorkers 保存できた作業者
+   */
+  static recordFromResult(result: OcrResult, savedWorkers: string[]): void {
+    const workers = Array.from(new Set(savedWorkers.filter(Boolean)));
+    if (workers.length === 0) return;
+
+    const entries = this.getEntries();
+    entries.unshift({
+      savedAt: new Date().toISOString(),
+      工場名: result.ヘッダー.工場名 || '',
+      商品名: result.ヘッダー.商品名 || '',
+      workers,
+    });
+    this.save(entries);
+    log.debug('作業の履歴を更新', { workers: workers.length, entries: entries.length });
+  }
+
+  /**
+   * 作業者ごとの手がかりの強さ（0〜1、履歴に現れない作業者は含めない）
+   * 同じ商品・同じ工場の作業に含まれた割合と、最近の保存に含まれた割合を重み付けして合計する
+   */
+  static getContextScores(context: WorkContext): Record<string, number> {
+    const entries = this.getEntries();
+    if (entries.length === 0) return {};
+
+    const productEntries = context.商品名 ? entries.filter(entry => entry.商品名 === context.商品名) : [];
+    const factoryEntries = context.工場名 ? entries.filter(entry => entry.工場名 === context.工場名) : [];
+    const recentEntries = entries.slice(0, this.RECENT_SAVES);
+
+    const share = (subset: WorkHistoryEntry[], name: string): number =>
+      subset.length === 0 ? 0 : subset.filter(entry => entry.workers.includes(name)).length / subset.length;
+
+    const scores: Record<string, number> = {};
+    new Set(entries.flatMap(entry => entry.workers)).forEach(name => {
+      const score = share(productEntries, name) * this.PRODUCT_WEIGHT
+        + share(factoryEntries, name) * this.FACTORY_WEIGHT
+        + share(recentEntries, name) * this.RECENT_WEIGHT;
+      if (score > 0) {
+        scores[name] = score;
+      }
+    });
+    return scores;
+  }
+
+  /**
+   * 保存済みの履歴（新しい順）
+   */
+  static getEntries(): WorkHistoryEntry[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const entries = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries)
+        ? entries.sort((a: WorkHistoryEntry, b: WorkHistoryEntry) => b.savedAt.localeCompare(a.savedAt))
+        : [];
+    } catch (error) {
+      log.warn('作業の履歴の読み込みに失敗しました', error);
+      return [];
+    }
+  }
+
+  private static save(entries: WorkHistoryEntry[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries.slice(0, this.MAX_ENTRIES)));
+    } catch (error) {
+      log.warn('作業の履歴の保存に失敗しました', error);
+    }
+  }
+}
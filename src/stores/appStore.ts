@@ -1,15 +1,37 @@
 import { create } from 'zustand';
-import { OcrResult, WorkRecord, AppError } from '@/types';
+import { OcrResult, WorkRecord, AppError, ImagePreprocessResult, OcrPageFailure } from '@/types';
 
 interface AppState {
   // 撮影状態（複数枚対応）
   capturedImage: string | string[] | null;
   setCapturedImage: (image: string | string[] | null) => void;
   
+  // 撮影した用紙の種類（テンプレートID、'auto'は画像から自動判定）
+  formTemplateId: string;
+  setFormTemplateId: (id: string) => void;
+  
+  // 次回のOCRでキャッシュを使わずに読み取り直す
+  forceOcrRefresh: boolean;
+  setForceOcrRefresh: (force: boolean) => void;
+  
+  // 前処理済みの画像（capturedImageと同じ順番、OCRとセル領域の基準）
+  preprocessedImages: ImagePreprocessResult[];
+  setPreprocessedImages: (results: ImagePreprocessResult[]) => void;
+  
   // OCR結果
   ocrResult: OcrResult | null;
   setOcrResult: (result: OcrResult | null) => void;
   
+  // 読み取りに失敗した画像（他の画像の結果のみ確認画面に表示する）
+  ocrFailures: OcrPageFailure[];
+  setOcrFailures: (failures: OcrPageFailure[]) => void;
+  
+  // 未確認のOCR結果（複数枚撮影で別の記録と判定されたもの）
+  pendingResults: OcrResult[];
+  setPendingResults: (results: OcrResult[]) => void;
+  // 次の未確認結果を確認対象にする
+  startNextPendingResult: () => boolean;
+  
   // 編集状態
   editedData: WorkRecord[] | null;
   setEditedData: (data: WorkRecord[] | null) => void;
@@ -34,10 +56,15 @@ interface AppState {
   resetData: () => void;
 }
 
-export const useAppStore = create<AppState>((set) => ({
+export const useAppStore = create<AppState>((set, get) => ({
   // 初期状態
   capturedImage: null,
+  formTemplateId: 'auto',
+  forceOcrRefresh: false,
+  preprocessedImages: [],
   ocrResult: null,
+  ocrFailures: [],
+  pendingResults: [],
   editedData: null,
   isProcessing: false,
   error: null,
@@ -45,8 +72,19 @@ export const useAppStore = create<AppState>((set) => ({
   currentStep: 1,
   
   // アクション
-  setCapturedImage: (image) => set({ capturedImage: image }),
+  setCapturedImage: (image) => set({ capturedImage: image, preprocessedImages: [], ocrFailures: [] }),
+  setFormTemplateId: (id) => set({ formTemplateId: id }),
+  setForceOcrRefresh: (force) => set({ forceOcrRefresh: force }),
+  setPreprocessedImages: (results) => set({ preprocessedImages: results }),
   setOcrResult: (result) => set({ ocrResult: result }),
+  setOcrFailures: (failures) => set({ ocrFailures: failures }),
+  setPendingResults: (results) => set({ pendingResults: results }),
+  startNextPendingResult: () => {
+    const [next, ...rest] = get().pendingResults;
+    if (!next) return false;
+    set({ ocrResult: next, pendingResults: rest, editedData: null, error: null, success: null });
+    return true;
+  },
   setEditedData: (data) => set({ editedData: data }),
   setIsProcessing: (processing) => set({ isProcessing: processing }),
   setError: (error) => set({ error: error }),
@@ -56,7 +94,11 @@ export const useAppStore = create<AppState>((set) => ({
   // データリセット
   resetData: () => set({
     capturedImage: null,
+    forceOcrRefresh: false,
+    preprocessedImages: [],
     ocrResult: null,
+    ocrFailures: [],
+    pendingResults: [],
     editedData: null,
     isProcessing: false,
     error: null,
@@ -0,0 +1,39 @@
+import { FormLayout } from '@/types';
+
+/**
+ * 標準の作業記録簿のレイアウト
+ * 用紙全体を撮影した場合のおおよその位置（OCR結果にセル領域がない場合に使用）
+ */
+export const DEFAULT_FORM_LAYOUT: FormLayout = {
+  header: {
+    工場名: { x: 0.12, y: 0.04, width: 0.18, height: 0.035 },
+    商品名: { x: 0.42, y: 0.04, width: 0.25, height: 0.035 },
+    作業時間: { x: 0.76, y: 0.04, width: 0.18, height: 0.035 },
+  },
+  sections: {
+    包装作業記録: {
+      top: 0.15,
+      rowHeight: 0.0375,
+      columns: {
+        氏名: { x: 0.05, width: 0.2 },
+        開始時刻: { x: 0.26, width: 0.12 },
+        終了時刻: { x: 0.39, width: 0.12 },
+        昼休み: { x: 0.52, width: 0.06 },
+        中休み: { x: 0.59, width: 0.06 },
+        生産数: { x: 0.67, width: 0.15 },
+      },
+    },
+    機械操作記録: {
+      top: 0.633,
+      rowHeight: 0.0375,
+      columns: {
+        氏名: { x: 0.05, width: 0.2 },
+        開始時刻: { x: 0.26, width: 0.12 },
+        終了時刻: { x: 0.39, width: 0.12 },
+        昼休み: { x: 0.52, width: 0.06 },
+        中休み: { x: 0.59, width: 0.06 },
+        生産数: { x: 0.67, width: 0.15 },
+      },
+    },
+  },
+};
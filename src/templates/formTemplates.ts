@@ -0,0 +1,122 @@
+import { FormCheckboxTemplate, FormTemplate, FormSectionTemplate } from '@/types';
+import { DEFAULT_FORM_LAYOUT } from './formLayout';
+
+// 標準の作業記録簿の休憩欄
+const STANDARD_BREAKS: FormCheckboxTemplate[] = [
+  { key: '昼休み', label: '昼休み', breakMinutes: 45 },
+  { key: '中休み', label: '中休み', breakMinutes: 15 },
+];
+
+/**
+ * 標準の作業記録簿（包装作業記録・機械操作記録の2表）
+ */
+export const STANDARD_FORM_TEMPLATE: FormTemplate = {
+  id: 'standard',
+  name: '作業記録簿（包装・機械）',
+  keywords: ['作業記録簿', '包装作業', '機械操作'],
+  headerFields: ['工場名', '商品名', '作業時間'],
+  sections: [
+    {
+      key: '包装作業記録',
+      label: '包装作業記録',
+      icon: '👥',
+      columns: [
+        { kind: 'name', key: '氏名', label: '氏名' },
+        { kind: 'startTime', key: '開始時刻', label: '開始時刻', sheetColumn: 3 },
+        { kind: 'endTime', key: '終了時刻', label: '終了時刻', sheetColumn: 4 },
+        { kind: 'checkboxes', key: '休憩', label: '休憩', checkboxes: STANDARD_BREAKS, sheetColumn: 5 },
+        { kind: 'count', key: '生産数', label: '生産数', sheetColumn: 7 },
+      ],
+    },
+    {
+      key: '機械操作記録',
+      label: '機械操作記録',
+      icon: '⚙️',
+      columns: [
+        { kind: 'name', key: '氏名', label: '氏名' },
+        { kind: 'startTime', key: '開始時刻', label: '開始時刻', sheetColumn: 9 },
+        { kind: 'endTime', key: '終了時刻', label: '終了時刻', sheetColumn: 10 },
+        { kind: 'checkboxes', key: '休憩', label: '休憩', checkboxes: STANDARD_BREAKS, sheetColumn: 11 },
+        { kind: 'count', key: '生産数', label: '生産数', shared: true, sheetColumn: 13 },
+      ],
+    },
+  ],
+  layout: DEFAULT_FORM_LAYOUT,
+  sheetColumns: { product: 2, remarks: 15 },
+};
+
+/**
+ * 作業日報（1表のみ・休憩は昼休憩と午後休憩）
+ */
+export const DAILY_REPORT_FORM_TEMPLATE: FormTemplate = {
+  id: 'dailyReport',
+  name: '作業日報（1表）',
+  keywords: ['作業日報', '昼休憩', '午後休憩'],
+  headerFields: ['工場名', '商品名'],
+  sections: [
+    {
+      key: '作業記録',
+      label: '作業記録',
+      icon: '👥',
+      columns: [
+        { kind: 'name', key: '氏名', label: '氏名' },
+        { kind: 'startTime', key: '開始時刻', label: '開始時刻', sheetColumn: 3 },
+        { kind: 'endTime', key: '終了時刻', label: '終了時刻', sheetColumn: 4 },
+        {
+          kind: 'checkboxes',
+          key: '休憩',
+          label: '休憩',
+          checkboxes: [
+            { key: '昼休憩', label: '昼休憩', breakMinutes: 60 },
+            { key: '午後休憩', label: '午後休憩', breakMinutes: 10 },
+          ],
+          sheetColumn: 5,
+        },
+        { kind: 'count', key: '生産数', label: '生産数', sheetColumn: 7 },
+      ],
+    },
+  ],
+  layout: {
+    header: {
+      工場名: { x: 0.1, y: 0.06, width: 0.3, height: 0.04 },
+      商品名: { x: 0.5, y: 0.06, width: 0.4, height: 0.04 },
+    },
+    sections: {
+      作業記録: {
+        top: 0.18,
+        rowHeight: 0.045,
+        columns: {
+          氏名: { x: 0.05, width: 0.25 },
+          開始時刻: { x: 0.31, width: 0.14 },
+          終了時刻: { x: 0.46, width: 0.14 },
+          昼休憩: { x: 0.61, width: 0.08 },
+          午後休憩: { x: 0.7, width: 0.08 },
+          生産数: { x: 0.79, width: 0.16 },
+        },
+      },
+    },
+  },
+  sheetColumns: { product: 2, remarks: 15 },
+};
+
+export const FORM_TEMPLATES: FormTemplate[] = [STANDARD_FORM_TEMPLATE, DAILY_REPORT_FORM_TEMPLATE];
+
+/**
+ * IDから用紙テンプレートを取得（未設定・未登録の場合は標準の作業記録簿）
+ */
+export const getFormTemplate = (id?: string): FormTemplate =>
+  FORM_TEMPLATES.find(template => template.id === id) ?? STANDARD_FORM_TEMPLATE;
+
+/**
+ * 表のすべてのチェックボックス
+ */
+export const getSectionCheckboxes = (section: FormSectionTemplate): FormCheckboxTemplate[] =>
+  section.columns.flatMap(column => (column.kind === 'checkboxes' ? column.checkboxes : []));
+
+/**
+ * 表の1行のセル情報のキー（チェックボックスの列はチェックボックスごと）
+ */
+export const getSectionCellKeys = (section: FormSectionTemplate): string[] =>
+  section.columns.flatMap(column =>
+    column.kind === 'checkboxes' ? column.checkboxes.map(checkbox => checkbox.key) : [column.key]
+  );
@@ -1,74 +1,343 @@
 // 確認状態の型定義
 export type ConfirmationStatus = 'pending' | 'approved' | 'editing';
 
+// 元画像上の領域（ピクセル座標）
+export interface CellRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// セル単位の読み取り情報
+export interface CellMeta {
+  confidence: number;   // OCRの読み取り信頼度（0〜1）
+  region?: CellRegion;  // 元画像上の位置
+  verified?: boolean;   // ユーザーが確認・修正済み
+}
+
+// セル情報を持つ項目名
+export type HeaderCellKey = '作業日' | '工場名' | '商品名' | '作業時間';
+export type TimeSlotCellKey = '開始時刻' | '終了時刻';
+
+// 記録用紙のレイアウト（座標はすべて画像サイズに対する0〜1の比率）
+// OCR結果にセル領域がない場合の切り出し位置として使用する
+export interface FormLayout {
+  header: Partial<Record<HeaderCellKey, CellRegion>>;
+  // キーは用紙テンプレートの表のkey
+  sections: Partial<Record<string, {
+    top: number;        // 1行目の上端
+    rowHeight: number;  // 1行の高さ
+    // キーは列のkey（チェックボックスの列はチェックボックスごとのkey）
+    columns: Partial<Record<string, { x: number; width: number }>>;
+  }>>;
+}
+
+// 用紙テンプレートのチェックボックス
+export interface FormCheckboxTemplate {
+  key: string;            // 読み取り結果の格納先（記録のチェックのキー）
+  label: string;          // 用紙上の表記（プロンプト・確認画面で使用）
+  breakMinutes?: number;  // 休憩のチェックボックスの場合の休憩時間（分）
+}
+
+// 用紙テンプレートの記録テーブルの列
+// 氏名・開始時刻・終了時刻は記録の同名の項目（照合・勤務時間の計算に使用）、
+// チェックボックスは記録のチェック、数量・文字の列は記録の値にkeyで格納する
+export type FormColumnTemplate = {
+  label: string;          // 用紙上の列名（OCR応答のキー・確認画面の見出し）
+  // 個人シートの書き込み先の列（0始まり）。チェックボックスの列はチェックした休憩時間の合計を書き込む
+  sheetColumn?: number;
+} & (
+  | { kind: 'name'; key: '氏名' }
+  | { kind: 'startTime'; key: '開始時刻' }
+  | { kind: 'endTime'; key: '終了時刻' }
+  | { kind: 'checkboxes'; key: string; checkboxes: FormCheckboxTemplate[] }
+  | { kind: 'count' | 'text'; key: string; shared?: boolean } // shared: 表の全員で同じ値
+);
+
+// 用紙テンプレートの記録テーブル（1人1行、氏名の列は必須）
+export interface FormSectionTemplate {
+  key: string;           // 読み取り結果の格納先（OcrResult.記録のキー）
+  label: string;         // 用紙上の表の名前（OCR応答のキー・確認画面の見出し）
+  icon: string;          // 確認画面の見出しのアイコン
+  columns: FormColumnTemplate[];
+}
+
+// 用紙テンプレート（用紙の種類ごとの項目・レイアウト・シートへの対応）
+export interface FormTemplate {
+  id: string;
+  name: string;
+  keywords: string[];          // 自動判定に使用する用紙上の文言
+  headerFields: ('工場名' | '商品名' | '作業時間')[];
+  sections: FormSectionTemplate[];
+  layout: FormLayout;
+  // 個人シートの書き込み先の列（0始まり）
+  sheetColumns: { product: number; remarks: number };
+}
+
 // ヘッダー情報の型定義
 export interface HeaderInfo {
-  作業日?: string; // OCRで読み取らないため、オプショナルに
+  作業日?: string; // YYYY/MM/DD（用紙に記入がない場合は撮影日）
   工場名: string;
   商品名: string;
   作業時間: string;
   // 補正情報
   originalProductName?: string;
   productConfidence?: number;
-  productMatchType?: 'exact' | 'fuzzy' | 'no_match';
+  productMatchType?: 'exact' | 'alias' | 'fuzzy' | 'memory' | 'no_match';
   productError?: boolean;
   // 確認状態
   productConfirmationStatus?: ConfirmationStatus;
+  autoAcceptedProductName?: string; // 確認不要として表示した補正後の商品名（変更せずに保存した場合は学習しない）
+  // 作業日の読み取り情報
+  originalWorkDate?: string;   // 用紙に記入された日付（読み取ったまま）
+  workDateCheck?: WorkDateCheck;
+  workDateConfirmationStatus?: ConfirmationStatus;
+  // セル単位の読み取り情報
+  cells?: Partial<Record<HeaderCellKey, CellMeta>>;
 }
 
-// 休憩情報の型定義
-export interface BreakInfo {
-  昼休み: boolean;
-  中休み: boolean;
+// 作業日の確認が必要な理由
+// unreadable: 用紙の日付を解析できない / upload_mismatch: 撮影日と異なる / outside_period: 今期の集計期間外
+export type WorkDateIssueKind = 'unreadable' | 'upload_mismatch' | 'outside_period';
+
+// 用紙の日付と撮影日の照合結果
+export interface WorkDateCheck {
+  uploadDate: string;                      // 撮影（読み取り）日
+  formDate?: string;                       // 用紙から読み取った日付（正規化済み）
+  period: { start: string; end: string };  // 撮影日が属する集計期間（21日サイクル）
+  issues: WorkDateIssueKind[];
 }
 
 // 時刻ペアの型定義
 export interface TimeSlot {
   開始時刻: string;
   終了時刻: string;
+  // セル単位の読み取り情報
+  cells?: Partial<Record<TimeSlotCellKey, CellMeta>>;
+  // 別の画像から統合した時刻の読み取り元（記録と異なる場合のみ）
+  sourcePage?: number;
+  sourceRow?: number;
 }
 
-// 包装作業記録の型定義
-export interface PackagingRecord {
+// 作業記録テーブルの1行（チェック・値の項目は用紙テンプレートの列の定義による）
+export interface WorkerRecord {
   氏名: string;
   開始時刻: string;
   終了時刻: string;
   時刻リスト?: TimeSlot[]; // 複数時刻対応
-  休憩: BreakInfo;
-  生産数: string;
+  チェック: Record<string, boolean>; // キーはチェックボックスのkey
+  値: Record<string, string>;         // 数量・文字の列（キーは列のkey）
   // 補正情報
   originalName?: string;
   confidence?: number;
-  matchType?: 'exact' | 'lastname' | 'fuzzy' | 'no_match';
+  matchType?: 'exact' | 'lastname' | 'reading' | 'alias' | 'fuzzy' | 'memory' | 'no_match';
   isLastNameMatch?: boolean;
+  ambiguousCandidates?: string[]; // 同じ名字の従業員（手がかりの多い順）
   nameError?: boolean;
+  sourceRow?: number;    // 用紙上の行番号（0始まり、OCRで読み取った行のみ）
+  sourcePage?: number;   // 読み取り元の画像番号（0始まり）
+  timeError?: boolean;   // 時刻の読み取り信頼度が低い
+  reread?: RereadInfo;   // 読み取りにくい行を再読み取りした結果
   // 確認状態
   nameConfirmationStatus?: ConfirmationStatus;
+  autoAcceptedName?: string; // 確認不要として表示した補正後の氏名（変更せずに保存した場合は学習しない）
+  // セル単位の読み取り情報（キーは列のkey、チェックボックスの列はチェックボックスごとのkey）
+  cells?: Partial<Record<string, CellMeta>>;
 }
 
-// 機械操作記録の型定義
-export interface MachineOperationRecord {
-  氏名: string;
-  開始時刻: string;
-  終了時刻: string;
-  時刻リスト?: TimeSlot[]; // 複数時刻対応
-  休憩: BreakInfo;
-  生産数: string;
-  // 補正情報
-  originalName?: string;
-  confidence?: number;
-  matchType?: 'exact' | 'lastname' | 'fuzzy' | 'no_match';
-  isLastNameMatch?: boolean;
-  nameError?: boolean;
-  // 確認状態
-  nameConfirmationStatus?: ConfirmationStatus;
+// OCR結果の検証で検出した問題の種類
+export type OcrValidationIssueKind =
+  | 'missing'        // 項目が欠けている・読み取り不能
+  | 'wrong_type'     // 型が異なる（補正または除外済み）
+  | 'truncated'      // 応答が途中で切れている
+  | 'invalid_value'; // 値の形式が不正
+
+// OCR結果の検証で検出した問題
+export interface OcrValidationIssue {
+  path: string;      // 例: 包装作業記録[1].終了時刻（表・列は用紙上の名前）
+  kind: OcrValidationIssueKind;
+  message: string;   // 確認画面に表示するメッセージ
 }
 
 // OCR結果の型定義
 export interface OcrResult {
   ヘッダー: HeaderInfo;
-  包装作業記録: PackagingRecord[];
-  機械操作記録: MachineOperationRecord[];
+  // 表ごとの記録（キーは用紙テンプレートの表のkey）
+  記録: Record<string, WorkerRecord[]>;
+  // 検証で検出した問題（確認画面で表示）
+  validationIssues?: OcrValidationIssue[];
+  // セル領域の基準となる元画像のサイズ
+  sourceImageSize?: { width: number; height: number };
+  // 統合した画像の番号（複数枚撮影時）
+  sourcePages?: number[];
+  // 画像間で食い違ったヘッダー項目（確認画面でユーザーが選択）
+  headerConflicts?: HeaderConflict[];
+  // 読み取りに使用したプロンプトのバージョン（モックは "mock:フィクスチャ名"）
+  promptVersion?: string;
+  // プロンプトに追加した学習データのヒントの識別子（ヒントなしの場合は未設定）
+  promptHintsId?: string;
+  // 用紙テンプレートのID（未設定は標準の作業記録簿）
+  formTemplateId?: string;
+  // 同じ画像の読み取り済みの結果をキャッシュから使用した
+  fromCache?: boolean;
+}
+
+// 画像間で食い違ったヘッダー項目
+export interface HeaderConflict {
+  field: '商品名' | '工場名';
+  values: { value: string; pages: number[] }[];
+}
+
+// 画像前処理の各ステップの設定
+export interface ImagePreprocessOptions {
+  deskew: boolean;              // 用紙の四隅を検出して傾き・台形歪みを補正
+  normalizeContrast: boolean;   // 影・照明ムラを除去してコントラストを補正
+  suppressHighlighter: boolean; // 蛍光ペンの色を除去
+  debug: boolean;               // 各ステップの画像を出力
+}
+
+// 画像前処理のステップ結果
+export interface ImagePreprocessStep {
+  name: 'original' | 'deskew' | 'normalizeContrast' | 'suppressHighlighter';
+  applied: boolean;
+  durationMs: number;
+  note?: string;   // 適用しなかった理由など
+  image?: string;  // デバッグ時のみ：ステップ適用後の画像
+}
+
+// 画像前処理の結果
+export interface ImagePreprocessResult {
+  image: string;   // OCRに使用する画像（data URL）
+  width: number;
+  height: number;
+  steps: ImagePreprocessStep[];
+}
+
+// 再読み取りの対象項目
+export type RereadField = '氏名' | '開始時刻' | '終了時刻';
+
+// 切り出した行の読み取り結果（プロバイダーが返す）
+export interface RegionReading {
+  values: Partial<Record<RereadField, string>>;
+  confidence: Partial<Record<RereadField, number>>;
+}
+
+// 再読み取りの候補（同じ値の読み取りを1つにまとめたもの）
+export interface RereadCandidate {
+  value: string;       // 候補の値（氏名はマスターデータで補正後）
+  votes: number;       // この値になった読み取りの数（初回の読み取りを含む）
+  confidence: number;  // 読み取りの最も高い信頼度
+}
+
+export interface RereadFieldResult {
+  field: RereadField;
+  before: string;      // 再読み取り前の値
+  after: string;       // 採用した値
+  candidates: RereadCandidate[];
+  resolved: boolean;   // 複数の読み取りが一致して値が確定した
+}
+
+// 再読み取りの記録
+export interface RereadInfo {
+  reasons: ('nameError' | 'invalidTime' | 'timeError')[];
+  attempts: number;    // 成功した再読み取りの回数
+  fields: RereadFieldResult[];
+}
+
+// OCRリクエストの利用記録
+export type OcrUsagePurpose = 'ocr' | 'detect' | 'reread';
+export type OcrUsageOutcome = 'success' | 'error' | 'cached' | 'blocked' | 'cancelled';
+
+export interface OcrUsageEntry {
+  id: string;
+  timestamp: string;         // ISO 8601
+  provider: string;
+  model: string;
+  promptVersion: string;
+  purpose: OcrUsagePurpose;  // ocr: 記録簿の読み取り / detect: 用紙の判定 / reread: 行の再読み取り
+  imageCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  outcome: OcrUsageOutcome;
+  errorMessage?: string;
+}
+
+// 月間の利用額と予算の状態
+export interface OcrBudgetStatus {
+  month: string;             // YYYY-MM
+  spentUsd: number;
+  limitUsd: number | null;   // 未設定は上限なし
+  warnRatio: number;         // 上限に対して警告する割合
+  level: 'ok' | 'warn' | 'blocked';
+}
+
+// 補正の学習データ（読み取った値と確認画面で確定した値の組）
+export type CorrectionMemoryField = '氏名' | '商品名';
+
+export interface CorrectionMemoryEntry {
+  id: string;
+  field: CorrectionMemoryField;
+  original: string;         // OCRで読み取った値
+  corrected: string;        // 保存時に確定した値
+  count: number;            // 同じ組を保存した回数
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// 保存した作業の履歴（同じ名字の従業員を絞り込む手がかりに使用）
+export interface WorkHistoryEntry {
+  savedAt: string;
+  工場名: string;
+  商品名: string;
+  workers: string[];        // 保存できた作業者の氏名
+}
+
+// OCRリクエストのエラー（HTTPステータスと再試行の可否）
+export interface OcrRequestError extends Error {
+  status?: number;
+  canRetry: boolean;        // 時間をおいて再試行すれば成功する可能性があるか（429・5xx）
+  retryAfterMs?: number;    // Retry-Afterヘッダーで指定された待機時間
+}
+
+// 複数枚のOCR処理での画像ごとの状態
+export type OcrJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface OcrJobState {
+  status: OcrJobStatus;
+  attempt: number;          // 実行回数（再試行を含む）
+  progress: number;         // 0〜100
+  message?: string;         // 進捗・エラーのメッセージ
+}
+
+// 読み取りに失敗した画像
+export interface OcrPageFailure {
+  pageIndex: number;        // 画像番号（0始まり）
+  message: string;
+}
+
+// 撮影画像の品質チェック
+export type ImageQualityIssueKind = 'resolution' | 'blur' | 'dark' | 'overexposed' | 'glare' | 'coverage';
+
+export interface ImageQualityIssue {
+  kind: ImageQualityIssueKind;
+  severity: 'block' | 'warn';  // block: 撮り直しが必要 / warn: 読み取り精度が下がる可能性
+  message: string;             // 検出内容
+  advice: string;              // 撮り直しのアドバイス
+}
+
+export interface ImageQualityReport {
+  issues: ImageQualityIssue[];
+  metrics: {
+    width: number;             // 元画像のサイズ
+    height: number;
+    sharpness: number;         // ラプラシアンの分散
+    meanLuminance: number;     // 平均輝度（0-255）
+    clippedRatio: number;      // 白飛びした画素の割合
+    pageCoverage: number | null; // 用紙が画像に占める割合（検出できない場合はnull）
+  };
 }
 
 // 補正結果の型定義
@@ -83,6 +352,12 @@ export interface CorrectionResult {
 export interface MasterData {
   employees: string[];
   products: string[];
+  /** 氏名 → 読み（管理シートのフリガナ列に記入がある従業員のみ） */
+  employeeReadings?: Record<string, string>;
+  /** 氏名 → 別名（別名シートに記入がある従業員のみ） */
+  employeeAliases?: Record<string, string[]>;
+  /** 商品名 → 別名（別名シートに記入がある商品のみ） */
+  productAliases?: Record<string, string[]>;
 }
 
 // 作業記録の型定義（スプレッドシート用）
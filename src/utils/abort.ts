@@ -0,0 +1,18 @@
+/**
+ * 処理のキャンセル（AbortController）の補助
+ */
+
+/**
+ * キャンセルによるエラーか判定
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * キャンセル済みの場合はAbortErrorを投げる（処理の区切りごとに呼び出す）
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new DOMException('処理をキャンセルしました', 'AbortError');
+  }
+};
@@ -0,0 +1,138 @@
+import {
+  CellMeta,
+  CellRegion,
+  FormColumnTemplate,
+  HeaderInfo,
+  OcrResult,
+  TimeSlot,
+  TimeSlotCellKey,
+  WorkerRecord,
+} from '@/types';
+import { mapRecords } from './workerRecords';
+
+/**
+ * 要確認とみなす読み取り信頼度の閾値
+ */
+export const LOW_CELL_CONFIDENCE = 0.6;
+
+/**
+ * 確認が必要なセルか（信頼度が低く、まだ確認されていない）
+ */
+export const isUncertainCell = (cell?: CellMeta): boolean =>
+  !!cell && !cell.verified && cell.confidence < LOW_CELL_CONFIDENCE;
+
+/**
+ * 時刻スロットのセル情報を取得
+ * 時刻リストにセル情報がない1件目は、記録の開始時刻・終了時刻のセル情報を参照する
+ */
+export const getTimeSlotCell = (
+  record: WorkerRecord,
+  slotIndex: number,
+  field: TimeSlotCellKey
+): CellMeta | undefined =>
+  record.時刻リスト?.[slotIndex]?.cells?.[field] ?? (slotIndex === 0 ? record.cells?.[field] : undefined);
+
+/**
+ * 列に確認が必要なセルがあるか（チェックボックスの列はいずれかのチェックボックス）
+ */
+export const isUncertainColumn = (record: WorkerRecord, column: FormColumnTemplate): boolean =>
+  column.kind === 'checkboxes'
+    ? column.checkboxes.some(checkbox => isUncertainCell(record.cells?.[checkbox.key]))
+    : isUncertainCell(record.cells?.[column.key]);
+
+/**
+ * 記録の時刻の要確認フラグをセル情報から再計算
+ */
+export const applyCellFlags = <T extends WorkerRecord>(record: T): T => {
+  const slotCount = Math.max(record.時刻リスト?.length ?? 0, 1);
+  const timeCells: (CellMeta | undefined)[] = [];
+  for (let i = 0; i < slotCount; i++) {
+    timeCells.push(getTimeSlotCell(record, i, '開始時刻'), getTimeSlotCell(record, i, '終了時刻'));
+  }
+
+  const flagged = { ...record };
+  if (timeCells.some(isUncertainCell)) {
+    flagged.timeError = true;
+  } else {
+    delete flagged.timeError;
+  }
+  return flagged;
+};
+
+/**
+ * 記録のセルを確認済みにする（ユーザーが値を修正した場合）
+ */
+export const markRecordCellVerified = <T extends WorkerRecord>(record: T, key: string): T => {
+  const cell = record.cells?.[key];
+  if (!cell || cell.verified) {
+    return record;
+  }
+  return applyCellFlags({
+    ...record,
+    cells: { ...record.cells, [key]: { ...cell, verified: true } },
+  });
+};
+
+/**
+ * 時刻スロットのセルを確認済みにする
+ */
+export const markTimeSlotCellVerified = <T extends WorkerRecord>(
+  record: T,
+  slotIndex: number,
+  field: TimeSlotCellKey
+): T => {
+  const slot = record.時刻リスト?.[slotIndex];
+  const slotCell = slot?.cells?.[field];
+
+  if (slot && slotCell) {
+    if (slotCell.verified) return record;
+    const slots = [...(record.時刻リスト || [])];
+    slots[slotIndex] = { ...slot, cells: { ...slot.cells, [field]: { ...slotCell, verified: true } } };
+    return applyCellFlags({ ...record, 時刻リスト: slots });
+  }
+
+  return slotIndex === 0 ? markRecordCellVerified(record, field) : record;
+};
+
+const scaleRegion = (region: CellRegion, scaleX: number, scaleY: number): CellRegion => ({
+  x: Math.round(region.x * scaleX),
+  y: Math.round(region.y * scaleY),
+  width: Math.round(region.width * scaleX),
+  height: Math.round(region.height * scaleY),
+});
+
+const scaleCells = <K extends string>(
+  cells: Partial<Record<K, CellMeta>> | undefined,
+  scaleX: number,
+  scaleY: number
+): Partial<Record<K, CellMeta>> | undefined => {
+  if (!cells) return undefined;
+  const scaled: Partial<Record<K, CellMeta>> = {};
+  (Object.keys(cells) as K[]).forEach(key => {
+    const cell = cells[key]!;
+    scaled[key] = cell.region ? { ...cell, region: scaleRegion(cell.region, scaleX, scaleY) } : { ...cell };
+  });
+  return scaled;
+};
+
+const scaleRecord = <T extends WorkerRecord>(record: T, scaleX: number, scaleY: number): T => ({
+  ...record,
+  cells: scaleCells(record.cells, scaleX, scaleY),
+  時刻リスト: record.時刻リスト?.map((slot: TimeSlot) => ({
+    ...slot,
+    cells: scaleCells(slot.cells, scaleX, scaleY),
+  })),
+});
+
+/**
+ * OCR結果内のすべてのセル領域を拡大縮小
+ * 比率（0〜1）で返された領域を元画像のピクセル座標に変換する場合などに使用
+ */
+export const scaleCellRegions = (result: OcrResult, scaleX: number, scaleY: number): OcrResult => {
+  const header: HeaderInfo = { ...result.ヘッダー, cells: scaleCells(result.ヘッダー.cells, scaleX, scaleY) };
+  return {
+    ...result,
+    ヘッダー: header,
+    記録: mapRecords(result, record => scaleRecord(record, scaleX, scaleY)),
+  };
+};
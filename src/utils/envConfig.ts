@@ -3,6 +3,15 @@
  */
 
 import { log } from './logger';
+import type { ImagePreprocessOptions } from '@/types';
+
+// 画像前処理のステップ名（VITE_IMAGE_PREPROCESS_STEPS で指定）
+const PREPROCESS_STEP_NAMES = {
+  deskew: 'deskew',
+  contrast: 'normalizeContrast',
+  highlighter: 'suppressHighlighter',
+} as const;
+const DEFAULT_PREPROCESS_STEPS = 'deskew,contrast';
 
 interface EnvConfig {
   openaiApiKey: string;
@@ -11,6 +20,8 @@ interface EnvConfig {
   spreadsheetId: string;
   appName: string;
   appVersion: string;
+  ocrProvider: string;
+  apiProxyUrl: string | null;
   isDev: boolean;
 }
 
@@ -22,14 +33,114 @@ class EnvironmentValidator {
     return value.trim(); // 改行文字を除去
   }
 
+  /**
+   * 使用するOCRプロバイダー名（未設定時は openai）
+   */
+  static getOcrProviderName(): string {
+    return (import.meta.env.VITE_OCR_PROVIDER || 'openai').trim();
+  }
+
+  /**
+   * 使用するOCRプロンプトのバージョン（未設定時は既定のバージョン）
+   */
+  static getOcrPromptVersion(): string | undefined {
+    return import.meta.env.VITE_OCR_PROMPT_VERSION?.trim() || undefined;
+  }
+
+  /**
+   * 画像前処理の設定（カンマ区切りのステップ名、none で無効）
+   */
+  static getImagePreprocessOptions(): ImagePreprocessOptions {
+    const steps = (import.meta.env.VITE_IMAGE_PREPROCESS_STEPS ?? DEFAULT_PREPROCESS_STEPS)
+      .split(',')
+      .map(step => step.trim())
+      .filter(Boolean);
+
+    const options: ImagePreprocessOptions = {
+      deskew: false,
+      normalizeContrast: false,
+      suppressHighlighter: false,
+      debug: import.meta.env.VITE_IMAGE_PREPROCESS_DEBUG === 'true',
+    };
+
+    steps.forEach(step => {
+      const key = PREPROCESS_STEP_NAMES[step as keyof typeof PREPROCESS_STEP_NAMES];
+      if (key) {
+        options[key] = true;
+      } else if (step !== 'none') {
+        log.warn('未定義の画像前処理ステップが指定されました', { step });
+      }
+    });
+
+    return options;
+  }
+
+  /**
+   * 読み取りにくい行の再読み取りを行うか（false で無効）
+   */
+  static isOcrRereadEnabled(): boolean {
+    return import.meta.env.VITE_OCR_REREAD !== 'false';
+  }
+
+  /**
+   * 複数枚のOCRの同時実行数と再試行回数（未設定・不正な値は既定値）
+   */
+  static getOcrQueueConfig(): { concurrency: number; maxRetries: number } {
+    const concurrency = Number(import.meta.env.VITE_OCR_CONCURRENCY);
+    const maxRetries = Number(import.meta.env.VITE_OCR_MAX_RETRIES);
+    return {
+      concurrency: Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 3,
+      maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : 2,
+    };
+  }
+
+  /**
+   * OCRの月間予算（上限は米ドル、未設定または0以下は上限なし）
+   */
+  static getOcrBudget(): { monthlyLimitUsd: number | null; warnRatio: number } {
+    const limit = Number(import.meta.env.VITE_OCR_MONTHLY_BUDGET_USD);
+    const warnRatio = Number(import.meta.env.VITE_OCR_BUDGET_WARN_RATIO);
+    return {
+      monthlyLimitUsd: Number.isFinite(limit) && limit > 0 ? limit : null,
+      warnRatio: Number.isFinite(warnRatio) && warnRatio > 0 && warnRatio <= 1 ? warnRatio : 0.8,
+    };
+  }
+
+  /**
+   * OCRの利用記録をスプレッドシートの「usage」シートにも追記するか
+   */
+  static isUsageSheetEnabled(): boolean {
+    return import.meta.env.VITE_OCR_USAGE_SHEET === 'true';
+  }
+
+  /**
+   * APIプロキシのURL（設定した場合、OpenAI・Sheets APIはAPIキーを使わずプロキシ経由で呼び出す）
+   */
+  static getApiProxyUrl(): string | null {
+    const url = import.meta.env.VITE_API_PROXY_URL?.trim();
+    return url ? url.replace(/\/+$/, '') : null;
+  }
+
   static getConfig(): EnvConfig {
+    const ocrProvider = this.getOcrProviderName();
+    const apiProxyUrl = this.getApiProxyUrl();
     const config: EnvConfig = {
-      openaiApiKey: this.validateRequired(import.meta.env.VITE_OPENAI_API_KEY, 'VITE_OPENAI_API_KEY'),
+      // プロキシ使用時はサーバー側のAPIキーを使用するため、設定されていても読み込まない
+      // モックプロバイダー使用時はOpenAIキー不要
+      openaiApiKey: apiProxyUrl
+        ? ''
+        : ocrProvider === 'openai'
+          ? this.validateRequired(import.meta.env.VITE_OPENAI_API_KEY, 'VITE_OPENAI_API_KEY')
+          : (import.meta.env.VITE_OPENAI_API_KEY || '').trim(),
       googleClientId: this.validateRequired(import.meta.env.VITE_GOOGLE_CLIENT_ID, 'VITE_GOOGLE_CLIENT_ID'),
-      googleApiKey: this.validateRequired(import.meta.env.VITE_GOOGLE_API_KEY, 'VITE_GOOGLE_API_KEY'),
+      googleApiKey: apiProxyUrl
+        ? ''
+        : this.validateRequired(import.meta.env.VITE_GOOGLE_API_KEY, 'VITE_GOOGLE_API_KEY'),
       spreadsheetId: this.validateRequired(import.meta.env.VITE_SPREADSHEET_ID, 'VITE_SPREADSHEET_ID'),
       appName: import.meta.env.VITE_APP_NAME || '作業記録簿OCR',
       appVersion: import.meta.env.VITE_APP_VERSION || '1.0.0',
+      ocrProvider,
+      apiProxyUrl,
       isDev: import.meta.env.VITE_DEV_MODE === 'true' || import.meta.env.DEV === true,
     };
 
@@ -38,6 +149,8 @@ class EnvironmentValidator {
       hasGoogleClientId: !!config.googleClientId,
       hasGoogleApiKey: !!config.googleApiKey,
       hasSpreadsheetId: !!config.spreadsheetId,
+      ocrProvider: config.ocrProvider,
+      useApiProxy: !!config.apiProxyUrl,
       isDev: config.isDev
     });
 
@@ -0,0 +1,451 @@
+/**
+ * 画像前処理のアルゴリズム（DOMに依存しないためWeb Workerから使用する）
+ */
+
+import type { ImagePreprocessOptions, ImagePreprocessStep } from '@/types';
+
+// RGBA形式の画素データ
+export interface RasterImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 四隅検出に使用する縮小画像の長辺
+const DETECTION_MAX_DIMENSION = 400;
+// 検出した用紙が画像に占める最小の割合（これ未満は誤検出とみなす）
+const MIN_PAGE_AREA_RATIO = 0.3;
+// 四隅が画像の角からこの割合以内なら補正不要とみなす
+const CORNER_TOLERANCE_RATIO = 0.02;
+// 照明ムラ推定のブロックサイズ（px）
+const BACKGROUND_BLOCK_SIZE = 32;
+
+const luminance = (r: number, g: number, b: number): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * 縮小したグレースケール画像を作成
+ */
+const downscaleGray = (image: RasterImage, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const gray = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(image.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(image.width - 1, Math.floor(x / scale));
+      const i = (sy * image.width + sx) * 4;
+      gray[y * width + x] = luminance(image.data[i], image.data[i + 1], image.data[i + 2]);
+    }
+  }
+
+  return { gray, width, height, scale };
+};
+
+/**
+ * 大津の方法で二値化の閾値を求める
+ */
+export const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+
+  const total = gray.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestThreshold = 127;
+  let bestVariance = 0;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = t;
+    }
+  }
+
+  return bestThreshold;
+};
+
+/**
+ * 多角形の面積（靴紐公式）
+ */
+const polygonArea = (points: Point[]): number => {
+  let area = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+/**
+ * 四角形が凸か判定
+ */
+const isConvex = (points: Point[]): boolean => {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+/**
+ * 用紙の領域を検出（四隅は左上・右上・右下・左下の順）
+ * 背景より明るい用紙を二値化で抽出し、最大の連結領域の端点を四隅とする
+ * @param minAreaRatio 用紙とみなす最小の面積比（これ未満はnull）
+ */
+export const findPageQuad = (
+  image: RasterImage,
+  minAreaRatio: number = MIN_PAGE_AREA_RATIO
+): { corners: Point[]; areaRatio: number } | null => {
+  const { gray, width, height, scale } = downscaleGray(image, DETECTION_MAX_DIMENSION);
+  const threshold = otsuThreshold(gray);
+
+  // 明るい画素の最大連結領域を探索
+  const labels = new Int32Array(width * height).fill(-1);
+  const queue = new Int32Array(width * height);
+  let bestLabel = -1;
+  let bestSize = 0;
+  let label = 0;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (labels[start] !== -1 || gray[start] <= threshold) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const y = (index - x) / width;
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbors) {
+        if (next >= 0 && labels[next] === -1 && gray[next] > threshold) {
+          labels[next] = label;
+          queue[tail++] = next;
+        }
+      }
+    }
+
+    if (tail > bestSize) {
+      bestSize = tail;
+      bestLabel = label;
+    }
+    label++;
+  }
+
+  if (bestLabel < 0 || bestSize < width * height * minAreaRatio) {
+    return null;
+  }
+
+  // 各角に最も近い画素（x+y, x-y の最大・最小）
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== bestLabel) continue;
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+    if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+    if (x - y > topRight.score) topRight = { x, y, score: x - y };
+    if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+  }
+
+  const corners = [topLeft, topRight, bottomRight, bottomLeft].map(p => ({
+    x: Math.min(image.width - 1, (p.x + 0.5) / scale),
+    y: Math.min(image.height - 1, (p.y + 0.5) / scale),
+  }));
+
+  const areaRatio = polygonArea(corners) / (image.width * image.height);
+  if (!isConvex(corners) || areaRatio < minAreaRatio) {
+    return null;
+  }
+
+  return { corners, areaRatio };
+};
+
+/**
+ * 傾き補正に使用する用紙の四隅を検出
+ * 検出できない場合、または補正が不要な場合はnull
+ */
+export const detectPageCorners = (image: RasterImage): Point[] | null => {
+  const page = findPageQuad(image);
+  if (!page) {
+    return null;
+  }
+  const { corners } = page;
+
+  const imageCorners = [
+    { x: 0, y: 0 },
+    { x: image.width, y: 0 },
+    { x: image.width, y: image.height },
+    { x: 0, y: image.height },
+  ];
+  const tolerance = Math.max(image.width, image.height) * CORNER_TOLERANCE_RATIO;
+  const alreadyAligned = corners.every(
+    (p, i) => Math.hypot(p.x - imageCorners[i].x, p.y - imageCorners[i].y) <= tolerance
+  );
+
+  return alreadyAligned ? null : corners;
+};
+
+/**
+ * 4点の対応から射影変換行列を求める（出力座標 → 入力座標）
+ */
+const solveHomography = (from: Point[], to: Point[]): number[] => {
+  // 8元連立方程式をガウスの消去法で解く
+  const matrix: number[][] = [];
+  from.forEach((p, i) => {
+    const q = to[i];
+    matrix.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x, q.x]);
+    matrix.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y, q.y]);
+  });
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < 9; k++) {
+        matrix[row][k] -= factor * matrix[col][k];
+      }
+    }
+  }
+
+  return [...matrix.map((row, i) => row[8] / row[i]), 1];
+};
+
+/**
+ * 四隅を長方形に引き伸ばす射影変換（傾き・台形歪みの補正）
+ */
+export const warpPerspective = (image: RasterImage, corners: Point[]): RasterImage => {
+  const [tl, tr, br, bl] = corners;
+  const width = Math.round(Math.max(Math.hypot(tr.x - tl.x, tr.y - tl.y), Math.hypot(br.x - bl.x, br.y - bl.y)));
+  const height = Math.round(Math.max(Math.hypot(bl.x - tl.x, bl.y - tl.y), Math.hypot(br.x - tr.x, br.y - tr.y)));
+
+  const destination = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+  const h = solveHomography(destination, corners);
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = (h[0] * x + h[1] * y + h[2]) / w;
+      const sy = (h[3] * x + h[4] * y + h[5]) / w;
+
+      // バイリニア補間
+      const x0 = Math.max(0, Math.min(image.width - 2, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(image.height - 2, Math.floor(sy)));
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+      const i00 = (y0 * image.width + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + image.width * 4;
+      const i11 = i01 + 4;
+      const o = (y * width + x) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        const top = image.data[i00 + c] * (1 - fx) + image.data[i10 + c] * fx;
+        const bottom = image.data[i01 + c] * (1 - fx) + image.data[i11 + c] * fx;
+        output[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      output[o + 3] = 255;
+    }
+  }
+
+  return { data: output, width, height };
+};
+
+/**
+ * 影・照明ムラを除去してコントラストを補正
+ * ブロックごとの最大輝度を用紙の地色とみなして割り戻し、その後ヒストグラムを引き伸ばす
+ */
+export const normalizeContrast = (image: RasterImage): RasterImage => {
+  const { data, width, height } = image;
+  const gridWidth = Math.ceil(width / BACKGROUND_BLOCK_SIZE);
+  const gridHeight = Math.ceil(height / BACKGROUND_BLOCK_SIZE);
+  const background = new Float32Array(gridWidth * gridHeight);
+
+  // ブロックごとの最大輝度
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const cell = Math.floor(y / BACKGROUND_BLOCK_SIZE) * gridWidth + Math.floor(x / BACKGROUND_BLOCK_SIZE);
+      background[cell] = Math.max(background[cell], luminance(data[i], data[i + 1], data[i + 2]));
+    }
+  }
+
+  // 隣接ブロックで平滑化（文字だけのブロックで地色を誤推定しないように）
+  const smoothed = new Float32Array(background.length);
+  for (let gy = 0; gy < gridHeight; gy++) {
+    for (let gx = 0; gx < gridWidth; gx++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = gx + dx;
+          const ny = gy + dy;
+          if (nx < 0 || ny < 0 || nx >= gridWidth || ny >= gridHeight) continue;
+          sum += background[ny * gridWidth + nx];
+          count++;
+        }
+      }
+      smoothed[gy * gridWidth + gx] = Math.max(sum / count, 1);
+    }
+  }
+
+  const output = new Uint8ClampedArray(data.length);
+  const histogram = new Array<number>(256).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(gridHeight - 1, Math.floor(y / BACKGROUND_BLOCK_SIZE));
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(gridWidth - 1, Math.floor(x / BACKGROUND_BLOCK_SIZE));
+      const gain = Math.min(3, 255 / smoothed[gy * gridWidth + gx]);
+      const i = (y * width + x) * 4;
+      output[i] = data[i] * gain;
+      output[i + 1] = data[i + 1] * gain;
+      output[i + 2] = data[i + 2] * gain;
+      output[i + 3] = 255;
+      histogram[Math.round(luminance(output[i], output[i + 1], output[i + 2]))]++;
+    }
+  }
+
+  // 輝度の1%〜99%を0〜255に引き伸ばす
+  const total = width * height;
+  let low = 0;
+  let high = 255;
+  for (let acc = 0, v = 0; v < 256; v++) {
+    acc += histogram[v];
+    if (acc >= total * 0.01) { low = v; break; }
+  }
+  for (let acc = 0, v = 255; v >= 0; v--) {
+    acc += histogram[v];
+    if (acc >= total * 0.01) { high = v; break; }
+  }
+
+  if (high - low > 16) {
+    const range = high - low;
+    for (let i = 0; i < output.length; i += 4) {
+      output[i] = ((output[i] - low) * 255) / range;
+      output[i + 1] = ((output[i + 1] - low) * 255) / range;
+      output[i + 2] = ((output[i + 2] - low) * 255) / range;
+    }
+  }
+
+  return { data: output, width, height };
+};
+
+/**
+ * 蛍光ペンの色を白に置き換える
+ * 蛍光ペンは明るく彩度が高い（ボールペンの赤・青は暗いため残る）
+ */
+export const suppressHighlighter = (image: RasterImage): RasterImage => {
+  const output = new Uint8ClampedArray(image.data);
+
+  for (let i = 0; i < output.length; i += 4) {
+    const max = Math.max(output[i], output[i + 1], output[i + 2]);
+    const min = Math.min(output[i], output[i + 1], output[i + 2]);
+    const saturation = max === 0 ? 0 : (max - min) / max;
+
+    if (max >= 204 && min >= 80 && saturation >= 0.2) {
+      output[i] = 255;
+      output[i + 1] = 255;
+      output[i + 2] = 255;
+    }
+  }
+
+  return { data: output, width: image.width, height: image.height };
+};
+
+/**
+ * 設定されたステップを順に適用
+ * @param onStep 各ステップ適用後に呼ばれる（デバッグ出力用）
+ */
+export const runPreprocessPipeline = async (
+  image: RasterImage,
+  options: ImagePreprocessOptions,
+  onStep?: (step: ImagePreprocessStep, result: RasterImage) => Promise<void>
+): Promise<{ image: RasterImage; steps: ImagePreprocessStep[] }> => {
+  const steps: ImagePreprocessStep[] = [];
+  let current = image;
+
+  const record = async (step: ImagePreprocessStep) => {
+    steps.push(step);
+    await onStep?.(step, current);
+  };
+
+  await record({ name: 'original', applied: true, durationMs: 0 });
+
+  if (options.deskew) {
+    const started = performance.now();
+    const corners = detectPageCorners(current);
+    if (corners) {
+      current = warpPerspective(current, corners);
+    }
+    await record({
+      name: 'deskew',
+      applied: !!corners,
+      durationMs: Math.round(performance.now() - started),
+      note: corners ? undefined : '用紙の四隅を検出できないか、補正が不要でした',
+    });
+  }
+
+  if (options.normalizeContrast) {
+    const started = performance.now();
+    current = normalizeContrast(current);
+    await record({ name: 'normalizeContrast', applied: true, durationMs: Math.round(performance.now() - started) });
+  }
+
+  if (options.suppressHighlighter) {
+    const started = performance.now();
+    current = suppressHighlighter(current);
+    await record({ name: 'suppressHighlighter', applied: true, durationMs: Math.round(performance.now() - started) });
+  }
+
+  return { image: current, steps };
+};
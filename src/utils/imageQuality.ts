@@ -0,0 +1,139 @@
+/**
+ * 撮影画像の品質チェック（ブレ・明るさ・反射・用紙の写り具合・解像度）
+ * DOMに依存しない純粋な計算のみ
+ */
+
+import type { ImageQualityIssue, ImageQualityReport } from '@/types';
+import { findPageQuad, RasterImage } from '@/utils/imageProcessing';
+
+// 解像度（元画像の長辺px）：OCRには長辺1600pxで送信する
+const MIN_LONG_SIDE_BLOCK = 800;
+const MIN_LONG_SIDE_WARN = 1200;
+// ブレ・ピンボケ（ラプラシアンの分散）
+const SHARPNESS_BLOCK = 12;
+const SHARPNESS_WARN = 40;
+// 明るさ（平均輝度）
+const DARK_BLOCK = 50;
+const DARK_WARN = 80;
+const OVEREXPOSED_WARN = 235;
+// 反射（白飛びした画素の割合）
+const CLIPPED_LUMINANCE = 250;
+const GLARE_WARN = 0.03;
+const GLARE_BLOCK = 0.25;
+// 用紙の写り具合（画像に占める用紙の割合）
+const COVERAGE_DETECTION_MIN = 0.1;
+const COVERAGE_BLOCK = 0.25;
+const COVERAGE_WARN = 0.5;
+
+/**
+ * 画像の品質を解析
+ * @param image 解析用に縮小した画像
+ * @param originalSize 元画像のサイズ（解像度の判定に使用）
+ */
+export const analyzeImageQuality = (
+  image: RasterImage,
+  originalSize: { width: number; height: number }
+): ImageQualityReport => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  let luminanceSum = 0;
+  let clipped = 0;
+
+  for (let i = 0; i < gray.length; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = value;
+    luminanceSum += value;
+    if (value >= CLIPPED_LUMINANCE) clipped++;
+  }
+
+  // ラプラシアン（4近傍）の分散：値が小さいほど輪郭がぼやけている
+  let lapSum = 0;
+  let lapSquareSum = 0;
+  let lapCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      lapSum += lap;
+      lapSquareSum += lap * lap;
+      lapCount++;
+    }
+  }
+  const lapMean = lapCount > 0 ? lapSum / lapCount : 0;
+  const sharpness = lapCount > 0 ? lapSquareSum / lapCount - lapMean * lapMean : 0;
+
+  const meanLuminance = gray.length > 0 ? luminanceSum / gray.length : 0;
+  const clippedRatio = gray.length > 0 ? clipped / gray.length : 0;
+  const pageCoverage = findPageQuad(image, COVERAGE_DETECTION_MIN)?.areaRatio ?? null;
+
+  const issues: ImageQualityIssue[] = [];
+  const longSide = Math.max(originalSize.width, originalSize.height);
+
+  if (longSide < MIN_LONG_SIDE_WARN) {
+    issues.push({
+      kind: 'resolution',
+      severity: longSide < MIN_LONG_SIDE_BLOCK ? 'block' : 'warn',
+      message: `画像の解像度が低すぎます（${originalSize.width}×${originalSize.height}）`,
+      advice: 'カメラの標準画質で撮影し、スクリーンショットや縮小した画像は使用しないでください',
+    });
+  }
+
+  if (sharpness < SHARPNESS_WARN) {
+    issues.push({
+      kind: 'blur',
+      severity: sharpness < SHARPNESS_BLOCK ? 'block' : 'warn',
+      message: '画像がぼやけています（手ブレ・ピンボケ）',
+      advice: '記録簿をタップしてピントを合わせ、スマートフォンを両手で固定して撮影してください',
+    });
+  }
+
+  if (meanLuminance < DARK_WARN) {
+    issues.push({
+      kind: 'dark',
+      severity: meanLuminance < DARK_BLOCK ? 'block' : 'warn',
+      message: '画像が暗すぎます',
+      advice: '明るい場所で撮影してください。手やスマートフォンの影が記録簿にかからないようにしてください',
+    });
+  } else if (meanLuminance > OVEREXPOSED_WARN) {
+    issues.push({
+      kind: 'overexposed',
+      severity: 'warn',
+      message: '画像が明るすぎます（白飛び）',
+      advice: '直射日光や照明が直接当たらない場所で撮影してください',
+    });
+  }
+
+  // 全体が明るすぎる場合は白飛びとして扱い、部分的な白飛びを反射とみなす
+  if (meanLuminance <= OVEREXPOSED_WARN && clippedRatio > GLARE_WARN) {
+    issues.push({
+      kind: 'glare',
+      severity: clippedRatio > GLARE_BLOCK ? 'block' : 'warn',
+      message: `照明の反射で白く写っている部分があります（約${Math.round(clippedRatio * 100)}%）`,
+      advice: '撮影する角度を少し変えて、蛍光灯やフラッシュの反射を避けてください',
+    });
+  }
+
+  if (pageCoverage === null || pageCoverage < COVERAGE_WARN) {
+    issues.push({
+      kind: 'coverage',
+      // 背景と用紙の明るさが近いと検出できないため、未検出は警告にとどめる
+      severity: pageCoverage !== null && pageCoverage < COVERAGE_BLOCK ? 'block' : 'warn',
+      message: pageCoverage === null
+        ? '記録簿の用紙を検出できませんでした'
+        : `記録簿が小さく写っています（画像の約${Math.round(pageCoverage * 100)}%）`,
+      advice: '作業記録簿全体が画面いっぱいに収まるように近づいて撮影してください。暗い色の机の上に置くと検出しやすくなります',
+    });
+  }
+
+  return {
+    issues,
+    metrics: {
+      width: originalSize.width,
+      height: originalSize.height,
+      sharpness,
+      meanLuminance,
+      clippedRatio,
+      pageCoverage,
+    },
+  };
+};
@@ -0,0 +1,45 @@
+/**
+ * 氏名・商品名の表記ゆれの正規化
+ * 照合・重複の判定の前に、全角・半角（NFKC）、異体字、空白の違いを揃える
+ * 表示・保存する値は管理シートの表記のまま使用し、比較にのみ使用する
+ */
+
+// 異体字 → 通常の字体（NFKC で揃わない字のみ）
+const VARIANT_KANJI: Record<string, string> = {
+  '髙': '高', '﨑': '崎', '嵜': '崎', '邊': '辺', '邉': '辺', '齋': '斎', '齊': '斉', '澤': '沢', '濱': '浜',
+  '廣': '広', '國': '国', '櫻': '桜', '眞': '真', '冨': '富', '嶋': '島', '嶌': '島', '瀨': '瀬', '栁': '柳',
+  '𠮷': '吉', '德': '徳', '曻': '昇', '槇': '槙', '桒': '桑', '舘': '館', '淸': '清', '靑': '青', '惠': '恵',
+  '實': '実', '榮': '栄', '來': '来', '龜': '亀', '壽': '寿', '藏': '蔵', '靜': '静', '圓': '円', '黑': '黒',
+  '條': '条', '學': '学', '峯': '峰', '恆': '恒',
+};
+
+const VARIANT_PATTERN = new RegExp(`[${Object.keys(VARIANT_KANJI).join('')}]`, 'gu');
+
+/**
+ * 全角英数字・半角カナ・異体字を揃え、連続する空白を半角スペース1つにまとめる（前後の空白は除去）
+ */
+export const normalizeText = (value: string): string =>
+  (value || '')
+    .normalize('NFKC')
+    .replace(VARIANT_PATTERN, char => VARIANT_KANJI[char])
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * 比較用のキー（normalizeText の結果から空白をすべて除去）
+ * 「土屋健」と「土屋 健」、「髙橋」と「高橋」を同じ値として扱う
+ */
+export const toMatchKey = (value: string): string => normalizeText(value).replace(/\s/g, '');
+
+/**
+ * 表記ゆれを除いて同じ値か
+ */
+export const isSameText = (a: string, b: string): boolean => toMatchKey(a) === toMatchKey(b);
+
+/**
+ * 一覧（マスターデータ等）から表記ゆれを除いて同じ値を探し、一覧の表記で返す（ない場合はundefined）
+ */
+export const findSameText = (values: string[], value: string): string | undefined => {
+  const key = toMatchKey(value);
+  return key ? values.find(item => toMatchKey(item) === key) : undefined;
+};
@@ -0,0 +1,112 @@
+/**
+ * 作業日の解析・集計期間の計算
+ * 作業日は YYYY/MM/DD 形式の文字列で扱う
+ */
+
+// 令和元年の西暦
+const REIWA_START_YEAR = 2019;
+
+/**
+ * 日付を YYYY/MM/DD 形式に変換
+ */
+export const formatWorkDate = (date: Date): string =>
+  `${date.getFullYear()}/${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getDate().toString().padStart(2, '0')}`;
+
+/**
+ * YYYY/MM/DD 形式の作業日をDateに変換（形式が異なる場合はnull）
+ */
+export const toWorkDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})\/(\d{2})\/(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+/**
+ * 存在する日付の場合のみ YYYY/MM/DD 形式で返す
+ */
+const buildDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return formatWorkDate(date);
+};
+
+/**
+ * 全角数字・記号を半角にし、曜日と空白を除去
+ */
+const normalizeDateText = (text: string): string =>
+  text
+    .replace(/[０-９]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/[／]/g, '/')
+    .replace(/[．。]/g, '.')
+    .replace(/[－ー‐]/g, '-')
+    .replace(/[（(][月火水木金土日]曜?日?[）)]/g, '')
+    .replace(/\s+/g, '');
+
+/**
+ * 手書きの日付を解析（令和・年月日・スラッシュ区切り等）
+ * 年の記入がない場合は基準日に最も近い年とする
+ * @param text 用紙から読み取った日付
+ * @param reference 年を補う基準日（撮影日）
+ * @returns YYYY/MM/DD 形式の日付（解析できない場合はnull）
+ */
+export const parseWorkDate = (text: string, reference: Date): string | null => {
+  const normalized = normalizeDateText(text);
+  if (!normalized) return null;
+
+  // 令和6年10月18日、R6.10.18
+  const reiwa = normalized.match(/^(?:令和|R)(\d{1,2}|元)[年./-](\d{1,2})[月./-](\d{1,2})日?$/i);
+  if (reiwa) {
+    const year = reiwa[1] === '元' ? REIWA_START_YEAR : REIWA_START_YEAR + Number(reiwa[1]) - 1;
+    return buildDate(year, Number(reiwa[2]), Number(reiwa[3]));
+  }
+
+  // 2024年10月18日、2024/10/18、24/10/18、6.10.18（年が小さい場合は令和とみなす）
+  const full = normalized.match(/^(\d{1,4})[年./-](\d{1,2})[月./-](\d{1,2})日?$/);
+  if (full) {
+    const written = Number(full[1]);
+    const currentReiwa = reference.getFullYear() - REIWA_START_YEAR + 1;
+    const year = full[1].length === 4
+      ? written
+      : written <= currentReiwa + 1
+        ? REIWA_START_YEAR + written - 1
+        : 2000 + written;
+    return buildDate(year, Number(full[2]), Number(full[3]));
+  }
+
+  // 10月18日、10/18
+  const monthDay = normalized.match(/^(\d{1,2})[月./-](\d{1,2})日?$/);
+  if (monthDay) {
+    const month = Number(monthDay[1]);
+    const day = Number(monthDay[2]);
+    const candidates = [-1, 0, 1]
+      .map(offset => buildDate(reference.getFullYear() + offset, month, day))
+      .filter((date): date is string => date !== null);
+    if (candidates.length === 0) return null;
+
+    const distance = (date: string) => Math.abs(toWorkDate(date)!.getTime() - reference.getTime());
+    return candidates.reduce((best, date) => (distance(date) < distance(best) ? date : best));
+  }
+
+  return null;
+};
+
+/**
+ * 作業日が属する集計期間（21日サイクル）
+ * 例：6月21日～7月20日 → 6月度、7月21日～8月20日 → 7月度
+ */
+export const getWorkPeriod = (date: Date): { year: number; month: number; start: string; end: string } => {
+  const day = date.getDate();
+  // 1日〜20日は前月度（前月の21日〜当月20日の期間に属する）
+  const start = day <= 20
+    ? new Date(date.getFullYear(), date.getMonth() - 1, 21)
+    : new Date(date.getFullYear(), date.getMonth(), 21);
+  const end = new Date(start.getFullYear(), start.getMonth() + 1, 20);
+
+  return {
+    year: start.getFullYear(),
+    month: start.getMonth() + 1,
+    start: formatWorkDate(start),
+    end: formatWorkDate(end),
+  };
+};
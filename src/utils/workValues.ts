@@ -0,0 +1,270 @@
+/**
+ * 手書きの時刻・時間・数量の解析
+ * OCRの読み取り結果や入力値を型付きの値に変換し、解析できない場合はその理由を区別して返す
+ * 時刻・時間は分単位の数値、数量は0以上の整数で扱う
+ */
+
+/**
+ * 解析結果
+ * - empty: 空欄
+ * - unreadable: 判読不能として記入・出力された値（不明、? 等）
+ * - invalid: 記入はあるが解釈できない値
+ */
+export type ParsedValue<T> =
+  | { status: 'valid'; value: T }
+  | { status: 'empty' }
+  | { status: 'unreadable'; raw: string }
+  | { status: 'invalid'; raw: string };
+
+// 判読不能を表す値（AIが読み取れなかった場合に出力する）
+const UNREADABLE_VALUES = ['不明', '?', '？', '-', 'null', 'undefined'];
+
+const KANJI_DIGITS: Record<string, number> = {
+  '〇': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+
+// 生産数に付けて記入される単位
+const COUNT_UNITS = /(個|枚|本|袋|箱|ケース|pcs)$/i;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// 作業時間の開始・終了の区切り（8:00-17:00、8:00〜17:00）
+const RANGE_SEPARATOR = /[-~〜ー]/;
+
+/**
+ * 判読不能を表す値か
+ */
+export const isUnreadableValue = (value: unknown): boolean =>
+  typeof value === 'string' && UNREADABLE_VALUES.includes(value.trim());
+
+/**
+ * 全角文字を半角にし、空白を除去（数値はそのまま文字列化）
+ */
+const normalizeText = (value: unknown): string => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : '';
+  }
+  return typeof value === 'string' ? value.normalize('NFKC').replace(/\s+/g, '') : '';
+};
+
+/**
+ * 漢数字（99まで）を算用数字に変換（八時半 → 8時半、十二時 → 12時）
+ */
+const replaceKanjiNumbers = (text: string): string =>
+  text.replace(/[〇一二三四五六七八九十]+/g, kanji => {
+    const match = kanji.match(/^([一二三四五六七八九])?十([一二三四五六七八九])?$/);
+    if (match) {
+      return String((match[1] ? KANJI_DIGITS[match[1]] : 1) * 10 + (match[2] ? KANJI_DIGITS[match[2]] : 0));
+    }
+    return kanji.includes('十') ? kanji : kanji.split('').map(char => KANJI_DIGITS[char]).join('');
+  });
+
+/**
+ * 空欄・判読不能の判定（どちらでもない場合はnullを返し、呼び出し側で解析する）
+ */
+const classify = (value: unknown): { status: 'empty' } | { status: 'unreadable'; raw: string } | null => {
+  if (value === undefined || value === null || normalizeText(value) === '') {
+    return { status: 'empty' };
+  }
+  if (isUnreadableValue(value)) {
+    return { status: 'unreadable', raw: String(value).trim() };
+  }
+  return null;
+};
+
+/**
+ * 手書きの時刻を解析（0:00〜24:00）
+ * 8:30・8.30・830・0830・8時30分・8時半・八時半・午後1時・1pm 等に対応する
+ * @returns 0時からの分数
+ */
+export const parseTime = (value: unknown): ParsedValue<number> => {
+  const unparsed = classify(value);
+  if (unparsed) return unparsed;
+
+  const raw = String(value).trim();
+  let text = replaceKanjiNumbers(normalizeText(value).toLowerCase());
+
+  let meridiem: 'am' | 'pm' | null = null;
+  const meridiemMatch = text.match(/^(午前|午後|am|pm)|(am|pm)$/);
+  if (meridiemMatch) {
+    const label = meridiemMatch[1] ?? meridiemMatch[2];
+    meridiem = label === '午前' || label === 'am' ? 'am' : 'pm';
+    text = text.replace(meridiemMatch[0], '');
+  }
+
+  let hours: number;
+  let minutes: number;
+  const separated = text.match(/^(\d{1,2})[:.;](\d{2})$/);
+  const kanji = text.match(/^(\d{1,2})時(?:(半)|(\d{1,2})分?)?$/);
+  if (separated) {
+    hours = Number(separated[1]);
+    minutes = Number(separated[2]);
+  } else if (kanji) {
+    hours = Number(kanji[1]);
+    minutes = kanji[2] ? 30 : Number(kanji[3] ?? 0);
+  } else if (/^\d{3,4}$/.test(text)) {
+    // 区切りのない記入（830 → 8:30、1730 → 17:30）
+    hours = Number(text.slice(0, -2));
+    minutes = Number(text.slice(-2));
+  } else if (/^\d{1,2}$/.test(text)) {
+    hours = Number(text);
+    minutes = 0;
+  } else {
+    return { status: 'invalid', raw };
+  }
+
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+
+  const total = hours * 60 + minutes;
+  if (minutes >= 60 || total > MINUTES_PER_DAY) {
+    return { status: 'invalid', raw };
+  }
+  return { status: 'valid', value: total };
+};
+
+/**
+ * 分数を時刻の表記（H:MM）に変換
+ */
+export const formatTime = (minutes: number): string =>
+  `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+/**
+ * 時刻を H:MM 形式に揃える（解釈できない記入は前後の空白を除いてそのまま返す）
+ */
+export const normalizeTime = (value: unknown): string => {
+  const parsed = parseTime(value);
+  if (parsed.status === 'valid') return formatTime(parsed.value);
+  return parsed.status === 'empty' ? '' : parsed.raw;
+};
+
+/**
+ * 手書きの時間の長さを解析
+ * 1:30・1時間30分・1.5時間・90分・1h30m 等に対応し、単位のない数値は分とする
+ * @returns 分数
+ */
+export const parseDuration = (value: unknown): ParsedValue<number> => {
+  const unparsed = classify(value);
+  if (unparsed) return unparsed;
+
+  const raw = String(value).trim();
+  const text = replaceKanjiNumbers(normalizeText(value).toLowerCase());
+
+  const separated = text.match(/^(\d{1,2}):(\d{2})$/);
+  if (separated) {
+    const minutes = Number(separated[2]);
+    return minutes < 60 ? { status: 'valid', value: Number(separated[1]) * 60 + minutes } : { status: 'invalid', raw };
+  }
+
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)(?:時間|h))?(?:(\d+)(?:分|m|min))?$/);
+  if (units && (units[1] || units[2])) {
+    return { status: 'valid', value: Math.round(Number(units[1] ?? 0) * 60) + Number(units[2] ?? 0) };
+  }
+
+  if (/^\d+$/.test(text)) {
+    return { status: 'valid', value: Number(text) };
+  }
+  return { status: 'invalid', raw };
+};
+
+/**
+ * 分数を時間の長さの表記（H:MM）に変換（負の値は -H:MM）
+ */
+export const formatDuration = (minutes: number): string =>
+  minutes < 0 ? `-${formatTime(-minutes)}` : formatTime(minutes);
+
+/**
+ * 作業時間の記入を時刻の範囲として分割（範囲でない場合はnull）
+ */
+const splitRange = (value: unknown): [string, string] | null => {
+  const parts = normalizeText(value).split(RANGE_SEPARATOR);
+  return parts.length === 2 ? [parts[0], parts[1]] : null;
+};
+
+/**
+ * 手書きの作業時間を解析
+ * 8:00-17:00 のような時刻の範囲は開始から終了まで、範囲でない記入（8時間・7:30 等）は時間の長さとして解析する
+ * @returns 分数
+ */
+export const parseWorkHours = (value: unknown): ParsedValue<number> => {
+  const unparsed = classify(value);
+  if (unparsed) return unparsed;
+
+  const raw = String(value).trim();
+  if (!RANGE_SEPARATOR.test(normalizeText(value))) {
+    return parseDuration(value);
+  }
+
+  const range = splitRange(value);
+  const start = parseTime(range?.[0]);
+  const end = parseTime(range?.[1]);
+  if (start.status !== 'valid' || end.status !== 'valid' || end.value <= start.value) {
+    return { status: 'invalid', raw };
+  }
+  return { status: 'valid', value: end.value - start.value };
+};
+
+/**
+ * 作業時間の表記を揃える（範囲は H:MM-H:MM、時間の長さは時刻と区別できるよう H時間M分。解釈できない記入は前後の空白を除いてそのまま返す）
+ */
+export const normalizeWorkHours = (value: unknown): string => {
+  const parsed = parseWorkHours(value);
+  if (parsed.status !== 'valid') {
+    return parsed.status === 'empty' ? '' : parsed.raw;
+  }
+  const range = splitRange(value);
+  if (range) {
+    return `${normalizeTime(range[0])}-${normalizeTime(range[1])}`;
+  }
+  const minutes = parsed.value % 60;
+  return `${Math.floor(parsed.value / 60)}時間${minutes > 0 ? `${minutes}分` : ''}`;
+};
+
+/**
+ * 手書きの数量（生産数）を解析
+ * 桁区切り・全角数字・単位（個、枚 等）を除いて整数として読み取る
+ */
+export const parseCount = (value: unknown): ParsedValue<number> => {
+  const unparsed = classify(value);
+  if (unparsed) return unparsed;
+
+  const raw = String(value).trim();
+  const text = normalizeText(value).replace(/[,、]/g, '').replace(COUNT_UNITS, '');
+  if (!/^\d+$/.test(text)) {
+    return { status: 'invalid', raw };
+  }
+  return { status: 'valid', value: Number(text) };
+};
+
+/**
+ * 数量を数字のみの表記に揃える（解釈できない記入は前後の空白を除いてそのまま返す）
+ */
+export const normalizeCount = (value: unknown): string => {
+  const parsed = parseCount(value);
+  if (parsed.status === 'valid') return String(parsed.value);
+  return parsed.status === 'empty' ? '' : parsed.raw;
+};
+
+/**
+ * 記入があるが時刻として解釈できないか（空欄は対象外）
+ */
+export const isInvalidTime = (value: unknown): boolean => {
+  const { status } = parseTime(value);
+  return status === 'invalid' || status === 'unreadable';
+};
+
+/**
+ * 記入があるが作業時間として解釈できないか（空欄は対象外）
+ */
+export const isInvalidWorkHours = (value: unknown): boolean => {
+  const { status } = parseWorkHours(value);
+  return status === 'invalid' || status === 'unreadable';
+};
+
+/**
+ * 記入があるが数量として解釈できないか（空欄は対象外）
+ */
+export const isInvalidCount = (value: unknown): boolean => {
+  const { status } = parseCount(value);
+  return status === 'invalid' || status === 'unreadable';
+};
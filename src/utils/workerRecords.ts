@@ -0,0 +1,21 @@
+import { OcrResult, WorkerRecord } from '@/types';
+
+/**
+ * すべての表の記録（表の順番を保持）
+ */
+export const getAllRecords = (result: OcrResult): WorkerRecord[] =>
+  Object.values(result.記録 || {}).flat();
+
+/**
+ * すべての表の記録を変換
+ */
+export const mapRecords = (
+  result: OcrResult,
+  transform: (record: WorkerRecord, index: number, section: string) => WorkerRecord
+): OcrResult['記録'] =>
+  Object.fromEntries(
+    Object.entries(result.記録 || {}).map(([section, records]) => [
+      section,
+      records.map((record, index) => transform(record, index, section)),
+    ])
+  );
@@ -7,6 +7,18 @@ interface ImportMetaEnv {
   readonly VITE_SPREADSHEET_ID: string;
   readonly VITE_APP_NAME: string;
   readonly VITE_APP_VERSION: string;
+  readonly VITE_OCR_PROVIDER?: string;
+  readonly VITE_API_PROXY_URL?: string;
+  readonly VITE_OCR_MOCK_FIXTURE?: string;
+  readonly VITE_OCR_PROMPT_VERSION?: string;
+  readonly VITE_IMAGE_PREPROCESS_STEPS?: string;
+  readonly VITE_IMAGE_PREPROCESS_DEBUG?: string;
+  readonly VITE_OCR_REREAD?: string;
+  readonly VITE_OCR_CONCURRENCY?: string;
+  readonly VITE_OCR_MAX_RETRIES?: string;
+  readonly VITE_OCR_MONTHLY_BUDGET_USD?: string;
+  readonly VITE_OCR_BUDGET_WARN_RATIO?: string;
+  readonly VITE_OCR_USAGE_SHEET?: string;
 }
 
 interface ImportMeta {
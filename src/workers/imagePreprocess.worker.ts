@@ -0,0 +1,88 @@
+/**
+ * 画像前処理Web Worker
+ * 画像のデコード・補正・エンコードをすべてメインスレッド外で行う
+ */
+
+import { runPreprocessPipeline, RasterImage } from '@/utils/imageProcessing';
+import type { ImagePreprocessOptions, ImagePreprocessResult } from '@/types';
+
+export interface ImagePreprocessRequest {
+  id: number;
+  image: string;
+  options: ImagePreprocessOptions;
+  maxDimension: number;
+}
+
+export type ImagePreprocessResponse =
+  | { id: number; result: ImagePreprocessResult }
+  | { id: number; error: string };
+
+// DOM型定義のみ参照しているため、Workerのスコープとして必要な部分だけ定義
+const ctx = self as unknown as {
+  postMessage(message: ImagePreprocessResponse): void;
+  onmessage: ((event: MessageEvent<ImagePreprocessRequest>) => void) | null;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * data URLを画素データに変換（長辺をmaxDimension以下に縮小）
+ */
+const decode = async (image: string, maxDimension: number): Promise<RasterImage> => {
+  const blob = await (await fetch(image)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, width, height);
+  return { data, width, height };
+};
+
+/**
+ * 画素データをJPEGのdata URLに変換
+ */
+const encode = async (raster: RasterImage, quality: number): Promise<string> => {
+  const canvas = new OffscreenCanvas(raster.width, raster.height);
+  const context = canvas.getContext('2d')!;
+  context.putImageData(new ImageData(raster.data, raster.width, raster.height), 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  return blobToDataUrl(blob);
+};
+
+ctx.onmessage = async (event) => {
+  const { id, image, options, maxDimension } = event.data;
+
+  try {
+    const source = await decode(image, maxDimension);
+    const { image: processed, steps } = await runPreprocessPipeline(source, options, async (step, result) => {
+      // デバッグ時は各ステップ適用後の画像を出力
+      if (options.debug) {
+        step.image = await encode(result, 0.7);
+      }
+    });
+
+    ctx.postMessage({
+      id,
+      result: {
+        image: await encode(processed, 0.92),
+        width: processed.width,
+        height: processed.height,
+        steps,
+      },
+    });
+  } catch (error) {
+    ctx.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};